@@ -0,0 +1,192 @@
+import {
+  parseBookingRequest,
+  parseDateRange,
+  parseTimeRange,
+} from "../src/services/booking/bookingParser.js";
+
+// Wednesday, October 14 2026 at 10:00 in Phoenix (no DST).
+const NOW = new Date("2026-10-14T17:00:00Z");
+const TIMEZONE = "America/Phoenix";
+
+type DateCase = { text: string; expected: [string, string] | null; now?: Date; timezone?: string };
+type TimeCase = { text: string; expected: [number, number] | null; preference?: string };
+type RequestCase = { text: string; expected: [string, string] | null; timezone?: string };
+
+const at = (hour: number, minute = 0) => hour * 60 + minute;
+
+const dateCases: DateCase[] = [
+  { text: "today", expected: ["2026-10-14", "2026-10-14"] },
+  { text: "can you fit me in tonight", expected: ["2026-10-14", "2026-10-14"] },
+  { text: "tomorrow", expected: ["2026-10-15", "2026-10-15"] },
+  { text: "the day after tomorrow", expected: ["2026-10-16", "2026-10-16"] },
+  { text: "wednesday", expected: ["2026-10-14", "2026-10-14"] },
+  { text: "friday", expected: ["2026-10-16", "2026-10-16"] },
+  { text: "this Friday", expected: ["2026-10-16", "2026-10-16"] },
+  { text: "next Friday", expected: ["2026-10-23", "2026-10-23"] },
+  { text: "next Monday", expected: ["2026-10-19", "2026-10-19"] },
+  { text: "next Wednesday", expected: ["2026-10-21", "2026-10-21"] },
+  { text: "this coming Tuesday", expected: ["2026-10-20", "2026-10-20"] },
+  { text: "following thursday", expected: ["2026-10-22", "2026-10-22"] },
+  { text: "tues", expected: ["2026-10-20", "2026-10-20"] },
+  { text: "in 3 days", expected: ["2026-10-17", "2026-10-17"] },
+  { text: "in two weeks", expected: ["2026-10-26", "2026-11-01"] },
+  { text: "a couple of weeks from now", expected: ["2026-10-26", "2026-11-01"] },
+  { text: "in a month", expected: ["2026-11-09", "2026-11-15"] },
+  { text: "this week", expected: ["2026-10-14", "2026-10-18"] },
+  { text: "later this week", expected: ["2026-10-15", "2026-10-18"] },
+  { text: "next week", expected: ["2026-10-19", "2026-10-25"] },
+  { text: "the week after next", expected: ["2026-10-26", "2026-11-01"] },
+  { text: "this weekend", expected: ["2026-10-17", "2026-10-18"] },
+  { text: "next weekend", expected: ["2026-10-24", "2026-10-25"] },
+  { text: "end of the week", expected: ["2026-10-15", "2026-10-17"] },
+  { text: "end of the month", expected: ["2026-10-25", "2026-10-31"] },
+  { text: "end of next month", expected: ["2026-11-24", "2026-11-30"] },
+  { text: "beginning of next month", expected: ["2026-11-01", "2026-11-07"] },
+  { text: "next month", expected: ["2026-11-01", "2026-11-30"] },
+  { text: "the 20th", expected: ["2026-10-20", "2026-10-20"] },
+  { text: "on the 3rd", expected: ["2026-11-03", "2026-11-03"] },
+  { text: "the 31st", expected: ["2026-10-31", "2026-10-31"] },
+  { text: "March 3rd", expected: ["2027-03-03", "2027-03-03"] },
+  { text: "the 14th of November", expected: ["2026-11-14", "2026-11-14"] },
+  { text: "Oct 14", expected: ["2026-10-14", "2026-10-14"] },
+  { text: "oct 1", expected: ["2027-10-01", "2027-10-01"] },
+  { text: "December 1st, 2026", expected: ["2026-12-01", "2026-12-01"] },
+  { text: "12/25", expected: ["2026-12-25", "2026-12-25"] },
+  { text: "1/5/2027", expected: ["2027-01-05", "2027-01-05"] },
+  { text: "I need a haircut", expected: null },
+  { text: "between 2-4 pm", expected: null },
+  { text: "may I book something", expected: null },
+  // 10pm in Phoenix is already the 15th in UTC; "tomorrow" still means the 15th locally.
+  { text: "tomorrow", expected: ["2026-10-15", "2026-10-15"], now: new Date("2026-10-15T05:00:00Z") },
+  // 1pm in New York while it's 10am in Phoenix.
+  { text: "today", expected: ["2026-10-14", "2026-10-14"], timezone: "America/New_York" },
+];
+
+const timeCases: TimeCase[] = [
+  { text: "at 3", expected: [at(15), at(15)] },
+  { text: "at 3:30pm", expected: [at(15, 30), at(15, 30)] },
+  { text: "10am works", expected: [at(10), at(10)] },
+  { text: "at 9", expected: [at(9), at(9)] },
+  { text: "at 12am", expected: [at(0), at(0)] },
+  { text: "at one", expected: [at(13), at(13)] },
+  { text: "half past two", expected: [at(14, 30), at(14, 30)] },
+  { text: "quarter to four", expected: [at(15, 45), at(15, 45)] },
+  { text: "two thirty", expected: [at(14, 30), at(14, 30)] },
+  { text: "at 4 o'clock", expected: [at(16), at(16)] },
+  { text: "noon", expected: [at(12), at(12)] },
+  { text: "at 14:00", expected: [at(14), at(14)] },
+  { text: "at 7 in the evening", expected: [at(19), at(19)] },
+  { text: "after 3", expected: [at(15), at(24)] },
+  { text: "any time after 11", expected: [at(11), at(24)] },
+  { text: "before 10", expected: [at(0), at(10)] },
+  { text: "no later than 4pm", expected: [at(0), at(16)] },
+  { text: "after 2 but before 5", expected: [at(14), at(17)] },
+  { text: "after 7 tonight", expected: [at(19), at(24)] },
+  { text: "before 10 in the morning", expected: [at(0), at(10)] },
+  { text: "between 2 and 4", expected: [at(14), at(16)] },
+  { text: "between two and four", expected: [at(14), at(16)] },
+  { text: "from 9 to 11", expected: [at(9), at(11)] },
+  { text: "between 10 and 2", expected: [at(10), at(14)] },
+  { text: "11 to 1pm", expected: [at(11), at(13)] },
+  { text: "2-4pm", expected: [at(14), at(16)] },
+  { text: "between 9:30 and 11am", expected: [at(9, 30), at(11)] },
+  { text: "around 3", expected: [at(14, 30), at(15, 30)] },
+  { text: "3ish", expected: [at(14, 30), at(15, 30)] },
+  { text: "around noon", expected: [at(11, 30), at(12, 30)] },
+  { text: "first thing", expected: [at(0), at(10)], preference: "earliest" },
+  { text: "first thing in the morning", expected: [at(0), at(10)], preference: "earliest" },
+  { text: "end of the day", expected: [at(15), at(24)], preference: "latest" },
+  { text: "lunchtime", expected: [at(11, 30), at(13, 30)] },
+  { text: "morning", expected: [at(0), at(12)] },
+  { text: "late morning", expected: [at(10), at(12)] },
+  { text: "early afternoon", expected: [at(12), at(15)] },
+  { text: "late afternoon", expected: [at(15), at(17)] },
+  { text: "afternoon", expected: [at(12), at(17)] },
+  { text: "evening", expected: [at(17), at(24)] },
+  { text: "mornings are best", expected: [at(0), at(12)] },
+  { text: "the 14th", expected: null },
+  { text: "in 2 weeks", expected: null },
+  { text: "12/25", expected: null },
+  { text: "whenever", expected: null },
+];
+
+const requestCases: RequestCase[] = [
+  {
+    text: "next Tuesday after 3",
+    expected: ["2026-10-20T15:00:00-07:00", "2026-10-21T00:00:00-07:00"],
+  },
+  { text: "at 4", expected: ["2026-10-14T16:00:00-07:00", "2026-10-14T16:00:00-07:00"] },
+  // 9am already passed today, so the next 9am is tomorrow.
+  { text: "at 9am", expected: ["2026-10-15T09:00:00-07:00", "2026-10-15T09:00:00-07:00"] },
+  {
+    text: "this weekend in the morning",
+    expected: ["2026-10-17T00:00:00-07:00", "2026-10-18T12:00:00-07:00"],
+  },
+  {
+    text: "the 20th between 2 and 4",
+    expected: ["2026-10-20T14:00:00-07:00", "2026-10-20T16:00:00-07:00"],
+  },
+  { text: "friday", expected: ["2026-10-16T00:00:00-07:00", "2026-10-17T00:00:00-07:00"] },
+  // New York falls back to standard time on November 1.
+  {
+    text: "November 1st at 3pm",
+    expected: ["2026-11-01T15:00:00-05:00", "2026-11-01T15:00:00-05:00"],
+    timezone: "America/New_York",
+  },
+  {
+    text: "October 30 at 3pm",
+    expected: ["2026-10-30T15:00:00-04:00", "2026-10-30T15:00:00-04:00"],
+    timezone: "America/New_York",
+  },
+  {
+    text: "end of the month, mornings",
+    expected: ["2026-10-25T00:00:00-07:00", "2026-10-31T12:00:00-07:00"],
+  },
+  { text: "I'd like to book a cleaning", expected: null },
+];
+
+function same(actual: unknown, expected: unknown) {
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+async function run() {
+  const failures: string[] = [];
+
+  dateCases.forEach(({ text, expected, now, timezone }) => {
+    const range = parseDateRange(text, timezone ?? TIMEZONE, now ?? NOW);
+    const actual = range ? [range.startDate, range.endDate] : null;
+    if (!same(actual, expected)) {
+      failures.push(`date "${text}": expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  });
+
+  timeCases.forEach(({ text, expected, preference }) => {
+    const range = parseTimeRange(text);
+    const actual = range ? [range.startMinute, range.endMinute] : null;
+    if (!same(actual, expected) || (range?.preference ?? undefined) !== preference) {
+      failures.push(
+        `time "${text}": expected ${JSON.stringify(expected)} ${preference ?? ""}, got ${JSON.stringify(actual)} ${range?.preference ?? ""}`
+      );
+    }
+  });
+
+  requestCases.forEach(({ text, expected, timezone }) => {
+    const parsed = parseBookingRequest(text, timezone ?? TIMEZONE, NOW);
+    const actual = parsed.startISO ? [parsed.startISO, parsed.endISO] : null;
+    if (!same(actual, expected)) {
+      failures.push(`request "${text}": expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  });
+
+  const total = dateCases.length + timeCases.length + requestCases.length;
+  if (failures.length) {
+    failures.forEach((failure) => console.error(`✗ ${failure}`));
+    throw new Error(`${failures.length} of ${total} parser cases failed.`);
+  }
+  console.log(`✓ ${total} parser cases passed.`);
+}
+
+run().catch((error) => {
+  console.error("Booking parser test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,225 @@
+import type { AddressInfo } from "net";
+import WebSocket, { WebSocketServer } from "ws";
+
+export type RealtimeEvent = { type: string; [key: string]: any };
+
+type Waiter = {
+  match: (event: RealtimeEvent) => boolean;
+  resolve: (event: RealtimeEvent) => void;
+};
+
+const DEFAULT_TIMEOUT_MS = 5000;
+// 100ms of μ-law silence, the size of one streamed audio chunk in `assistantStartsSpeaking`.
+const SPEECH_CHUNK = Buffer.alloc(800, 0xff).toString("base64");
+
+/**
+ * One scripted Realtime session, i.e. one call's `connectOpenAIRealtime` socket. Every
+ * client event is kept in `received`; `response.create` is answered with an empty
+ * response so the server's in-flight tracking behaves as it would against OpenAI.
+ */
+export class FakeRealtimeSession {
+  readonly received: RealtimeEvent[] = [];
+  private waiters: Waiter[] = [];
+  private nextId = 1;
+
+  constructor(private readonly socket: WebSocket) {
+    socket.on("message", (data) => {
+      const event = JSON.parse(data.toString()) as RealtimeEvent;
+      this.received.push(event);
+      this.waiters = this.waiters.filter((waiter) => {
+        if (!waiter.match(event)) return true;
+        waiter.resolve(event);
+        return false;
+      });
+      if (event.type === "session.update") {
+        this.send({ type: "session.updated", session: event.session });
+      }
+      if (event.type === "response.create") {
+        const responseId = this.id("resp");
+        this.send({ type: "response.created", response: { id: responseId } });
+        this.send({ type: "response.done", response: { id: responseId, status: "completed" } });
+      }
+    });
+    this.send({ type: "session.created", session: { id: this.id("sess") } });
+  }
+
+  private id(prefix: string) {
+    return `${prefix}_${this.nextId++}`;
+  }
+
+  send(event: RealtimeEvent) {
+    this.socket.send(JSON.stringify(event));
+  }
+
+  /** Resolves with the first client event (already received or still to come) that matches. */
+  waitFor(
+    type: string,
+    predicate: (event: RealtimeEvent) => boolean = () => true,
+    timeoutMs = DEFAULT_TIMEOUT_MS
+  ): Promise<RealtimeEvent> {
+    const match = (event: RealtimeEvent) => event.type === type && predicate(event);
+    const existing = this.received.find(match);
+    if (existing) return Promise.resolve(existing);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error(`Timed out waiting for Realtime client event ${type}`)),
+        timeoutMs
+      );
+      this.waiters.push({
+        match,
+        resolve: (event) => {
+          clearTimeout(timer);
+          resolve(event);
+        },
+      });
+    });
+  }
+
+  /** The caller finished a turn; Whisper's transcript arrives as it does on a live call. */
+  callerSays(transcript: string) {
+    const itemId = this.id("item");
+    this.send({ type: "input_audio_buffer.speech_started", item_id: itemId });
+    this.send({ type: "input_audio_buffer.speech_stopped", item_id: itemId });
+    this.send({
+      type: "conversation.item.input_audio_transcription.completed",
+      item_id: itemId,
+      transcript,
+    });
+  }
+
+  /** A spoken assistant reply, streamed as text deltas with a little audio for Twilio. */
+  assistantSays(text: string) {
+    const responseId = this.id("resp");
+    this.send({ type: "response.created", response: { id: responseId } });
+    this.send({
+      type: "response.audio.delta",
+      response_id: responseId,
+      delta: Buffer.from(text).toString("base64"),
+    });
+    for (const word of text.split(/(?<= )/)) {
+      this.send({ type: "response.text.delta", response_id: responseId, delta: word });
+    }
+    this.send({ type: "response.text.done", response_id: responseId, text });
+    this.send({ type: "response.done", response: { id: responseId, status: "completed" } });
+  }
+
+  /**
+   * Starts a spoken reply and leaves it in flight: `chunks` 100ms audio deltas of one
+   * assistant item. Send more with `assistantAudio` and finish it with `endResponse`.
+   */
+  assistantStartsSpeaking(chunks = 3) {
+    const responseId = this.id("resp");
+    const itemId = this.id("item");
+    this.send({ type: "response.created", response: { id: responseId } });
+    for (let index = 0; index < chunks; index += 1) {
+      this.assistantAudio(responseId, itemId);
+    }
+    return { responseId, itemId };
+  }
+
+  assistantAudio(responseId: string, itemId: string) {
+    this.send({
+      type: "response.audio.delta",
+      response_id: responseId,
+      item_id: itemId,
+      content_index: 0,
+      delta: SPEECH_CHUNK,
+    });
+  }
+
+  endResponse(responseId: string, status = "completed") {
+    this.send({ type: "response.done", response: { id: responseId, status } });
+  }
+
+  /** Server VAD heard the caller start talking, e.g. over the assistant. */
+  callerStartsSpeaking() {
+    this.send({ type: "input_audio_buffer.speech_started", item_id: this.id("item") });
+  }
+
+  /** The model calls `name`; resolves with the parsed function_call_output the server sends back. */
+  async callTool(name: string, args: Record<string, unknown>, timeoutMs = DEFAULT_TIMEOUT_MS) {
+    const responseId = this.id("resp");
+    const callId = this.id("call");
+    this.send({ type: "response.created", response: { id: responseId } });
+    this.send({
+      type: "response.function_call_arguments.done",
+      response_id: responseId,
+      call_id: callId,
+      name,
+      arguments: JSON.stringify(args),
+    });
+    this.send({ type: "response.done", response: { id: responseId, status: "completed" } });
+    const event = await this.waitFor(
+      "conversation.item.create",
+      (candidate) =>
+        candidate.item?.type === "function_call_output" && candidate.item.call_id === callId,
+      timeoutMs
+    );
+    return JSON.parse(event.item.output);
+  }
+
+  /** Instructions of every `response.create` the server has sent so far. */
+  responseInstructions(): string[] {
+    return this.received
+      .filter((event) => event.type === "response.create")
+      .map((event) => event.response?.instructions ?? "");
+  }
+}
+
+/**
+ * Local stand-in for the OpenAI Realtime API. Point OPENAI_REALTIME_URL at `url` and each
+ * call the server bridges shows up as a FakeRealtimeSession.
+ */
+export class FakeRealtimeServer {
+  private pending: FakeRealtimeSession[] = [];
+  private waiting: ((session: FakeRealtimeSession) => void)[] = [];
+
+  private constructor(private readonly wss: WebSocketServer) {
+    wss.on("connection", (socket) => {
+      const session = new FakeRealtimeSession(socket);
+      const waiter = this.waiting.shift();
+      if (waiter) {
+        waiter(session);
+      } else {
+        this.pending.push(session);
+      }
+    });
+  }
+
+  static start(): Promise<FakeRealtimeServer> {
+    return new Promise((resolve) => {
+      const wss = new WebSocketServer({ port: 0, host: "127.0.0.1" }, () =>
+        resolve(new FakeRealtimeServer(wss))
+      );
+    });
+  }
+
+  get url() {
+    const { port } = this.wss.address() as AddressInfo;
+    return `ws://127.0.0.1:${port}/v1/realtime`;
+  }
+
+  /** The next Realtime connection the server opens. */
+  nextSession(timeoutMs = DEFAULT_TIMEOUT_MS): Promise<FakeRealtimeSession> {
+    const session = this.pending.shift();
+    if (session) return Promise.resolve(session);
+    return new Promise((resolve, reject) => {
+      const waiter = (next: FakeRealtimeSession) => {
+        clearTimeout(timer);
+        resolve(next);
+      };
+      const timer = setTimeout(() => {
+        this.waiting = this.waiting.filter((candidate) => candidate !== waiter);
+        reject(new Error("Timed out waiting for a Realtime connection"));
+      }, timeoutMs);
+      this.waiting.push(waiter);
+    });
+  }
+
+  close(): Promise<void> {
+    for (const client of this.wss.clients) {
+      client.terminate();
+    }
+    return new Promise((resolve) => this.wss.close(() => resolve()));
+  }
+}
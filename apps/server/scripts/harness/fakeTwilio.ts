@@ -0,0 +1,148 @@
+import WebSocket from "ws";
+
+export type TwilioStreamEvent = { event: string; [key: string]: any };
+
+export interface FakeCallOptions {
+  callSid: string;
+  from?: string;
+  to?: string;
+  // Extra <Parameter> values from the TwiML, e.g. mode/userId for coach calls.
+  customParameters?: Record<string, string>;
+}
+
+// One frame of μ-law silence (20ms at 8kHz), the size Twilio streams in.
+const SILENCE_FRAME = Buffer.alloc(160, 0xff).toString("base64");
+
+/**
+ * Plays Twilio's side of a `<Connect><Stream>` media stream against the server: the
+ * connected/start handshake, inbound audio frames and the final stop. Outbound audio
+ * "plays" instantly (marks are echoed as they arrive) unless playback is paused.
+ */
+export class FakeTwilioCall {
+  readonly received: TwilioStreamEvent[] = [];
+  readonly streamSid: string;
+  private sequenceNumber = 1;
+  private chunk = 1;
+  private playbackPaused = false;
+  // Marks for audio that hasn't "played" yet while playback is paused.
+  private bufferedMarks: string[] = [];
+
+  private constructor(
+    private readonly socket: WebSocket,
+    private readonly options: FakeCallOptions
+  ) {
+    this.streamSid = `MZ${options.callSid.replace(/^CA/, "")}`;
+    socket.on("message", (data) => {
+      const event = JSON.parse(data.toString()) as TwilioStreamEvent;
+      this.received.push(event);
+      if (event.event === "mark") {
+        this.bufferedMarks.push(event.mark.name);
+        if (!this.playbackPaused) this.play();
+      }
+      // Like Twilio, a clear drops unplayed audio and returns its marks straight away.
+      if (event.event === "clear") {
+        this.play();
+      }
+    });
+  }
+
+  /** Opens the stream socket at `url` (the server's ws:// address) and sends "start". */
+  static async connect(url: string, options: FakeCallOptions): Promise<FakeTwilioCall> {
+    const socket = new WebSocket(url);
+    await new Promise<void>((resolve, reject) => {
+      socket.once("open", () => resolve());
+      socket.once("error", reject);
+    });
+    const call = new FakeTwilioCall(socket, options);
+    call.send({ event: "connected", protocol: "Call", version: "1.0.0" });
+    call.send({
+      event: "start",
+      streamSid: call.streamSid,
+      start: {
+        accountSid: "AC00000000000000000000000000000000",
+        streamSid: call.streamSid,
+        callSid: options.callSid,
+        tracks: ["inbound"],
+        mediaFormat: { encoding: "audio/x-mulaw", sampleRate: 8000, channels: 1 },
+        customParameters: {
+          from: options.from ?? "+15555550100",
+          to: options.to ?? "+15555550199",
+          ...options.customParameters,
+        },
+      },
+    });
+    return call;
+  }
+
+  private send(event: TwilioStreamEvent) {
+    this.socket.send(
+      JSON.stringify({ ...event, sequenceNumber: String(this.sequenceNumber++) })
+    );
+  }
+
+  /** Inbound caller audio; silence unless a base64 μ-law payload is given. */
+  sendAudio(payload = SILENCE_FRAME, frames = 1) {
+    for (let index = 0; index < frames; index += 1) {
+      this.send({
+        event: "media",
+        streamSid: this.streamSid,
+        media: { track: "inbound", chunk: String(this.chunk++), timestamp: "0", payload },
+      });
+    }
+  }
+
+  /** Holds outbound audio "on the line" until `play` is called. */
+  pausePlayback() {
+    this.playbackPaused = true;
+  }
+
+  /** Plays whatever is buffered and goes back to playing audio as it arrives. */
+  resumePlayback() {
+    this.playbackPaused = false;
+    this.play();
+  }
+
+  /** Finishes playing the next `count` buffered chunks (all of them by default). */
+  play(count = this.bufferedMarks.length) {
+    for (const name of this.bufferedMarks.splice(0, count)) {
+      this.send({ event: "mark", streamSid: this.streamSid, mark: { name } });
+    }
+  }
+
+  /** Outbound audio frames the server relayed from the model. */
+  mediaReceived() {
+    return this.received.filter((event) => event.event === "media");
+  }
+
+  /** Resolves once `count` events named `name` (e.g. "media", "clear") have come back. */
+  async waitFor(name: string, count = 1, timeoutMs = 5000) {
+    const deadline = Date.now() + timeoutMs;
+    while (this.received.filter((event) => event.event === name).length < count) {
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${count} outbound ${name} events`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  /**
+   * Resolves once `count` audio frames have come back. The server relays Realtime events in
+   * order, so this also means everything the fake model sent before them was handled.
+   */
+  async waitForMedia(count: number, timeoutMs = 5000) {
+    await this.waitFor("media", count, timeoutMs);
+  }
+
+  /** The caller hangs up: Twilio sends "stop" and then closes the socket. */
+  async hangUp() {
+    this.send({
+      event: "stop",
+      streamSid: this.streamSid,
+      stop: { accountSid: "AC00000000000000000000000000000000", callSid: this.options.callSid },
+    });
+    await new Promise<void>((resolve) => {
+      this.socket.once("close", () => resolve());
+      this.socket.close();
+    });
+  }
+}
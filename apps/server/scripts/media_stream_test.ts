@@ -0,0 +1,378 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { z } from "zod";
+import { FakeRealtimeServer, type FakeRealtimeSession } from "./harness/fakeRealtime.js";
+import { FakeTwilioCall } from "./harness/fakeTwilio.js";
+
+// Set before the app (and config/env.ts) loads; a local .env only fills what's left unset.
+const dbPath = path.join(os.tmpdir(), `media-stream-test-${process.pid}.sqlite`);
+Object.assign(process.env, {
+  DB_PATH: dbPath,
+  CALENDAR_PROVIDER: "sqlite",
+  BOOKING_DRY_RUN: "",
+  OPENAI_API_KEY: "test-key",
+  TWILIO_SKIP_SIGNATURE_VALIDATION: "true",
+  TWILIO_FROM_NUMBER: "+15555550199",
+  BUSINESS_OWNER_PHONE: "+15555550123",
+  BUSINESS_OWNER_EMAIL: "",
+  SEND_SUMMARY_TO_CALLER: "true",
+  TRANSFER_ROUTES_JSON: "",
+  BOOKING_FALLBACK_TURNS: "0",
+  LOG_FILE: "off",
+  LOG_LEVEL: process.env.LOG_LEVEL ?? "warn",
+});
+
+const { createAppServer } = await import("../src/app.js");
+const { setSmsSender } = await import("../src/services/twilioSms.js");
+const { getCallBySid } = await import("../src/services/callHistory.js");
+const { listTranscriptEntries } = await import("../src/services/callTranscripts.js");
+const { getMessageById } = await import("../src/services/messages.js");
+const { createCallLog, getUserById, upsertUser } = await import("../src/services/coachDb.js");
+const { getDatabase } = await import("../src/services/database.js");
+const { registerCallMode } = await import("../src/services/calls/callModes.js");
+const { registerTool } = await import("../src/services/tools/toolRegistry.js");
+
+type SentSms = { to: string; from: string; body: string };
+
+const sentSms: SentSms[] = [];
+setSmsSender(async (message) => {
+  sentSms.push(message);
+  return { sid: `SM${sentSms.length}` };
+});
+
+async function waitUntil(check: () => boolean, label: string, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${label}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+async function testBookingCall(streamUrl: string, realtime: FakeRealtimeServer) {
+  const callSid = "CA00000000000000000000000000000001";
+  const call = await FakeTwilioCall.connect(streamUrl, { callSid, from: "+15555550100" });
+  const session = await realtime.nextSession();
+
+  const sessionUpdate = await session.waitFor("session.update");
+  const toolNames = sessionUpdate.session.tools.map((tool: { name: string }) => tool.name);
+  assert.ok(toolNames.includes("booking_create_appointment"), "booking tools are offered");
+  assert.ok(toolNames.includes("take_message"), "take_message is offered");
+  // BUSINESS_OWNER_PHONE doubles as the owner's transfer line.
+  const transferTool = sessionUpdate.session.tools.find(
+    (tool: { name: string }) => tool.name === "transfer_call"
+  );
+  assert.deepEqual(transferTool?.parameters.properties.department.enum, ["owner"]);
+
+  const greeting = await session.waitFor("response.create");
+  assert.match(greeting.response.instructions, /Answer the phone/);
+
+  call.sendAudio(undefined, 5);
+  await session.waitFor("input_audio_buffer.append");
+
+  session.assistantSays("Thanks for calling, how can I help?");
+  await call.waitForMedia(1);
+
+  session.callerSays("Hi, this is Dana, I'd like to book a haircut.");
+  const availability = await session.callTool("booking_check_availability", { maxSlots: 2 });
+  assert.ok(availability.slots.length > 0, "the sqlite calendar offers open slots");
+
+  const [slot] = availability.slots;
+  const booking = await session.callTool("booking_create_appointment", {
+    startISO: slot.startISO,
+    endISO: slot.endISO,
+    name: "Dana",
+    reason: "Haircut",
+  });
+  assert.equal(booking.created, true, "appointment is created");
+
+  const beforeConfirmation = session.responseInstructions().length;
+  session.assistantSays("You're booked, Dana. See you then!");
+  await call.waitForMedia(2);
+  assert.ok(
+    !session
+      .responseInstructions()
+      .slice(beforeConfirmation)
+      .some((instructions) => instructions.includes("not booked yet")),
+    "a confirmed booking is not corrected"
+  );
+
+  await call.hangUp();
+  await waitUntil(() => sentSms.length >= 2, "post-call SMS summaries");
+
+  const ownerSummary = sentSms.find(
+    (sms) => sms.to === "+15555550123" && sms.body.startsWith("Call summary")
+  );
+  assert.ok(ownerSummary, "owner gets a call summary");
+  assert.match(ownerSummary.body, /Caller: Dana \(\+15555550100\)/);
+  assert.match(ownerSummary.body, /Outcome: Appointment booked/);
+  const callerSummary = sentSms.find((sms) => sms.to === "+15555550100");
+  assert.ok(callerSummary, "caller gets a call summary");
+  assert.match(callerSummary.body, /We noted: Haircut\./);
+
+  assert.equal(getCallBySid(callSid)?.outcome, "booked");
+  const entries = listTranscriptEntries(callSid);
+  assert.deepEqual(
+    entries.filter((entry) => entry.entry_type === "tool_call").map((entry) => entry.tool_name),
+    ["booking_check_availability", "booking_create_appointment"]
+  );
+  assert.ok(
+    entries.some((entry) => entry.speaker === "caller" && entry.text?.includes("haircut")),
+    "caller transcript is stored"
+  );
+  console.log("✓ booking call: tool calls, transcript, outcome and post-call SMS");
+}
+
+async function testBookingClaimCorrection(streamUrl: string, realtime: FakeRealtimeServer) {
+  const callSid = "CA00000000000000000000000000000002";
+  const call = await FakeTwilioCall.connect(streamUrl, { callSid, from: "+15555550101" });
+  const session = await realtime.nextSession();
+  await session.waitFor("response.create");
+
+  session.callerSays("Can you book me in for tomorrow at 3?");
+  session.assistantSays("Great, your appointment is booked for tomorrow at 3.");
+  const correction = await session.waitFor("response.create", (event) =>
+    event.response.instructions.includes("that appointment is not booked yet")
+  );
+  assert.ok(correction, "false booking claim is corrected once the response finishes");
+
+  const message = await session.callTool("take_message", {
+    name: "Sam",
+    topic: "booking",
+    message: "Please call me back to book for tomorrow afternoon.",
+  });
+  assert.equal(message.saved, true);
+  assert.equal(message.callbackNumber, "+15555550101");
+  assert.equal(getMessageById(message.messageId)?.caller_name, "Sam");
+
+  await call.hangUp();
+  await waitUntil(
+    () => sentSms.some((sms) => sms.body.includes(`Return message #${message.messageId}`)),
+    "owner summary with the message follow-up"
+  );
+  assert.ok(
+    sentSms.some((sms) => sms.to === "+15555550123" && sms.body.startsWith("New message")),
+    "owner is texted the message"
+  );
+  assert.equal(getCallBySid(callSid)?.outcome, "follow_up");
+  console.log("✓ booking claim correction and take_message");
+}
+
+async function testCoachCall(streamUrl: string, realtime: FakeRealtimeServer) {
+  const callSid = "CA00000000000000000000000000000003";
+  const user = upsertUser({
+    phone_e164: "+15555550102",
+    name: "Lee",
+    timezone: "America/Phoenix",
+    preferred_call_hour_local: 9,
+    preferred_call_minute_local: 0,
+  });
+  createCallLog({ user_id: user.id, call_sid: callSid, outcome: "initiated" });
+
+  const call = await FakeTwilioCall.connect(streamUrl, {
+    callSid,
+    from: "+15555550102",
+    customParameters: { mode: "spanish_coach", userId: String(user.id) },
+  });
+  const session = await realtime.nextSession();
+  const greeting = await session.waitFor("response.create");
+  assert.match(greeting.response.instructions, /Hola/);
+
+  session.assistantSays("Hola Lee, ¿cómo estás?");
+  session.callerSays("Hola, estoy bien, gracias.");
+  session.assistantSays("Vamos a hacerlo más fácil. ¿Tienes hermanos?");
+  session.callerSays("Sí, tengo un hermano.");
+  session.assistantSays("¡Muy bien!");
+  await call.waitForMedia(3);
+
+  const smsBefore = sentSms.length;
+  await call.hangUp();
+  await waitUntil(
+    () => getUserById(user.id)?.level_estimate === "A1" && hasMetrics(callSid),
+    "coach call log metrics"
+  );
+
+  const callLog = getDatabase()
+    .prepare("SELECT outcome, metrics_json FROM call_logs WHERE call_sid = ?")
+    .get(callSid) as { outcome: string; metrics_json: string };
+  assert.equal(callLog.outcome, "answered");
+  assert.deepEqual(JSON.parse(callLog.metrics_json), {
+    score: 30,
+    level: "A1",
+    simplifications: 1,
+    repeats: 0,
+    spanishAnswers: 2,
+    spanishWithoutEnglish: 2,
+  });
+  assert.equal(sentSms.length, smsBefore, "coach calls send no receptionist SMS");
+  assert.equal(getCallBySid(callSid), undefined, "coach calls stay out of call history");
+  console.log("✓ coach call metrics");
+}
+
+function countEvents(events: { type: string }[], type: string) {
+  return events.filter((event) => event.type === type).length;
+}
+
+// Inbound audio is relayed in order, so once it reaches the model the marks sent before it
+// were handled too.
+async function syncPlayback(call: FakeTwilioCall, session: FakeRealtimeSession) {
+  const appendsBefore = countEvents(session.received, "input_audio_buffer.append");
+  call.sendAudio();
+  await waitUntil(
+    () => countEvents(session.received, "input_audio_buffer.append") > appendsBefore,
+    "inbound audio after playback marks"
+  );
+}
+
+async function testBargeIn(streamUrl: string, realtime: FakeRealtimeServer) {
+  const callSid = "CA00000000000000000000000000000005";
+  const call = await FakeTwilioCall.connect(streamUrl, { callSid });
+  const session = await realtime.nextSession();
+  await session.waitFor("response.create");
+
+  // Three 100ms chunks go out; the caller has heard two of them when they cut in.
+  call.pausePlayback();
+  const { responseId, itemId } = session.assistantStartsSpeaking(3);
+  await call.waitForMedia(3);
+  call.play(2);
+  await syncPlayback(call, session);
+
+  session.callerStartsSpeaking();
+  await call.waitFor("clear");
+  await session.waitFor("response.cancel");
+  const truncate = await session.waitFor("conversation.item.truncate");
+  assert.equal(truncate.item_id, itemId);
+  assert.equal(truncate.content_index, 0);
+  assert.equal(truncate.audio_end_ms, 200, "the item is cut where playback stopped");
+
+  // Audio already on its way from the cancelled response never reaches the caller.
+  session.assistantAudio(responseId, itemId);
+  session.endResponse(responseId, "cancelled");
+  session.assistantSays("Sorry, go ahead.");
+  await call.waitForMedia(4);
+  assert.equal(call.mediaReceived().length, 4);
+  assert.equal(
+    call.mediaReceived()[3].media.payload,
+    Buffer.from("Sorry, go ahead.").toString("base64")
+  );
+
+  // Once the reply has played, the caller's next turn isn't a barge-in.
+  call.resumePlayback();
+  await syncPlayback(call, session);
+  session.callerSays("I wanted to ask about parking.");
+  await call.hangUp();
+  assert.equal(countEvents(session.received, "conversation.item.truncate"), 1);
+  assert.equal(call.received.filter((event) => event.event === "clear").length, 1);
+  console.log("✓ barge-in clears Twilio audio and truncates the assistant item");
+}
+
+async function testCustomMode(streamUrl: string, realtime: FakeRealtimeServer) {
+  const callSid = "CA00000000000000000000000000000004";
+  const answers: string[] = [];
+  let stopped = false;
+  const scores: number[] = [];
+  registerTool({
+    name: "record_score",
+    description: "Save the caller's score.",
+    modes: ["survey"],
+    schema: () => z.object({ score: z.number().int().min(0).max(10) }),
+    handler: (args: { score: number }) => {
+      scores.push(args.score);
+      return { saved: true };
+    },
+  });
+  registerCallMode("survey", () => ({
+    buildInstructions: () => "You run a one-question customer survey.",
+    greetingInstructions: () => "Ask how likely the caller is to recommend us, from 0 to 10.",
+    onCallerTranscript: (text) => answers.push(text),
+    onStop: () => {
+      stopped = true;
+    },
+  }));
+
+  const call = await FakeTwilioCall.connect(streamUrl, {
+    callSid,
+    customParameters: { mode: "survey" },
+  });
+  const session = await realtime.nextSession();
+  const sessionUpdate = await session.waitFor("session.update");
+  assert.equal(sessionUpdate.session.instructions, "You run a one-question customer survey.");
+  assert.deepEqual(
+    sessionUpdate.session.tools.map((tool: { name: string }) => tool.name),
+    ["record_score"],
+    "a mode only gets the tools registered for it"
+  );
+  const [scoreTool] = sessionUpdate.session.tools;
+  assert.deepEqual(scoreTool.parameters.required, ["score"]);
+  assert.equal(scoreTool.parameters.properties.score.maximum, 10);
+  const greeting = await session.waitFor("response.create");
+  assert.match(greeting.response.instructions, /recommend us/);
+
+  session.callerSays("Probably a nine.");
+  const unknownTool = await session.callTool("booking_check_availability", {});
+  assert.equal(unknownTool.error.code, "unknown_tool", "other modes' tools are rejected");
+  const invalid = await session.callTool("record_score", { score: 11 });
+  assert.equal(invalid.error.code, "invalid_arguments", "arguments are checked against the schema");
+  const saved = await session.callTool("record_score", { score: 9 });
+  assert.equal(saved.saved, true);
+  assert.deepEqual(scores, [9]);
+
+  await call.hangUp();
+  await waitUntil(() => stopped, "custom mode stop");
+  assert.deepEqual(answers, ["Probably a nine."]);
+  assert.deepEqual(
+    listTranscriptEntries(callSid).map((entry) => [entry.mode, entry.speaker, entry.entry_type]),
+    [
+      ["survey", "caller", "utterance"],
+      ...Array.from({ length: 3 }, () => [
+        ["survey", "assistant", "tool_call"],
+        ["survey", "server", "tool_output"],
+      ]).flat(),
+    ]
+  );
+  console.log("✓ custom call mode");
+}
+
+function hasMetrics(callSid: string) {
+  const row = getDatabase()
+    .prepare("SELECT metrics_json FROM call_logs WHERE call_sid = ?")
+    .get(callSid) as { metrics_json: string | null } | undefined;
+  return Boolean(row?.metrics_json);
+}
+
+async function run() {
+  const realtime = await FakeRealtimeServer.start();
+  process.env.OPENAI_REALTIME_URL = realtime.url;
+
+  const { server, wss } = createAppServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  const streamUrl = `ws://127.0.0.1:${port}/media-stream`;
+
+  try {
+    await testBookingCall(streamUrl, realtime);
+    await testBookingClaimCorrection(streamUrl, realtime);
+    await testCoachCall(streamUrl, realtime);
+    await testBargeIn(streamUrl, realtime);
+    await testCustomMode(streamUrl, realtime);
+  } finally {
+    await realtime.close();
+    for (const client of wss.clients) {
+      client.terminate();
+    }
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    for (const file of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`]) {
+      fs.rmSync(file, { force: true });
+    }
+  }
+}
+
+run().catch((error) => {
+  console.error("Media stream test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+import readline from "readline";
+import axios from "axios";
+
+const SCOPES = "offline_access https://graph.microsoft.com/Calendars.ReadWrite https://graph.microsoft.com/User.Read";
+
+function requireEnv(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new Error(`${name} is missing`);
+  }
+  return value;
+}
+
+async function main() {
+  const clientId = requireEnv(process.env.MICROSOFT_CLIENT_ID, "MICROSOFT_CLIENT_ID");
+  const clientSecret = requireEnv(process.env.MICROSOFT_CLIENT_SECRET, "MICROSOFT_CLIENT_SECRET");
+  const redirectUri = requireEnv(process.env.MICROSOFT_REDIRECT_URI, "MICROSOFT_REDIRECT_URI");
+  const tenantId = process.env.MICROSOFT_TENANT_ID ?? "common";
+  const baseUrl = `https://login.microsoftonline.com/${encodeURIComponent(tenantId)}/oauth2/v2.0`;
+
+  const authUrl = new URL(`${baseUrl}/authorize`);
+  authUrl.searchParams.set("client_id", clientId);
+  authUrl.searchParams.set("response_type", "code");
+  authUrl.searchParams.set("redirect_uri", redirectUri);
+  authUrl.searchParams.set("response_mode", "query");
+  authUrl.searchParams.set("scope", SCOPES);
+  authUrl.searchParams.set("prompt", "consent");
+
+  console.log("Open this URL in your browser to authorize:");
+  console.log(authUrl.toString());
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  const code = await new Promise<string>((resolve) => {
+    rl.question("Paste the authorization code here: ", (answer) => resolve(answer.trim()));
+  });
+
+  rl.close();
+  const response = await axios.post(
+    `${baseUrl}/token`,
+    new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      scope: SCOPES,
+    }).toString(),
+    { headers: { "Content-Type": "application/x-www-form-urlencoded" } }
+  );
+
+  const refreshToken = response.data?.refresh_token;
+  if (!refreshToken) {
+    console.log("No refresh token returned. Ensure the offline_access scope was granted.");
+    return;
+  }
+
+  console.log("\n✅ Refresh token:");
+  console.log(refreshToken);
+  console.log("\nStore this in MICROSOFT_REFRESH_TOKEN.");
+}
+
+main().catch((error) => {
+  console.error("Failed to generate refresh token:", error?.response?.data ?? error);
+  process.exit(1);
+});
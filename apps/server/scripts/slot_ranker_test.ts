@@ -0,0 +1,148 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import type { TimePreference } from "../src/services/booking/slotFinder.js";
+import { rankSlots, type SlotCandidate } from "../src/services/booking/slotRanker.js";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const TIMEZONE = "America/Phoenix";
+// Monday and Tuesday, October 19-20 2026.
+const MONDAY = "2026-10-19";
+const TUESDAY = "2026-10-20";
+
+type RankCase = {
+  name: string;
+  candidates: SlotCandidate[];
+  maxSlots: number;
+  timePreference?: TimePreference;
+  // Local "ddd HH:mm" starts, in the chronological order rankSlots returns.
+  expected: string[];
+};
+
+function slot(day: string, time: string, gapMinutes = 0): SlotCandidate {
+  const start = dayjs.tz(`${day} ${time}`, TIMEZONE);
+  return { start: start.toDate(), end: start.add(30, "minute").toDate(), gapMinutes };
+}
+
+/** Hourly candidates from 9:00 to 16:00, all packed tightly. */
+function hourly(day: string): SlotCandidate[] {
+  return Array.from({ length: 8 }, (_, index) =>
+    slot(day, `${String(9 + index).padStart(2, "0")}:00`)
+  );
+}
+
+const twoDays = [...hourly(MONDAY), ...hourly(TUESDAY)];
+
+const rankCases: RankCase[] = [
+  { name: "no candidates", candidates: [], maxSlots: 2, expected: [] },
+  { name: "maxSlots 0", candidates: twoDays, maxSlots: 0, expected: [] },
+  {
+    name: "spreads across days and times of day",
+    candidates: twoDays,
+    maxSlots: 2,
+    expected: ["Mon 09:00", "Tue 12:00"],
+  },
+  {
+    name: "spreads across times of day on a single day",
+    candidates: hourly(MONDAY),
+    maxSlots: 2,
+    expected: ["Mon 09:00", "Mon 12:00"],
+  },
+  {
+    name: "third option returns to the first day in the other part of it",
+    candidates: twoDays,
+    maxSlots: 3,
+    expected: ["Mon 09:00", "Mon 12:00", "Tue 12:00"],
+  },
+  {
+    name: "keeps options an hour apart",
+    candidates: [slot(MONDAY, "09:00"), slot(MONDAY, "09:15"), slot(MONDAY, "10:30")],
+    maxSlots: 2,
+    expected: ["Mon 09:00", "Mon 10:30"],
+  },
+  {
+    name: "falls back to close options when nothing else is open",
+    candidates: [slot(MONDAY, "09:00"), slot(MONDAY, "09:15"), slot(MONDAY, "09:30")],
+    maxSlots: 5,
+    expected: ["Mon 09:00", "Mon 09:15", "Mon 09:30"],
+  },
+  {
+    name: "prefers the slot that leaves the smallest gap",
+    candidates: [slot(MONDAY, "09:00", 60), slot(MONDAY, "10:00", 0), slot(MONDAY, "11:00", 30)],
+    maxSlots: 1,
+    expected: ["Mon 10:00"],
+  },
+  {
+    name: "a tight fit tomorrow beats a loose one today",
+    candidates: [slot(MONDAY, "09:00", 90), slot(TUESDAY, "09:00", 0)],
+    maxSlots: 1,
+    expected: ["Tue 09:00"],
+  },
+  {
+    name: "specific time ranks the closest opening first",
+    candidates: twoDays,
+    maxSlots: 1,
+    timePreference: { type: "specific", hour: 14, minute: 10 },
+    expected: ["Mon 14:00"],
+  },
+  {
+    name: "specific time is kept across days",
+    candidates: twoDays,
+    maxSlots: 2,
+    timePreference: { type: "specific", hour: 14, minute: 0 },
+    expected: ["Mon 14:00", "Tue 14:00"],
+  },
+  {
+    name: "earliest offers the first opening of each day",
+    candidates: twoDays,
+    maxSlots: 2,
+    timePreference: { type: "earliest" },
+    expected: ["Mon 09:00", "Tue 09:00"],
+  },
+  {
+    name: "latest offers the last opening of each day",
+    candidates: twoDays,
+    maxSlots: 2,
+    timePreference: { type: "latest" },
+    expected: ["Mon 16:00", "Tue 16:00"],
+  },
+  {
+    name: "latest follows each day's own last opening",
+    candidates: [...hourly(MONDAY).slice(0, 4), ...hourly(TUESDAY)],
+    maxSlots: 2,
+    timePreference: { type: "latest" },
+    expected: ["Mon 12:00", "Tue 16:00"],
+  },
+];
+
+function same(actual: unknown, expected: unknown) {
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+async function run() {
+  const failures: string[] = [];
+
+  rankCases.forEach(({ name, candidates, maxSlots, timePreference, expected }) => {
+    const actual = rankSlots(candidates, {
+      timezone: TIMEZONE,
+      maxSlots,
+      timePreference: timePreference ?? { type: "any" },
+    }).map((start) => dayjs(start).tz(TIMEZONE).format("ddd HH:mm"));
+    if (!same(actual, expected)) {
+      failures.push(`${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  });
+
+  if (failures.length) {
+    failures.forEach((failure) => console.error(`✗ ${failure}`));
+    throw new Error(`${failures.length} of ${rankCases.length} ranking cases failed.`);
+  }
+  console.log(`✓ ${rankCases.length} ranking cases passed.`);
+}
+
+run().catch((error) => {
+  console.error("Slot ranker test failed:", error);
+  process.exit(1);
+});
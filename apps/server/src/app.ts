@@ -0,0 +1,64 @@
+import "./config/env.js";
+import http from "http";
+import express from "express";
+import path from "path";
+import { fileURLToPath } from "url";
+import { WebSocketServer } from "ws";
+import { healthRouter } from "./routes/health.js";
+import { twilioRouter } from "./routes/twilio.js";
+import { coachRouter } from "./routes/coach.js";
+import { siteRouter } from "./routes/site.js";
+import { servicesRouter } from "./routes/services.js";
+import { staffRouter } from "./routes/staff.js";
+import { appointmentsRouter } from "./routes/appointments.js";
+import { businessesRouter } from "./routes/businesses.js";
+import { dashboardRouter } from "./routes/dashboard.js";
+import { callsRouter } from "./routes/calls.js";
+import { messagesRouter } from "./routes/messages.js";
+import { isAuthorizedStreamRequest } from "./services/streamTokens.js";
+import { CallSession } from "./services/calls/callSession.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const assetsDir = path.join(__dirname, "../assets");
+
+/**
+ * Builds the HTTP app and the Twilio media stream socket without listening, so the
+ * offline harness in scripts/ can run the whole call pipeline in-process.
+ */
+export function createAppServer() {
+  const app = express();
+
+  app.set("trust proxy", true);
+  app.use(express.urlencoded({ extended: false }));
+  app.use(express.json());
+  app.use("/assets", express.static(assetsDir));
+
+  // Optional health check
+  app.use(siteRouter);
+  app.use(healthRouter);
+  app.use(twilioRouter);
+  app.use(coachRouter);
+  app.use(servicesRouter);
+  app.use(staffRouter);
+  app.use(appointmentsRouter);
+  app.use(businessesRouter);
+  app.use(dashboardRouter);
+  app.use(callsRouter);
+  app.use(messagesRouter);
+
+  const server = http.createServer(app);
+
+  // Twilio only learns the stream URL (and its token) from our signed TwiML responses.
+  const wss = new WebSocketServer({
+    server,
+    verifyClient: (info, done) =>
+      isAuthorizedStreamRequest(info.req) ? done(true) : done(false, 401, "Unauthorized"),
+  });
+  // Each Twilio media stream is one live call with its own Realtime session.
+  wss.on("connection", (twilioWs) => {
+    new CallSession(twilioWs);
+  });
+
+  return { app, server, wss };
+}
@@ -1,6 +1,17 @@
 import "dotenv/config";
 import { z } from "zod";
 
+// z.coerce.boolean() reads any non-empty string as true, including "false".
+const booleanFlag = (defaultValue: boolean) =>
+  z
+    .string()
+    .optional()
+    .transform((value) =>
+      value === undefined || value.trim() === ""
+        ? defaultValue
+        : /^(true|1|yes|on)$/i.test(value.trim())
+    );
+
 const EnvSchema = z.object({
   PORT: z.coerce.number().default(3000),
 
@@ -8,19 +19,45 @@ const EnvSchema = z.object({
   TWILIO_AUTH_TOKEN: z.string().optional(),
   TWILIO_PHONE_NUMBER: z.string().optional(),
   TWILIO_FROM_NUMBER: z.string().optional(),
+  // Local testing only: accept webhooks and media streams without a Twilio signature.
+  TWILIO_SKIP_SIGNATURE_VALIDATION: booleanFlag(false),
   OWNER_FORWARD_NUMBER: z.string().optional(),
   RING_TIMEOUT_SECONDS: z.coerce.number().default(18),
   ENABLE_RING_THEN_AI: z.coerce.boolean().default(false),
+  // JSON array of { name, number, description } departments the receptionist can transfer to.
+  TRANSFER_ROUTES_JSON: z.string().optional(),
 
   PUBLIC_BASE_URL: z.string().optional(),
   COACH_ADMIN_KEY: z.string().optional(),
+  DASHBOARD_USERNAME: z.string().default("owner"),
+  DASHBOARD_PASSWORD: z.string().optional(),
   DB_PATH: z.string().optional(),
 
+  LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).default("info"),
+  // "pretty" prints readable lines to stdout; the log file is always JSON.
+  LOG_FORMAT: z.enum(["json", "pretty"]).default("json"),
+  // Appended to in addition to stdout; "off" disables it.
+  LOG_FILE: z.string().default("./logs/server.log"),
+  LOG_REDACT_PII: booleanFlag(true),
+
   OPENAI_API_KEY: z.string().optional(),
   OPENAI_REALTIME_MODEL: z.string().optional(),
+  OPENAI_REALTIME_URL: z.string().optional(),
   OPENAI_INSTRUCTION_MODEL: z.string().optional(),
+  OPENAI_SMS_MODEL: z.string().optional(),
 
   // Booking + calendar
+  CALENDAR_PROVIDER: z.enum(["google", "sqlite", "caldav", "microsoft"]).default("google"),
+  SQLITE_CALENDAR_ID: z.string().optional(),
+  CALDAV_URL: z.string().optional(),
+  CALDAV_USERNAME: z.string().optional(),
+  CALDAV_PASSWORD: z.string().optional(),
+  MICROSOFT_TENANT_ID: z.string().optional(),
+  MICROSOFT_CLIENT_ID: z.string().optional(),
+  MICROSOFT_CLIENT_SECRET: z.string().optional(),
+  MICROSOFT_REDIRECT_URI: z.string().optional(),
+  MICROSOFT_REFRESH_TOKEN: z.string().optional(),
+  MICROSOFT_CALENDAR_ID: z.string().optional(),
   GOOGLE_CLIENT_ID: z.string().optional(),
   GOOGLE_CLIENT_SECRET: z.string().optional(),
   GOOGLE_REDIRECT_URI: z.string().optional(),
@@ -28,13 +65,24 @@ const EnvSchema = z.object({
   GOOGLE_CALENDAR_ID: z.string().optional(),
   BUSINESS_NAME: z.string().optional(),
   BUSINESS_OWNER_PHONE: z.string().optional(),
+  BUSINESS_OWNER_EMAIL: z.string().optional(),
   DEFAULT_TIMEZONE: z.string().optional(),
   APPT_DURATION_MINUTES: z.coerce.number().optional(),
   APPT_BUFFER_MINUTES: z.coerce.number().optional(),
   BOOKING_DRY_RUN: z.coerce.boolean().optional(),
+  BUSINESS_HOURS_JSON: z.string().optional(),
+  BOOKING_FALLBACK_TURNS: z.coerce.number().int().min(0).default(4),
+  // Comma-separated lead times such as "24h,2h" or "90m"; "off" disables reminders.
+  APPOINTMENT_REMINDER_OFFSETS: z.string().default("24h,2h"),
 
   ENABLE_POST_CALL_SMS: z.coerce.boolean().default(true),
   SEND_SUMMARY_TO_CALLER: z.coerce.boolean().optional(),
+  ENABLE_MISSED_CALL_TEXT_BACK: booleanFlag(true),
+
+  // Owner emails for taken messages; any API taking Resend's JSON body and bearer key works.
+  EMAIL_API_URL: z.string().default("https://api.resend.com/emails"),
+  EMAIL_API_KEY: z.string().optional(),
+  EMAIL_FROM: z.string().optional(),
 });
 
 const rawEnv = {
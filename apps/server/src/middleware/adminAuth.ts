@@ -0,0 +1,13 @@
+import { env } from "../config/env.js";
+
+export function requireAdminKey(req: any, res: any, next: any) {
+  if (!env.COACH_ADMIN_KEY) {
+    return res.status(500).json({ error: "COACH_ADMIN_KEY is not set" });
+  }
+
+  const key = req.headers["x-coach-admin-key"] ?? req.query.adminKey;
+  if (typeof key !== "string" || key !== env.COACH_ADMIN_KEY) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+  return next();
+}
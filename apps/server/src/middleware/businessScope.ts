@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { runWithBusiness } from "../services/businessContext.js";
+import { getBusinessById, getBusinessProfile } from "../services/businesses.js";
+
+/** `?businessId=`: a registered business id, or "default" for the env business. */
+export const businessIdQuerySchema = z
+  .union([z.literal("default"), z.coerce.number().int().positive()])
+  .optional();
+
+/** The stored business id for a parsed `?businessId=`: null for "default", undefined when omitted. */
+export function resolveBusinessIdQuery(
+  businessId: z.infer<typeof businessIdQuerySchema>
+): number | null | undefined {
+  return businessId === "default" ? null : businessId;
+}
+
+const businessQuerySchema = z.object({
+  // Omitting it is the same as "default" here.
+  businessId: businessIdQuerySchema,
+});
+
+/**
+ * Runs the rest of an admin request as the business in `?businessId=`, so catalog and
+ * directory reads and writes only see that tenant's rows.
+ */
+export function requireBusinessScope(req: any, res: any, next: any) {
+  const parsed = businessQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+
+  const businessId = resolveBusinessIdQuery(parsed.data.businessId);
+  if (businessId && !getBusinessById(businessId)) {
+    return res.status(404).json({ error: "Business not found" });
+  }
+  return runWithBusiness(getBusinessProfile(businessId), () => next());
+}
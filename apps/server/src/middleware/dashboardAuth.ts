@@ -0,0 +1,51 @@
+import crypto from "crypto";
+import { env } from "../config/env.js";
+import { getBusinessByPhoneNumber } from "../services/businesses.js";
+import { verifyPassword } from "../utils/passwords.js";
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * The business a dashboard login belongs to: `DASHBOARD_USERNAME`/`DASHBOARD_PASSWORD`
+ * sign in to the env-configured business (null), and a registered business's phone number
+ * with its dashboard password signs in to that business. Undefined when neither matches.
+ */
+function resolveDashboardBusiness(username: string, password: string): number | null | undefined {
+  if (
+    env.DASHBOARD_PASSWORD &&
+    safeEqual(username, env.DASHBOARD_USERNAME) &&
+    safeEqual(password, env.DASHBOARD_PASSWORD)
+  ) {
+    return null;
+  }
+  const business = getBusinessByPhoneNumber(username);
+  const passwordHash = business?.dashboard_password_hash;
+  if (passwordHash && verifyPassword(password, passwordHash)) {
+    return business.id;
+  }
+  return undefined;
+}
+
+/**
+ * HTTP Basic auth for the owner dashboard, so owners can sign in from a browser. The
+ * signed-in business is left in `res.locals.dashboardBusinessId`.
+ */
+export function requireDashboardAuth(req: any, res: any, next: any) {
+  const header = req.headers.authorization;
+  const encoded = typeof header === "string" && header.startsWith("Basic ") ? header.slice(6) : "";
+  const decoded = Buffer.from(encoded, "base64").toString("utf8");
+  const separator = decoded.indexOf(":");
+  const username = separator >= 0 ? decoded.slice(0, separator) : "";
+  const password = separator >= 0 ? decoded.slice(separator + 1) : "";
+  const businessId = separator >= 0 ? resolveDashboardBusiness(username, password) : undefined;
+  if (businessId === undefined) {
+    res.set("WWW-Authenticate", 'Basic realm="Owner dashboard", charset="UTF-8"');
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+  res.locals.dashboardBusinessId = businessId;
+  return next();
+}
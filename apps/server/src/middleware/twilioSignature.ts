@@ -0,0 +1,34 @@
+import twilio from "twilio";
+import { env } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+
+// Twilio signs the exact URL it was configured with, so behind a proxy the public base
+// URL has to be used rather than whatever host the request arrived on.
+function resolveWebhookUrl(req: any): string {
+  if (env.PUBLIC_BASE_URL) {
+    return `${env.PUBLIC_BASE_URL.replace(/\/$/, "")}${req.originalUrl}`;
+  }
+  const forwardedProto = req.get("x-forwarded-proto");
+  const protocol = forwardedProto?.split(",")[0]?.trim() || req.protocol;
+  return `${protocol}://${req.get("host")}${req.originalUrl}`;
+}
+
+export function requireTwilioSignature(req: any, res: any, next: any) {
+  if (env.TWILIO_SKIP_SIGNATURE_VALIDATION) {
+    return next();
+  }
+  if (!env.TWILIO_AUTH_TOKEN) {
+    return res.status(500).json({ error: "TWILIO_AUTH_TOKEN is not set" });
+  }
+
+  const signature = req.headers["x-twilio-signature"];
+  const url = resolveWebhookUrl(req);
+  if (
+    typeof signature !== "string" ||
+    !twilio.validateRequest(env.TWILIO_AUTH_TOKEN, signature, url, req.body ?? {})
+  ) {
+    logger.warn("⚠️ Twilio signature rejected", { path: req.path, url });
+    return res.status(403).json({ error: "Invalid Twilio signature" });
+  }
+  return next();
+}
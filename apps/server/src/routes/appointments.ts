@@ -0,0 +1,42 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAdminKey } from "../middleware/adminAuth.js";
+import { businessIdQuerySchema, resolveBusinessIdQuery } from "../middleware/businessScope.js";
+import {
+  findAppointmentsByPhone,
+  listAppointments,
+  parseStatusHistory,
+  type AppointmentRecord,
+} from "../services/booking/appointmentLedger.js";
+
+export const appointmentsRouter = Router();
+
+const appointmentQuerySchema = z.object({
+  from: z.iso.datetime({ offset: true }).optional(),
+  to: z.iso.datetime({ offset: true }).optional(),
+  phone: z.string().min(1).optional(),
+  businessId: businessIdQuerySchema,
+  includeCancelled: z.enum(["true", "false"]).optional(),
+});
+
+function toResponse(record: AppointmentRecord) {
+  return { ...record, status_history: parseStatusHistory(record.status_history) };
+}
+
+appointmentsRouter.get("/admin/appointments", requireAdminKey, (req, res) => {
+  const parsed = appointmentQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+
+  const query = {
+    businessId: resolveBusinessIdQuery(parsed.data.businessId),
+    from: parsed.data.from ? new Date(parsed.data.from).toISOString() : undefined,
+    to: parsed.data.to ? new Date(parsed.data.to).toISOString() : undefined,
+    includeCancelled: parsed.data.includeCancelled === "true",
+  };
+  const appointments = parsed.data.phone
+    ? findAppointmentsByPhone(parsed.data.phone, query)
+    : listAppointments(query);
+  return res.json({ appointments: appointments.map(toResponse) });
+});
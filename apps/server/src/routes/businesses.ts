@@ -0,0 +1,166 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAdminKey } from "../middleware/adminAuth.js";
+import {
+  createBusiness,
+  deactivateBusiness,
+  getBusinessById,
+  listBusinesses,
+  updateBusiness,
+  type BusinessRecord,
+  type BusinessUpdate,
+} from "../services/businesses.js";
+import { toPhoneKey } from "../services/booking/appointmentLedger.js";
+import { businessHoursSchema } from "../services/booking/businessHours.js";
+import { CALENDAR_SETTING_KEYS } from "../services/calendar/CalendarAdapter.js";
+import { transferRoutesSchema } from "../services/callTransfer.js";
+
+export const businessesRouter = Router();
+
+const businessSchema = z.object({
+  name: z.string().min(1),
+  phoneNumber: z.string().min(1),
+  prompt: z.string().nullable().optional(),
+  timezone: z.string().min(1).nullable().optional(),
+  calendarProvider: z.enum(["google", "sqlite", "caldav", "microsoft"]).nullable().optional(),
+  calendarConfig: z.partialRecord(z.enum(CALENDAR_SETTING_KEYS), z.string()).nullable().optional(),
+  businessHours: businessHoursSchema.nullable().optional(),
+  ownerPhones: z.array(z.string().min(1)).nullable().optional(),
+  ownerEmails: z.array(z.email()).nullable().optional(),
+  smsFromNumber: z.string().min(1).nullable().optional(),
+  postCallSms: z.boolean().nullable().optional(),
+  sendSummaryToCaller: z.boolean().nullable().optional(),
+  reminderOffsets: z.string().nullable().optional(),
+  forwardNumber: z.string().min(1).nullable().optional(),
+  ringTimeoutSeconds: z.number().int().positive().nullable().optional(),
+  ringThenAi: z.boolean().nullable().optional(),
+  transferRoutes: transferRoutesSchema.nullable().optional(),
+  // Signs the owner in to /dashboard with the business phone number as the username.
+  dashboardPassword: z.string().min(8).nullable().optional(),
+});
+
+const businessUpdateSchema = businessSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+type BusinessBody = z.infer<typeof businessUpdateSchema>;
+
+function parseBusinessId(raw: string) {
+  const businessId = Number(raw);
+  return Number.isInteger(businessId) && businessId > 0 ? businessId : null;
+}
+
+function toBusinessUpdate(body: BusinessBody): BusinessUpdate {
+  return {
+    name: body.name,
+    phone_number: body.phoneNumber,
+    prompt: body.prompt,
+    timezone: body.timezone,
+    calendar_provider: body.calendarProvider,
+    calendar_config: body.calendarConfig,
+    business_hours_json:
+      body.businessHours === undefined
+        ? undefined
+        : body.businessHours && JSON.stringify(body.businessHours),
+    owner_phones: body.ownerPhones,
+    owner_emails: body.ownerEmails,
+    sms_from_number: body.smsFromNumber,
+    post_call_sms: body.postCallSms,
+    send_summary_to_caller: body.sendSummaryToCaller,
+    reminder_offsets: body.reminderOffsets,
+    forward_number: body.forwardNumber,
+    ring_timeout_seconds: body.ringTimeoutSeconds,
+    ring_then_ai: body.ringThenAi,
+    transfer_routes_json:
+      body.transferRoutes === undefined
+        ? undefined
+        : body.transferRoutes && JSON.stringify(body.transferRoutes),
+    dashboard_password: body.dashboardPassword,
+    is_active: body.active,
+  };
+}
+
+// The password hash never leaves the server; say whether one is set instead.
+function toResponse(business: BusinessRecord) {
+  const { dashboard_password_hash: passwordHash, ...rest } = business;
+  return { ...rest, dashboard_password_set: Boolean(passwordHash) };
+}
+
+// Calls are routed by the dialed number, so two active businesses can't share one.
+function isPhoneNumberTaken(phoneNumber: string, exceptBusinessId?: number) {
+  const phoneKey = toPhoneKey(phoneNumber);
+  return listBusinesses().some(
+    (business) => business.phone_key === phoneKey && business.id !== exceptBusinessId
+  );
+}
+
+businessesRouter.get("/admin/businesses", requireAdminKey, (req, res) => {
+  const businesses = listBusinesses({ includeInactive: req.query.includeInactive === "true" });
+  return res.json({ businesses: businesses.map(toResponse) });
+});
+
+businessesRouter.get("/admin/businesses/:id", requireAdminKey, (req, res) => {
+  const businessId = parseBusinessId(req.params.id);
+  const business = businessId ? getBusinessById(businessId) : undefined;
+  if (!business) {
+    return res.status(404).json({ error: "Business not found" });
+  }
+  return res.json({ business: toResponse(business) });
+});
+
+businessesRouter.post("/admin/businesses", requireAdminKey, (req, res) => {
+  const parsed = businessSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+  if (!toPhoneKey(parsed.data.phoneNumber)) {
+    return res.status(400).json({ error: "Invalid phone number" });
+  }
+  if (isPhoneNumberTaken(parsed.data.phoneNumber)) {
+    return res.status(409).json({ error: "Phone number already belongs to a business" });
+  }
+
+  const { is_active: _isActive, ...input } = toBusinessUpdate(parsed.data);
+  const business = createBusiness({
+    ...input,
+    name: parsed.data.name,
+    phone_number: parsed.data.phoneNumber,
+  });
+  return res.status(201).json({ business: toResponse(business) });
+});
+
+businessesRouter.patch("/admin/businesses/:id", requireAdminKey, (req, res) => {
+  const businessId = parseBusinessId(req.params.id);
+  if (!businessId) {
+    return res.status(400).json({ error: "Invalid business id" });
+  }
+  const parsed = businessUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+  const existing = getBusinessById(businessId);
+  if (!existing) {
+    return res.status(404).json({ error: "Business not found" });
+  }
+  const phoneNumber = parsed.data.phoneNumber ?? existing.phone_number;
+  if (parsed.data.phoneNumber !== undefined && !toPhoneKey(phoneNumber)) {
+    return res.status(400).json({ error: "Invalid phone number" });
+  }
+  const willBeActive = parsed.data.active ?? existing.is_active === 1;
+  if (willBeActive && isPhoneNumberTaken(phoneNumber, businessId)) {
+    return res.status(409).json({ error: "Phone number already belongs to a business" });
+  }
+
+  const business = updateBusiness(businessId, toBusinessUpdate(parsed.data));
+  return res.json({ business: toResponse(business) });
+});
+
+businessesRouter.delete("/admin/businesses/:id", requireAdminKey, (req, res) => {
+  const businessId = parseBusinessId(req.params.id);
+  if (!businessId || !getBusinessById(businessId)) {
+    return res.status(404).json({ error: "Business not found" });
+  }
+
+  const business = deactivateBusiness(businessId);
+  return res.json({ ok: true, business: toResponse(business) });
+});
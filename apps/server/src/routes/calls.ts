@@ -0,0 +1,29 @@
+import { Router } from "express";
+import { requireAdminKey } from "../middleware/adminAuth.js";
+import { getCallBySid } from "../services/callHistory.js";
+import { listTranscriptEntries, type TranscriptEntry } from "../services/callTranscripts.js";
+
+export const callsRouter = Router();
+
+function parsePayload(payload: string | null): unknown {
+  if (payload === null) return null;
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return payload;
+  }
+}
+
+function toResponse(entry: TranscriptEntry) {
+  return { ...entry, payload: parsePayload(entry.payload) };
+}
+
+// Receptionist and coach calls alike; `call` is only set for receptionist calls.
+callsRouter.get("/admin/calls/:callSid/transcript", requireAdminKey, (req, res) => {
+  const entries = listTranscriptEntries(req.params.callSid);
+  const call = getCallBySid(req.params.callSid) ?? null;
+  if (!entries.length && !call) {
+    return res.status(404).json({ error: "Call not found" });
+  }
+  return res.json({ callSid: req.params.callSid, call, entries: entries.map(toResponse) });
+});
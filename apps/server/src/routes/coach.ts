@@ -1,7 +1,7 @@
 import { Router } from "express";
-import * as crypto from "node:crypto";
 import { z } from "zod";
 import { env } from "../config/env.js";
+import { requireAdminKey } from "../middleware/adminAuth.js";
 import {
   listUsers,
   setUserInactive,
@@ -15,6 +15,8 @@ import {
 import { runCoachCallsNow } from "../services/coachScheduler.js";
 import { placeCoachCall } from "../services/coachTwilio.js";
 import { buildCallInstructions } from "../services/instructionBuilder.js";
+import { logger } from "../utils/logger.js";
+import { hashPassword, verifyPassword } from "../utils/passwords.js";
 
 export const coachRouter = Router();
 
@@ -48,26 +50,6 @@ const preferenceSchema = z.object({
   callInstructions: z.string().nullable().optional(),
 });
 
-const HASH_ITERATIONS = 120_000;
-
-function hashPassword(password: string) {
-  const salt = crypto.randomBytes(16).toString("hex");
-  const hash = crypto
-    .pbkdf2Sync(password, salt, HASH_ITERATIONS, 32, "sha256")
-    .toString("hex");
-  return `pbkdf2_sha256$${HASH_ITERATIONS}$${salt}$${hash}`;
-}
-
-function verifyPassword(password: string, storedHash: string) {
-  const [algorithm, iterationsRaw, salt, expectedHash] = storedHash.split("$");
-  if (!algorithm || !iterationsRaw || !salt || !expectedHash) return false;
-  if (algorithm !== "pbkdf2_sha256") return false;
-  const iterations = Number(iterationsRaw);
-  if (!Number.isFinite(iterations)) return false;
-  const hash = crypto.pbkdf2Sync(password, salt, iterations, 32, "sha256").toString("hex");
-  return crypto.timingSafeEqual(Buffer.from(hash, "hex"), Buffer.from(expectedHash, "hex"));
-}
-
 function parseBasicAuth(req: any) {
   const header = req.headers?.authorization;
   if (typeof header !== "string") return null;
@@ -103,18 +85,6 @@ function requireCoachAuth(req: any, res: any) {
   return user;
 }
 
-function requireAdminKey(req: any, res: any, next: any) {
-  if (!env.COACH_ADMIN_KEY) {
-    return res.status(500).json({ error: "COACH_ADMIN_KEY is not set" });
-  }
-
-  const key = req.headers["x-coach-admin-key"] ?? req.query.adminKey;
-  if (typeof key !== "string" || key !== env.COACH_ADMIN_KEY) {
-    return res.status(401).json({ error: "Unauthorized" });
-  }
-  return next();
-}
-
 coachRouter.post("/coach/signup", (req, res) => {
   const parsed = signupSchema.safeParse(req.body);
   if (!parsed.success) {
@@ -199,7 +169,7 @@ coachRouter.post("/coach/call-now", async (req, res) => {
     updateLastCalled(user.id);
     return res.json({ ok: true, callSid: call.sid });
   } catch (error) {
-    console.error("Failed to place call now", error);
+    logger.error("Failed to place call now", error);
     return res.status(500).json({ error: "Failed to place call" });
   }
 });
@@ -319,7 +289,7 @@ coachRouter.post("/coach/instructions", async (req, res) => {
     const instructions = await buildCallInstructions(parsed.data.prompt);
     return res.json({ ok: true, instructions });
   } catch (error) {
-    console.error("Failed to build instructions", error);
+    logger.error("Failed to build instructions", error);
     return res.status(500).json({ error: "Failed to generate instructions" });
   }
 });
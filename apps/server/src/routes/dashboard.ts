@@ -0,0 +1,420 @@
+import { Router } from "express";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import { z } from "zod";
+import { requireAdminKey } from "../middleware/adminAuth.js";
+import { businessIdQuerySchema, resolveBusinessIdQuery } from "../middleware/businessScope.js";
+import { requireDashboardAuth } from "../middleware/dashboardAuth.js";
+import {
+  CALL_OUTCOMES,
+  listCalls,
+  summarizeCalls,
+  type CallOutcome,
+  type CallRecord,
+  type DailyCallStats,
+} from "../services/callHistory.js";
+import {
+  getBusinessProfile,
+  getDefaultBusinessProfile,
+  listBusinesses,
+} from "../services/businesses.js";
+import { listUtterances } from "../services/callTranscripts.js";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export const dashboardRouter = Router();
+
+const DEFAULT_RANGE_DAYS = 30;
+
+const OUTCOME_LABELS: Record<CallOutcome, string> = {
+  booked: "Booked",
+  booking_failed: "Booking not completed",
+  follow_up: "Follow-up needed",
+  transferred: "Transferred",
+  handled: "Handled",
+  owner_answered: "Answered by owner",
+  missed: "Missed",
+};
+
+const dashboardQuerySchema = z.object({
+  from: z.iso.date().optional(),
+  to: z.iso.date().optional(),
+  outcome: z.enum(CALL_OUTCOMES).optional(),
+  // Admin view only.
+  businessId: businessIdQuerySchema,
+});
+
+type DashboardQuery = z.infer<typeof dashboardQuerySchema>;
+
+/**
+ * Whose calls a request sees. Owners are pinned to the business they signed in as; the
+ * admin view picks any business, or every business when `businessId` is undefined.
+ */
+interface DashboardScope {
+  businessId: number | null | undefined;
+  admin: boolean;
+  // Kept in the filter form so the admin view keeps working from a browser.
+  adminKey?: string;
+}
+
+// Dates in the filter are whole days in the business timezone; `to` is inclusive.
+function resolveRange(query: DashboardQuery, timezoneName: string) {
+  const today = dayjs().tz(timezoneName).startOf("day");
+  const to = query.to ? dayjs.tz(query.to, timezoneName) : today;
+  const from = query.from
+    ? dayjs.tz(query.from, timezoneName)
+    : to.subtract(DEFAULT_RANGE_DAYS - 1, "day");
+  return {
+    fromDate: from.format("YYYY-MM-DD"),
+    toDate: to.format("YYYY-MM-DD"),
+    from: from.toISOString(),
+    to: to.add(1, "day").toISOString(),
+  };
+}
+
+function loadDashboard(query: DashboardQuery, scope: DashboardScope) {
+  // Every business at once has no single timezone; use the env business's.
+  const timezoneName =
+    scope.businessId === undefined
+      ? getDefaultBusinessProfile().timezone
+      : getBusinessProfile(scope.businessId).timezone;
+  const range = resolveRange(query, timezoneName);
+  // Rates cover every call in the range; the outcome filter only narrows the list.
+  const calls = listCalls({ businessId: scope.businessId, from: range.from, to: range.to });
+  const stats = summarizeCalls(calls, range, timezoneName);
+  const filtered = query.outcome ? calls.filter((call) => call.outcome === query.outcome) : calls;
+  return { timezoneName, range, stats, calls: filtered };
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatPercent(rate: number | null) {
+  return rate === null ? "—" : `${Math.round(rate * 100)}%`;
+}
+
+function formatDuration(seconds: number | null) {
+  if (seconds === null) return "—";
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function buildRateChart(
+  title: string,
+  daily: DailyCallStats[],
+  pick: (day: DailyCallStats) => number | null
+) {
+  const width = 640;
+  const height = 160;
+  const barWidth = width / Math.max(daily.length, 1);
+  const bars = daily
+    .map((day, index) => {
+      const rate = pick(day);
+      const barHeight = rate === null ? 0 : Math.max(2, Math.round(rate * (height - 20)));
+      const x = (index * barWidth + 1).toFixed(1);
+      return `<rect x="${x}" y="${height - barHeight}" width="${Math.max(barWidth - 2, 1).toFixed(1)}" height="${barHeight}" rx="2"><title>${day.date}: ${formatPercent(rate)} (${day.total} calls)</title></rect>`;
+    })
+    .join("");
+  return `<figure class="chart">
+        <figcaption>${escapeHtml(title)}</figcaption>
+        <svg viewBox="0 0 ${width} ${height}" preserveAspectRatio="none" role="img" aria-label="${escapeHtml(title)} by day">${bars}</svg>
+        <div class="axis"><span>${daily[0]?.date ?? ""}</span><span>${daily[daily.length - 1]?.date ?? ""}</span></div>
+      </figure>`;
+}
+
+function buildCallRow(call: CallRecord, timezoneName: string) {
+  const started = dayjs(call.started_at).tz(timezoneName).format("MMM D, h:mm A");
+  const caller = [call.caller_name, call.caller_phone].filter(Boolean).join(" · ") || "Unknown";
+  const appointment = call.appointment_start_iso
+    ? `${dayjs(call.appointment_start_iso).tz(timezoneName).format("MMM D, h:mm A")}`
+    : "";
+  const event = call.appointment_link
+    ? `<a href="${escapeHtml(call.appointment_link)}" target="_blank" rel="noopener">${escapeHtml(appointment || "Open event")}</a>`
+    : escapeHtml(appointment);
+  const transcript = listUtterances(call.call_sid);
+  const transcriptHtml = transcript.length
+    ? `<details><summary>${transcript.length} lines</summary><ol class="transcript">${transcript
+        .map(
+          (line) =>
+            `<li class="${line.speaker}"><strong>${line.speaker === "caller" ? "Caller" : "Receptionist"}:</strong> ${escapeHtml(line.text ?? "")}</li>`
+        )
+        .join("")}</ol></details>`
+    : "—";
+
+  return `<tr>
+          <td>${escapeHtml(started)}</td>
+          <td>${escapeHtml(caller)}</td>
+          <td>${formatDuration(call.duration_seconds)}</td>
+          <td>${escapeHtml(call.reason ?? "—")}${call.follow_up ? `<div class="muted">${escapeHtml(call.follow_up)}</div>` : ""}</td>
+          <td><span class="badge ${call.outcome}">${OUTCOME_LABELS[call.outcome]}</span></td>
+          <td>${event || "—"}</td>
+          <td>${transcriptHtml}</td>
+        </tr>`;
+}
+
+function buildDashboardHtml(query: DashboardQuery, scope: DashboardScope) {
+  const { timezoneName, range, stats, calls } = loadDashboard(query, scope);
+  const businesses = scope.admin ? listBusinesses({ includeInactive: true }) : [];
+  const selectedBusiness = query.businessId === undefined ? "" : String(query.businessId);
+  const adminKeyField = scope.adminKey
+    ? `<input type="hidden" name="adminKey" value="${escapeHtml(scope.adminKey)}" />`
+    : "";
+  const businessOptions = businesses.length
+    ? `<label>Business
+          <select name="businessId">
+            <option value="">All</option>
+            <option value="default"${selectedBusiness === "default" ? " selected" : ""}>${escapeHtml(getDefaultBusinessProfile().name ?? "Default")}</option>
+            ${businesses
+              .map(
+                (business) =>
+                  `<option value="${business.id}"${selectedBusiness === String(business.id) ? " selected" : ""}>${escapeHtml(business.name)}</option>`
+              )
+              .join("")}
+          </select>
+        </label>`
+    : "";
+  const outcomeOptions = CALL_OUTCOMES.map(
+    (outcome) =>
+      `<option value="${outcome}"${query.outcome === outcome ? " selected" : ""}>${OUTCOME_LABELS[outcome]}</option>`
+  ).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <meta name="robots" content="noindex" />
+    <title>Call dashboard</title>
+    <style>
+      :root {
+        color-scheme: light;
+        font-family: "Inter", "Segoe UI", system-ui, sans-serif;
+        --bg: #f8fafc;
+        --card: #ffffff;
+        --primary: #1d4ed8;
+        --text: #0f172a;
+        --muted: #475569;
+        --border: #e2e8f0;
+      }
+      body {
+        margin: 0;
+        background: var(--bg);
+        color: var(--text);
+      }
+      main {
+        max-width: 1200px;
+        margin: 0 auto;
+        padding: 24px 20px 60px;
+      }
+      form,
+      .stats,
+      .charts {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 16px;
+        margin-bottom: 20px;
+        align-items: flex-end;
+      }
+      label {
+        display: flex;
+        flex-direction: column;
+        font-size: 0.85rem;
+        color: var(--muted);
+        gap: 4px;
+      }
+      .stat,
+      .chart {
+        background: var(--card);
+        border: 1px solid var(--border);
+        border-radius: 12px;
+        padding: 14px 18px;
+        margin: 0;
+      }
+      .stat strong {
+        display: block;
+        font-size: 1.6rem;
+      }
+      .chart {
+        flex: 1 1 420px;
+      }
+      .chart svg {
+        width: 100%;
+        height: 160px;
+        fill: var(--primary);
+      }
+      .axis {
+        display: flex;
+        justify-content: space-between;
+        font-size: 0.75rem;
+        color: var(--muted);
+      }
+      table {
+        width: 100%;
+        border-collapse: collapse;
+        background: var(--card);
+        font-size: 0.9rem;
+      }
+      th,
+      td {
+        text-align: left;
+        vertical-align: top;
+        padding: 10px;
+        border-bottom: 1px solid var(--border);
+      }
+      .muted {
+        color: var(--muted);
+        font-size: 0.8rem;
+      }
+      .badge {
+        padding: 2px 8px;
+        border-radius: 999px;
+        background: var(--border);
+        white-space: nowrap;
+      }
+      .badge.booked {
+        background: #dcfce7;
+      }
+      .badge.missed,
+      .badge.booking_failed {
+        background: #fee2e2;
+      }
+      .badge.follow_up {
+        background: #fef9c3;
+      }
+      .transcript {
+        padding-left: 18px;
+        max-width: 420px;
+      }
+      .transcript .caller {
+        color: var(--muted);
+      }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>Calls</h1>
+      <form method="get">
+        <label>From <input type="date" name="from" value="${range.fromDate}" /></label>
+        <label>To <input type="date" name="to" value="${range.toDate}" /></label>
+        <label>Outcome
+          <select name="outcome">
+            <option value="">All</option>
+            ${outcomeOptions}
+          </select>
+        </label>
+        ${businessOptions}
+        ${adminKeyField}
+        <button type="submit">Apply</button>
+      </form>
+      <section class="stats">
+        <div class="stat"><strong>${stats.totals.total}</strong>calls</div>
+        <div class="stat"><strong>${formatPercent(stats.totals.answerRate)}</strong>answer rate</div>
+        <div class="stat"><strong>${stats.totals.booked}</strong>booked</div>
+        <div class="stat"><strong>${formatPercent(stats.totals.bookingConversion)}</strong>booking conversion</div>
+      </section>
+      <section class="charts">
+        ${buildRateChart("Answer rate", stats.daily, (day) => day.answerRate)}
+        ${buildRateChart("Booking conversion", stats.daily, (day) => day.bookingConversion)}
+      </section>
+      <table>
+        <thead>
+          <tr>
+            <th>Time (${escapeHtml(timezoneName)})</th>
+            <th>Caller</th>
+            <th>Duration</th>
+            <th>Reason</th>
+            <th>Outcome</th>
+            <th>Appointment</th>
+            <th>Transcript</th>
+          </tr>
+        </thead>
+        <tbody>
+        ${calls.length ? calls.map((call) => buildCallRow(call, timezoneName)).join("") : '<tr><td colspan="7">No calls in this range.</td></tr>'}
+        </tbody>
+      </table>
+    </main>
+  </body>
+</html>`;
+}
+
+// Blank selects submit empty strings; treat them as "no filter".
+function withoutBlankParams(query: Record<string, unknown>) {
+  return Object.fromEntries(Object.entries(query).filter(([, value]) => value !== ""));
+}
+
+// The signed-in owner only ever sees their own business, whatever the query says.
+function ownerScope(res: any): DashboardScope {
+  return { businessId: res.locals.dashboardBusinessId, admin: false };
+}
+
+function adminScope(req: any, query: DashboardQuery): DashboardScope {
+  return {
+    businessId: resolveBusinessIdQuery(query.businessId),
+    admin: true,
+    adminKey: typeof req.query.adminKey === "string" ? req.query.adminKey : undefined,
+  };
+}
+
+function sendDashboardPage(
+  req: any,
+  res: any,
+  scopeFor: (query: DashboardQuery) => DashboardScope
+) {
+  const parsed = dashboardQuerySchema.safeParse(withoutBlankParams(req.query));
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+  return res
+    .status(200)
+    .type("html")
+    .send(buildDashboardHtml(parsed.data, scopeFor(parsed.data)));
+}
+
+function sendDashboardCalls(
+  req: any,
+  res: any,
+  scopeFor: (query: DashboardQuery) => DashboardScope
+) {
+  const parsed = dashboardQuerySchema.safeParse(withoutBlankParams(req.query));
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+  const { range, stats, calls } = loadDashboard(parsed.data, scopeFor(parsed.data));
+  return res.json({
+    from: range.fromDate,
+    to: range.toDate,
+    stats,
+    calls: calls.map((call) => ({
+      ...call,
+      transcript: listUtterances(call.call_sid).map((line) => ({
+        speaker: line.speaker,
+        text: line.text,
+        at: line.created_at,
+      })),
+    })),
+  });
+}
+
+dashboardRouter.get("/dashboard", requireDashboardAuth, (req, res) =>
+  sendDashboardPage(req, res, () => ownerScope(res))
+);
+
+dashboardRouter.get("/dashboard/calls", requireDashboardAuth, (req, res) =>
+  sendDashboardCalls(req, res, () => ownerScope(res))
+);
+
+// Every tenant's calls, with the business filter; for the operator, not owners.
+dashboardRouter.get("/admin/dashboard", requireAdminKey, (req, res) =>
+  sendDashboardPage(req, res, (query) => adminScope(req, query))
+);
+
+dashboardRouter.get("/admin/dashboard/calls", requireAdminKey, (req, res) =>
+  sendDashboardCalls(req, res, (query) => adminScope(req, query))
+);
@@ -0,0 +1,64 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAdminKey } from "../middleware/adminAuth.js";
+import { businessIdQuerySchema, resolveBusinessIdQuery } from "../middleware/businessScope.js";
+import {
+  MESSAGE_STATUSES,
+  getMessageById,
+  listMessages,
+  setMessageStatus,
+} from "../services/messages.js";
+
+export const messagesRouter = Router();
+
+const messageQuerySchema = z.object({
+  status: z.enum(MESSAGE_STATUSES).optional(),
+  businessId: businessIdQuerySchema,
+});
+
+const messageUpdateSchema = z.object({
+  status: z.enum(MESSAGE_STATUSES),
+});
+
+function parseMessageId(raw: string) {
+  const messageId = Number(raw);
+  return Number.isInteger(messageId) && messageId > 0 ? messageId : null;
+}
+
+messagesRouter.get("/admin/messages", requireAdminKey, (req, res) => {
+  const parsed = messageQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+  const messages = listMessages({
+    businessId: resolveBusinessIdQuery(parsed.data.businessId),
+    status: parsed.data.status,
+  });
+  return res.json({ messages });
+});
+
+messagesRouter.get("/admin/messages/:id", requireAdminKey, (req, res) => {
+  const messageId = parseMessageId(req.params.id);
+  const message = messageId ? getMessageById(messageId) : undefined;
+  if (!message) {
+    return res.status(404).json({ error: "Message not found" });
+  }
+  return res.json({ message });
+});
+
+// {"status":"read"} or {"status":"handled"}; "new" marks it unread again.
+messagesRouter.patch("/admin/messages/:id", requireAdminKey, (req, res) => {
+  const messageId = parseMessageId(req.params.id);
+  if (!messageId) {
+    return res.status(400).json({ error: "Invalid message id" });
+  }
+  const parsed = messageUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+  const message = setMessageStatus(messageId, parsed.data.status);
+  if (!message) {
+    return res.status(404).json({ error: "Message not found" });
+  }
+  return res.json({ message });
+});
@@ -0,0 +1,93 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAdminKey } from "../middleware/adminAuth.js";
+import { requireBusinessScope } from "../middleware/businessScope.js";
+import { WEEKDAYS } from "../services/booking/businessHours.js";
+import {
+  createService,
+  deactivateService,
+  getServiceById,
+  listServices,
+  updateService,
+} from "../services/booking/serviceCatalog.js";
+
+export const servicesRouter = Router();
+
+const serviceSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  durationMinutes: z.number().int().min(5).max(24 * 60),
+  bufferMinutes: z.number().int().min(0).max(240).optional(),
+  allowedDays: z.array(z.enum(WEEKDAYS)).nullable().optional(),
+  leadTimeMinutes: z.number().int().min(0).optional(),
+  maxPerDay: z.number().int().min(1).nullable().optional(),
+});
+
+const serviceUpdateSchema = serviceSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+function parseServiceId(raw: string) {
+  const serviceId = Number(raw);
+  return Number.isInteger(serviceId) && serviceId > 0 ? serviceId : null;
+}
+
+servicesRouter.get("/admin/services", requireAdminKey, requireBusinessScope, (req, res) => {
+  const services = listServices({ includeInactive: req.query.includeInactive === "true" });
+  return res.json({ services });
+});
+
+servicesRouter.post("/admin/services", requireAdminKey, requireBusinessScope, (req, res) => {
+  const parsed = serviceSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+
+  const service = createService({
+    name: parsed.data.name,
+    description: parsed.data.description,
+    duration_minutes: parsed.data.durationMinutes,
+    buffer_minutes: parsed.data.bufferMinutes,
+    allowed_days: parsed.data.allowedDays,
+    lead_time_minutes: parsed.data.leadTimeMinutes,
+    max_per_day: parsed.data.maxPerDay,
+  });
+  return res.status(201).json({ service });
+});
+
+servicesRouter.patch("/admin/services/:id", requireAdminKey, requireBusinessScope, (req, res) => {
+  const serviceId = parseServiceId(req.params.id);
+  if (!serviceId) {
+    return res.status(400).json({ error: "Invalid service id" });
+  }
+  const parsed = serviceUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+
+  const service = updateService(serviceId, {
+    name: parsed.data.name,
+    description: parsed.data.description,
+    duration_minutes: parsed.data.durationMinutes,
+    buffer_minutes: parsed.data.bufferMinutes,
+    allowed_days: parsed.data.allowedDays,
+    lead_time_minutes: parsed.data.leadTimeMinutes,
+    max_per_day: parsed.data.maxPerDay,
+    is_active: parsed.data.active,
+  });
+  if (!service) {
+    return res.status(404).json({ error: "Service not found" });
+  }
+  return res.json({ service });
+});
+
+servicesRouter.delete("/admin/services/:id", requireAdminKey, requireBusinessScope, (req, res) => {
+  const serviceId = parseServiceId(req.params.id);
+  if (!serviceId || !getServiceById(serviceId)) {
+    return res.status(404).json({ error: "Service not found" });
+  }
+
+  // Soft delete so past appointments still resolve their service.
+  const service = deactivateService(serviceId);
+  return res.json({ ok: true, service });
+});
@@ -0,0 +1,79 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAdminKey } from "../middleware/adminAuth.js";
+import { requireBusinessScope } from "../middleware/businessScope.js";
+import {
+  createStaff,
+  deactivateStaff,
+  getStaffById,
+  listStaff,
+  updateStaff,
+} from "../services/booking/staffDirectory.js";
+
+export const staffRouter = Router();
+
+const staffSchema = z.object({
+  name: z.string().min(1),
+  calendarId: z.string().min(1),
+  serviceIds: z.array(z.number().int().positive()).nullable().optional(),
+});
+
+const staffUpdateSchema = staffSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+function parseStaffId(raw: string) {
+  const staffId = Number(raw);
+  return Number.isInteger(staffId) && staffId > 0 ? staffId : null;
+}
+
+staffRouter.get("/admin/staff", requireAdminKey, requireBusinessScope, (req, res) => {
+  const staff = listStaff({ includeInactive: req.query.includeInactive === "true" });
+  return res.json({ staff });
+});
+
+staffRouter.post("/admin/staff", requireAdminKey, requireBusinessScope, (req, res) => {
+  const parsed = staffSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+
+  const member = createStaff({
+    name: parsed.data.name,
+    calendar_id: parsed.data.calendarId,
+    service_ids: parsed.data.serviceIds,
+  });
+  return res.status(201).json({ staff: member });
+});
+
+staffRouter.patch("/admin/staff/:id", requireAdminKey, requireBusinessScope, (req, res) => {
+  const staffId = parseStaffId(req.params.id);
+  if (!staffId) {
+    return res.status(400).json({ error: "Invalid staff id" });
+  }
+  const parsed = staffUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+
+  const member = updateStaff(staffId, {
+    name: parsed.data.name,
+    calendar_id: parsed.data.calendarId,
+    service_ids: parsed.data.serviceIds,
+    is_active: parsed.data.active,
+  });
+  if (!member) {
+    return res.status(404).json({ error: "Staff member not found" });
+  }
+  return res.json({ staff: member });
+});
+
+staffRouter.delete("/admin/staff/:id", requireAdminKey, requireBusinessScope, (req, res) => {
+  const staffId = parseStaffId(req.params.id);
+  if (!staffId || !getStaffById(staffId)) {
+    return res.status(404).json({ error: "Staff member not found" });
+  }
+
+  const member = deactivateStaff(staffId);
+  return res.json({ ok: true, staff: member });
+});
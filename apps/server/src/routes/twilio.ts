@@ -1,11 +1,48 @@
 import type { Request } from "express";
 import { Router } from "express";
-import { buildStreamUrl } from "../services/coachTwilio.js";
+import { buildPublicUrl, buildStreamUrl } from "../services/coachTwilio.js";
 import { env } from "../config/env.js";
+import { requireTwilioSignature } from "../middleware/twilioSignature.js";
+import { createStreamToken } from "../services/streamTokens.js";
 import { setUserInactiveById, updateCallLogBySid } from "../services/coachDb.js";
+import { handleReminderReply } from "../services/booking/reminderReplies.js";
+import { handleSmsMessage, hasActiveSmsConversation } from "../services/smsReceptionist.js";
+import { sendSms } from "../services/twilioSms.js";
+import { resolveBusinessProfile } from "../services/businesses.js";
+import { runWithBusiness } from "../services/businessContext.js";
+import { resolveTransferRoute } from "../services/callTransfer.js";
+import {
+  handleInboundCallStatus,
+  noteOwnerAnswered,
+  trackInboundCall,
+} from "../services/missedCalls.js";
+import { logger, runWithLogContext } from "../utils/logger.js";
 
 export const twilioRouter = Router();
 
+// Tag every log line from a webhook with the call or message it is about.
+twilioRouter.use("/twilio", (req, _res, next) => {
+  runWithLogContext(
+    {
+      callSid: (req.body?.ParentCallSid ?? req.body?.CallSid) as string | undefined,
+      messageSid: req.body?.MessageSid as string | undefined,
+    },
+    next
+  );
+});
+
+const TWILIO_SMS_KEYWORDS = new Set([
+  "stop",
+  "stopall",
+  "unsubscribe",
+  "end",
+  "quit",
+  "start",
+  "unstop",
+  "help",
+  "info",
+]);
+
 function resolveStreamUrl(req: Request, pathname: string): string {
   try {
     return buildStreamUrl(pathname);
@@ -18,6 +55,16 @@ function resolveStreamUrl(req: Request, pathname: string): string {
   }
 }
 
+function resolvePublicUrl(req: Request, pathname: string): string {
+  try {
+    return buildPublicUrl(pathname);
+  } catch {
+    const forwardedProto = req.get("x-forwarded-proto");
+    const protocol = forwardedProto?.split(",")[0]?.trim() || req.protocol;
+    return `${protocol}://${req.get("host")}${pathname}`;
+  }
+}
+
 function resolveStreamUrlWithParams(
   req: Request,
   pathname: string,
@@ -36,14 +83,6 @@ function normalizePhoneNumber(phoneNumber: string | undefined): string {
   return phoneNumber?.replace(/\D/g, "") ?? "";
 }
 
-function maskPhoneNumber(phoneNumber: string | undefined): string {
-  if (!phoneNumber) return "missing";
-  if (process.env.NODE_ENV !== "production") return phoneNumber;
-  const digits = phoneNumber.replace(/\D/g, "");
-  if (!digits) return "unknown";
-  return `***${digits.slice(-4)}`;
-}
-
 function buildStreamParameters({
   mode,
   userId,
@@ -126,6 +165,7 @@ function buildRingThenAiResponse({
   mode,
   greeting,
   ownerNumber,
+  ownerStatusUrl,
   timeoutSeconds,
   fromNumber,
   toNumber,
@@ -136,6 +176,7 @@ function buildRingThenAiResponse({
   mode: string;
   greeting: string;
   ownerNumber: string;
+  ownerStatusUrl: string;
   timeoutSeconds: number;
   fromNumber?: string;
   toNumber?: string;
@@ -153,7 +194,7 @@ function buildRingThenAiResponse({
   return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
   <Dial timeout="${timeoutSeconds}" answerOnBridge="false">
-    <Number>${escapeXml(ownerNumber)}</Number>
+    <Number statusCallbackEvent="answered" statusCallback="${escapeXml(ownerStatusUrl)}">${escapeXml(ownerNumber)}</Number>
   </Dial>
   <Say voice="alice">${escapeXml(greeting)}</Say>
   <Connect>
@@ -164,6 +205,46 @@ function buildRingThenAiResponse({
 </Response>`;
 }
 
+function buildTransferResponse({
+  number,
+  timeoutSeconds,
+  actionUrl,
+}: {
+  number: string;
+  timeoutSeconds: number;
+  actionUrl: string;
+}) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Say voice="alice">Please hold while I connect you.</Say>
+  <Dial timeout="${timeoutSeconds}" action="${escapeXml(actionUrl)}">
+    <Number>${escapeXml(number)}</Number>
+  </Dial>
+</Response>`;
+}
+
+function buildVoicemailResponse(recordingActionUrl: string) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Say voice="alice">Sorry, nobody is available right now. Please leave a message after the tone.</Say>
+  <Record maxLength="120" playBeep="true" action="${escapeXml(recordingActionUrl)}" />
+  <Say voice="alice">We didn't catch a message. Goodbye.</Say>
+  <Hangup />
+</Response>`;
+}
+
+function buildMessageResponse(message: string) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Message>${escapeXml(message)}</Message>
+</Response>`;
+}
+
+function buildEmptyResponse() {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response />`;
+}
+
 function buildUnavailableResponse(message: string) {
   return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
@@ -172,7 +253,7 @@ function buildUnavailableResponse(message: string) {
 </Response>`;
 }
 
-twilioRouter.post("/twilio/voice", (req, res) => {
+twilioRouter.post("/twilio/voice", requireTwilioSignature, (req, res) => {
   if (!env.OPENAI_API_KEY) {
     res
       .type("text/xml")
@@ -188,22 +269,31 @@ twilioRouter.post("/twilio/voice", (req, res) => {
   const callSid = req.body?.CallSid as string | undefined;
   const fromNumber = req.body?.From as string | undefined;
   const toNumber = req.body?.To as string | undefined;
-  const ownerForwardNumber = env.OWNER_FORWARD_NUMBER;
-  const ringTimeoutSeconds = env.RING_TIMEOUT_SECONDS;
-  const ringThenAiEnabled = env.ENABLE_RING_THEN_AI;
+  const business = resolveBusinessProfile(toNumber);
+  if (!business) {
+    logger.warn("Call to a deactivated business number", { callSid, to: toNumber });
+    res
+      .type("text/xml")
+      .send(buildUnavailableResponse("This number is not in service right now. Goodbye."));
+    return;
+  }
+  const ownerForwardNumber = business.forwardNumber ?? undefined;
+  const ringTimeoutSeconds = business.ringTimeoutSeconds;
+  const ringThenAiEnabled = business.ringThenAi;
   const isLoop =
     normalizePhoneNumber(ownerForwardNumber) &&
     normalizePhoneNumber(ownerForwardNumber) === normalizePhoneNumber(toNumber);
 
-  console.log("Incoming Twilio voice call", {
+  logger.info("Incoming Twilio voice call", {
     callSid,
     from: fromNumber,
     to: toNumber,
+    businessId: business.id,
   });
-  console.log("Ring-then-AI config", {
+  logger.info("Ring-then-AI config", {
     enabled: ringThenAiEnabled,
     ringTimeoutSeconds,
-    ownerForwardNumber: maskPhoneNumber(ownerForwardNumber),
+    ownerForwardNumber,
     loopDetected: isLoop,
   });
 
@@ -212,14 +302,19 @@ twilioRouter.post("/twilio/voice", (req, res) => {
     from: fromNumber,
     to: toNumber,
     businessId: toNumber,
+    token: createStreamToken(callSid) ?? undefined,
   });
 
+  if (callSid) {
+    trackInboundCall({ callSid, from: fromNumber, to: toNumber, businessId: business.id });
+  }
+
   const shouldRingOwner = Boolean(
     ringThenAiEnabled && ownerForwardNumber && !isLoop
   );
 
   if (shouldRingOwner) {
-    console.log("Returning ring-then-AI TwiML", {
+    logger.info("Returning ring-then-AI TwiML", {
       callSid,
       timeoutSeconds: ringTimeoutSeconds,
     });
@@ -228,6 +323,7 @@ twilioRouter.post("/twilio/voice", (req, res) => {
       mode: "receptionist",
       greeting: "One moment.",
       ownerNumber: ownerForwardNumber,
+      ownerStatusUrl: resolvePublicUrl(req, "/twilio/voice/dial-status"),
       timeoutSeconds: ringTimeoutSeconds,
       fromNumber,
       toNumber,
@@ -251,7 +347,164 @@ twilioRouter.post("/twilio/voice", (req, res) => {
   res.type("text/xml").send(twiml);
 });
 
-twilioRouter.post("/twilio/coach/voice", (req, res) => {
+// Set as the number's call status callback; texts back callers who hang up before anyone answers.
+twilioRouter.post("/twilio/voice/status", requireTwilioSignature, async (req, res) => {
+  const callSid = req.body?.CallSid as string | undefined;
+  const callStatus = req.body?.CallStatus as string | undefined;
+
+  if (callSid && callStatus) {
+    await handleInboundCallStatus({ callSid, callStatus }).catch((error) =>
+      logger.error("Missed-call handling error", error)
+    );
+  }
+
+  res.json({ ok: true });
+});
+
+twilioRouter.post("/twilio/voice/dial-status", requireTwilioSignature, (req, res) => {
+  const parentCallSid = req.body?.ParentCallSid as string | undefined;
+  const callStatus = req.body?.CallStatus as string | undefined;
+
+  if (parentCallSid && callStatus === "in-progress") {
+    noteOwnerAnswered(parentCallSid);
+  }
+
+  res.json({ ok: true });
+});
+
+function withRouteParam(url: string, route: string) {
+  return `${url}?route=${encodeURIComponent(route)}`;
+}
+
+// The transfer_call tool redirects the live call here (see services/callTransfer).
+twilioRouter.post("/twilio/transfer", requireTwilioSignature, (req, res) => {
+  const business = resolveBusinessProfile(req.body?.To as string | undefined);
+  if (!business) {
+    res
+      .type("text/xml")
+      .send(buildUnavailableResponse("This number is not in service right now. Goodbye."));
+    return;
+  }
+  const routeName = typeof req.query.route === "string" ? req.query.route : undefined;
+  const route = resolveTransferRoute(routeName, business);
+  const voicemailUrl = resolvePublicUrl(req, "/twilio/transfer/voicemail");
+
+  if (!route) {
+    logger.warn("⚠️ transfer route missing; sending caller to voicemail", { route: routeName });
+    res
+      .type("text/xml")
+      .send(buildVoicemailResponse(withRouteParam(voicemailUrl, routeName ?? "owner")));
+    return;
+  }
+
+  res.type("text/xml").send(
+    buildTransferResponse({
+      number: route.number,
+      timeoutSeconds: business.ringTimeoutSeconds,
+      actionUrl: withRouteParam(resolvePublicUrl(req, "/twilio/transfer/status"), route.name),
+    })
+  );
+});
+
+// <Dial> action: anything but an answered, completed call falls through to voicemail.
+twilioRouter.post("/twilio/transfer/status", requireTwilioSignature, (req, res) => {
+  const dialStatus = req.body?.DialCallStatus as string | undefined;
+  const routeName = typeof req.query.route === "string" ? req.query.route : "owner";
+  logger.info("☎️ transfer dial finished", { route: routeName, dialStatus });
+
+  if (dialStatus === "completed" || dialStatus === "answered") {
+    res.type("text/xml").send(`<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Hangup />
+</Response>`);
+    return;
+  }
+
+  const voicemailUrl = resolvePublicUrl(req, "/twilio/transfer/voicemail");
+  res.type("text/xml").send(buildVoicemailResponse(withRouteParam(voicemailUrl, routeName)));
+});
+
+// <Record> action: the owner gets a text with the recording.
+twilioRouter.post("/twilio/transfer/voicemail", requireTwilioSignature, async (req, res) => {
+  const fromNumber = (req.body?.From as string | undefined) ?? "Unknown number";
+  const recordingUrl = req.body?.RecordingUrl as string | undefined;
+  const durationSeconds = Number(req.body?.RecordingDuration ?? 0);
+  const routeName = typeof req.query.route === "string" ? req.query.route : "owner";
+  const business = resolveBusinessProfile(req.body?.To as string | undefined);
+
+  res.type("text/xml").send(
+    buildUnavailableResponse("Thanks, we got your message and will call you back. Goodbye.")
+  );
+
+  if (!recordingUrl || !business) return;
+  logger.info("☎️ voicemail recorded", { route: routeName, durationSeconds });
+  const body = [
+    business.name ? `Voicemail: ${business.name}` : "Voicemail",
+    `From: ${fromNumber}`,
+    `For: ${routeName}`,
+    `Length: ${durationSeconds}s`,
+    recordingUrl,
+  ].join("\n");
+  await runWithBusiness(business, async () => {
+    for (const ownerPhone of business.ownerPhones) {
+      try {
+        await sendSms(ownerPhone, body);
+      } catch (error) {
+        logger.error("Voicemail alert failed (owner)", error);
+      }
+    }
+  });
+});
+
+twilioRouter.post("/twilio/sms", requireTwilioSignature, async (req, res) => {
+  const fromNumber = req.body?.From as string | undefined;
+  const body = ((req.body?.Body as string | undefined) ?? "").trim();
+  const business = resolveBusinessProfile(req.body?.To as string | undefined);
+
+  logger.info("Incoming Twilio SMS", {
+    from: fromNumber,
+    businessId: business?.id ?? null,
+  });
+
+  // Twilio answers opt-out and help keywords itself.
+  if (!fromNumber || !body || TWILIO_SMS_KEYWORDS.has(body.toLowerCase())) {
+    res.type("text/xml").send(buildEmptyResponse());
+    return;
+  }
+
+  if (!business) {
+    logger.warn("Text to a deactivated business number", { from: fromNumber });
+    res
+      .type("text/xml")
+      .send(buildMessageResponse("This number is not in service right now."));
+    return;
+  }
+
+  // "C", "yes" or "2" mid-conversation answers the receptionist, not an old reminder.
+  const reminderReply = hasActiveSmsConversation(fromNumber, business.id)
+    ? null
+    : await runWithBusiness(business, () => handleReminderReply(fromNumber, body));
+  if (reminderReply) {
+    res.type("text/xml").send(buildMessageResponse(reminderReply));
+    return;
+  }
+
+  if (!env.OPENAI_API_KEY) {
+    res
+      .type("text/xml")
+      .send(buildMessageResponse("Thanks for your text. Please call us and we'll help you out."));
+    return;
+  }
+
+  // Tool calls can outlast Twilio's webhook timeout, so the reply goes out as its own text.
+  res.type("text/xml").send(buildEmptyResponse());
+  runWithBusiness(business, () =>
+    handleSmsMessage(fromNumber, body).then((reply) => sendSms(fromNumber, reply))
+  )
+    .catch((error) => logger.error("SMS receptionist reply failed", error));
+});
+
+twilioRouter.post("/twilio/coach/voice", requireTwilioSignature, (req, res) => {
   if (!env.OPENAI_API_KEY) {
     res
       .type("text/xml")
@@ -264,7 +517,11 @@ twilioRouter.post("/twilio/coach/voice", (req, res) => {
     return;
   }
 
-  const streamUrl = resolveStreamUrl(req, "/twilio/stream/coach");
+  const callSid = req.body?.CallSid as string | undefined;
+  const streamUrl = resolveStreamUrlWithParams(req, "/twilio/stream/coach", {
+    callSid,
+    token: createStreamToken(callSid) ?? undefined,
+  });
   const userId = typeof req.query.userId === "string" ? req.query.userId : undefined;
 
   const twiml = buildVoiceResponse({
@@ -273,13 +530,13 @@ twilioRouter.post("/twilio/coach/voice", (req, res) => {
     userId,
     greeting: "Conectando con tu coach de español.",
     toNumber: req.body?.To as string | undefined,
-    callSid: req.body?.CallSid as string | undefined,
+    callSid,
   });
 
   res.type("text/xml").send(twiml);
 });
 
-twilioRouter.post("/twilio/coach/status", (req, res) => {
+twilioRouter.post("/twilio/coach/status", requireTwilioSignature, (req, res) => {
   const callSid = req.body?.CallSid as string | undefined;
   const callStatus = req.body?.CallStatus as string | undefined;
   const userId = req.query.userId ? Number(req.query.userId) : undefined;
@@ -0,0 +1,381 @@
+import { getDatabase, type DatabaseHandle } from "../database.js";
+import { logger } from "../../utils/logger.js";
+
+export type AppointmentStatus =
+  | "booked"
+  | "confirmed"
+  | "reschedule_requested"
+  | "rescheduled"
+  | "cancelled";
+
+export interface AppointmentStatusChange {
+  status: AppointmentStatus;
+  at: string;
+  startISO: string;
+  endISO: string;
+  callSid: string | null;
+}
+
+export interface AppointmentRecord {
+  id: number;
+  // Registered business the booking was made for; null for the env-configured business.
+  business_id: number | null;
+  event_id: string;
+  staff_id: number | null;
+  service_id: number | null;
+  caller_phone: string | null;
+  // Last ten digits of caller_phone, so "+1 (602) 555-0100" and "6025550100" match.
+  phone_key: string | null;
+  caller_name: string;
+  reason: string;
+  call_sid: string | null;
+  start_iso: string;
+  end_iso: string;
+  timezone: string;
+  status: AppointmentStatus;
+  // JSON array of AppointmentStatusChange, oldest first.
+  status_history: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AppointmentRecordInput {
+  business_id?: number | null;
+  event_id: string;
+  staff_id?: number | null;
+  service_id?: number | null;
+  caller_phone?: string | null;
+  caller_name: string;
+  reason: string;
+  call_sid?: string | null;
+  start_iso: string;
+  end_iso: string;
+  timezone: string;
+}
+
+export interface AppointmentStatusUpdate {
+  status: AppointmentStatus;
+  start_iso?: string;
+  end_iso?: string;
+  call_sid?: string | null;
+}
+
+export interface AppointmentQuery {
+  // Omit for every business; null means the env-configured business.
+  businessId?: number | null;
+  from?: string;
+  to?: string;
+  includeCancelled?: boolean;
+}
+
+type AppointmentStore = {
+  recordAppointment: (input: AppointmentRecordInput) => AppointmentRecord;
+  updateStatus: (
+    eventId: string,
+    staffId: number | null,
+    update: AppointmentStatusUpdate
+  ) => AppointmentRecord | undefined;
+  getByEventId: (eventId: string, staffId: number | null) => AppointmentRecord | undefined;
+  listAppointments: (query: AppointmentQuery & { phoneKey?: string }) => AppointmentRecord[];
+};
+
+let store: AppointmentStore | null = null;
+
+function getStore(): AppointmentStore {
+  if (!store) {
+    store = initializeStore();
+  }
+  return store;
+}
+
+let appointmentDbInitialized = false;
+
+function getDb(): DatabaseHandle {
+  const database = getDatabase();
+  if (!appointmentDbInitialized) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS appointments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        business_id INTEGER,
+        event_id TEXT NOT NULL,
+        staff_id INTEGER,
+        service_id INTEGER,
+        caller_phone TEXT,
+        phone_key TEXT,
+        caller_name TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        call_sid TEXT,
+        start_iso TEXT NOT NULL,
+        end_iso TEXT NOT NULL,
+        timezone TEXT NOT NULL,
+        status TEXT NOT NULL,
+        status_history TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_appointments_phone_key ON appointments (phone_key, start_iso);
+      CREATE INDEX IF NOT EXISTS idx_appointments_event_id ON appointments (event_id);
+    `);
+    const columns = database.prepare("PRAGMA table_info(appointments)").all() as {
+      name: string;
+    }[];
+    if (!columns.some((column) => column.name === "business_id")) {
+      database.exec("ALTER TABLE appointments ADD COLUMN business_id INTEGER;");
+    }
+    appointmentDbInitialized = true;
+  }
+  return database;
+}
+
+function initializeStore(): AppointmentStore {
+  try {
+    return createSqlStore(getDb());
+  } catch (error) {
+    logger.warn(
+      "SQLite driver not available; falling back to an in-memory appointment ledger. Data will not persist across restarts.",
+      error
+    );
+    return createMemoryStore();
+  }
+}
+
+export function toPhoneKey(phone: string | null | undefined) {
+  const digits = (phone ?? "").replace(/\D/g, "");
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+function appendHistory(
+  history: string,
+  record: Pick<AppointmentRecord, "start_iso" | "end_iso">,
+  update: AppointmentStatusUpdate,
+  at: string
+) {
+  const changes = parseStatusHistory(history);
+  changes.push({
+    status: update.status,
+    at,
+    startISO: update.start_iso ?? record.start_iso,
+    endISO: update.end_iso ?? record.end_iso,
+    callSid: update.call_sid ?? null,
+  });
+  return JSON.stringify(changes);
+}
+
+function initialHistory(input: AppointmentRecordInput, at: string) {
+  return appendHistory(
+    "[]",
+    input,
+    { status: "booked", call_sid: input.call_sid ?? null },
+    at
+  );
+}
+
+function createSqlStore(database: DatabaseHandle): AppointmentStore {
+  const getById = (id: number) =>
+    database.prepare("SELECT * FROM appointments WHERE id = ?").get(id) as
+      | AppointmentRecord
+      | undefined;
+  // Event ids are only unique per calendar, so the staff id narrows the lookup when known.
+  const getByEventId = (eventId: string, staffId: number | null) =>
+    (staffId
+      ? database
+          .prepare(
+            "SELECT * FROM appointments WHERE event_id = ? AND staff_id = ? ORDER BY id DESC LIMIT 1"
+          )
+          .get(eventId, staffId)
+      : database
+          .prepare("SELECT * FROM appointments WHERE event_id = ? ORDER BY id DESC LIMIT 1")
+          .get(eventId)) as AppointmentRecord | undefined;
+
+  return {
+    recordAppointment(input) {
+      const now = new Date().toISOString();
+      database
+        .prepare(
+          `INSERT INTO appointments
+           (business_id, event_id, staff_id, service_id, caller_phone, phone_key, caller_name,
+            reason, call_sid, start_iso, end_iso, timezone, status, status_history, created_at,
+            updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'booked', ?, ?, ?)`
+        )
+        .run(
+          input.business_id ?? null,
+          input.event_id,
+          input.staff_id ?? null,
+          input.service_id ?? null,
+          input.caller_phone ?? null,
+          toPhoneKey(input.caller_phone),
+          input.caller_name,
+          input.reason,
+          input.call_sid ?? null,
+          input.start_iso,
+          input.end_iso,
+          input.timezone,
+          initialHistory(input, now),
+          now,
+          now
+        );
+      const row = database.prepare("SELECT last_insert_rowid() as id").get() as { id: number };
+      return getById(row.id) as AppointmentRecord;
+    },
+    updateStatus(eventId, staffId, update) {
+      const existing = getByEventId(eventId, staffId);
+      if (!existing) return;
+      const now = new Date().toISOString();
+      database
+        .prepare(
+          `UPDATE appointments
+           SET status = ?, start_iso = ?, end_iso = ?, status_history = ?, updated_at = ?
+           WHERE id = ?`
+        )
+        .run(
+          update.status,
+          update.start_iso ?? existing.start_iso,
+          update.end_iso ?? existing.end_iso,
+          appendHistory(existing.status_history, existing, update, now),
+          now,
+          existing.id
+        );
+      return getById(existing.id);
+    },
+    getByEventId(eventId, staffId) {
+      return getByEventId(eventId, staffId);
+    },
+    listAppointments(query) {
+      const clauses: string[] = [];
+      const params: unknown[] = [];
+      if (query.businessId === null) {
+        clauses.push("business_id IS NULL");
+      } else if (query.businessId !== undefined) {
+        clauses.push("business_id = ?");
+        params.push(query.businessId);
+      }
+      if (query.phoneKey) {
+        clauses.push("phone_key = ?");
+        params.push(query.phoneKey);
+      }
+      if (query.from) {
+        clauses.push("end_iso > ?");
+        params.push(query.from);
+      }
+      if (query.to) {
+        clauses.push("start_iso < ?");
+        params.push(query.to);
+      }
+      if (!query.includeCancelled) {
+        clauses.push("status != 'cancelled'");
+      }
+      const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+      return database
+        .prepare(`SELECT * FROM appointments ${where} ORDER BY start_iso ASC`)
+        .all(...params) as AppointmentRecord[];
+    },
+  };
+}
+
+function createMemoryStore(): AppointmentStore {
+  let nextAppointmentId = 1;
+  const appointments = new Map<number, AppointmentRecord>();
+  const getByEventId = (eventId: string, staffId: number | null) =>
+    Array.from(appointments.values())
+      .reverse()
+      .find((item) => item.event_id === eventId && (!staffId || item.staff_id === staffId));
+
+  return {
+    recordAppointment(input) {
+      const now = new Date().toISOString();
+      const record: AppointmentRecord = {
+        id: nextAppointmentId++,
+        business_id: input.business_id ?? null,
+        event_id: input.event_id,
+        staff_id: input.staff_id ?? null,
+        service_id: input.service_id ?? null,
+        caller_phone: input.caller_phone ?? null,
+        phone_key: toPhoneKey(input.caller_phone),
+        caller_name: input.caller_name,
+        reason: input.reason,
+        call_sid: input.call_sid ?? null,
+        start_iso: input.start_iso,
+        end_iso: input.end_iso,
+        timezone: input.timezone,
+        status: "booked",
+        status_history: initialHistory(input, now),
+        created_at: now,
+        updated_at: now,
+      };
+      appointments.set(record.id, record);
+      return record;
+    },
+    updateStatus(eventId, staffId, update) {
+      const existing = getByEventId(eventId, staffId);
+      if (!existing) return;
+      const now = new Date().toISOString();
+      const updated: AppointmentRecord = {
+        ...existing,
+        status: update.status,
+        start_iso: update.start_iso ?? existing.start_iso,
+        end_iso: update.end_iso ?? existing.end_iso,
+        status_history: appendHistory(existing.status_history, existing, update, now),
+        updated_at: now,
+      };
+      appointments.set(existing.id, updated);
+      return updated;
+    },
+    getByEventId(eventId, staffId) {
+      return getByEventId(eventId, staffId);
+    },
+    listAppointments(query) {
+      return Array.from(appointments.values())
+        .filter(
+          (item) => query.businessId === undefined || item.business_id === query.businessId
+        )
+        .filter((item) => !query.phoneKey || item.phone_key === query.phoneKey)
+        .filter((item) => !query.from || item.end_iso > query.from)
+        .filter((item) => !query.to || item.start_iso < query.to)
+        .filter((item) => query.includeCancelled || item.status !== "cancelled")
+        .sort((a, b) => a.start_iso.localeCompare(b.start_iso));
+    },
+  };
+}
+
+export function parseStatusHistory(history: string): AppointmentStatusChange[] {
+  try {
+    const parsed = JSON.parse(history) as AppointmentStatusChange[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function recordAppointment(input: AppointmentRecordInput): AppointmentRecord {
+  return getStore().recordAppointment(input);
+}
+
+export function updateAppointmentStatus(
+  eventId: string,
+  staffId: number | null | undefined,
+  update: AppointmentStatusUpdate
+): AppointmentRecord | undefined {
+  return getStore().updateStatus(eventId, staffId ?? null, update);
+}
+
+export function getAppointmentByEventId(
+  eventId: string,
+  staffId?: number | null
+): AppointmentRecord | undefined {
+  return getStore().getByEventId(eventId, staffId ?? null);
+}
+
+/** Ledger entries overlapping [from, to), earliest first; cancelled ones only when asked for. */
+export function listAppointments(query: AppointmentQuery = {}): AppointmentRecord[] {
+  return getStore().listAppointments(query);
+}
+
+export function findAppointmentsByPhone(
+  phone: string,
+  query: AppointmentQuery = {}
+): AppointmentRecord[] {
+  const phoneKey = toPhoneKey(phone);
+  if (!phoneKey) return [];
+  return getStore().listAppointments({ ...query, phoneKey });
+}
@@ -0,0 +1,349 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import { env } from "../../config/env.js";
+import { getDatabase, type DatabaseHandle } from "../database.js";
+import { sendSms } from "../twilioSms.js";
+import {
+  getDefaultBusinessProfile,
+  listBusinesses,
+  toBusinessProfile,
+  type BusinessProfile,
+} from "../businesses.js";
+import { runWithBusiness } from "../businessContext.js";
+import { listAppointments, type AppointmentRecord } from "./appointmentLedger.js";
+import { logger } from "../../utils/logger.js";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export type ReminderStatus = "sent" | "failed" | "skipped";
+
+export interface AppointmentReminder {
+  id: number;
+  appointment_id: number;
+  offset_minutes: number;
+  // Appointment start this reminder was for; a reschedule re-arms every offset.
+  start_iso: string;
+  status: ReminderStatus;
+  message_sid: string | null;
+  // JSON array of { startISO, endISO } offered after an "R" reply.
+  offered_slots: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AppointmentReminderInput {
+  appointment_id: number;
+  offset_minutes: number;
+  start_iso: string;
+  status: ReminderStatus;
+  message_sid?: string | null;
+}
+
+export interface OfferedSlot {
+  startISO: string;
+  endISO: string;
+}
+
+type ReminderStore = {
+  createReminder: (input: AppointmentReminderInput) => AppointmentReminder;
+  listReminders: (appointmentId: number) => AppointmentReminder[];
+  setOfferedSlots: (reminderId: number, offeredSlots: string | null) => void;
+};
+
+let store: ReminderStore | null = null;
+
+function getStore(): ReminderStore {
+  if (!store) {
+    store = initializeStore();
+  }
+  return store;
+}
+
+let reminderDbInitialized = false;
+
+function getDb(): DatabaseHandle {
+  const database = getDatabase();
+  if (!reminderDbInitialized) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS appointment_reminders (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        appointment_id INTEGER NOT NULL,
+        offset_minutes INTEGER NOT NULL,
+        start_iso TEXT NOT NULL,
+        status TEXT NOT NULL,
+        message_sid TEXT,
+        offered_slots TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_appointment_reminders_appointment
+        ON appointment_reminders (appointment_id);
+    `);
+    reminderDbInitialized = true;
+  }
+  return database;
+}
+
+function initializeStore(): ReminderStore {
+  try {
+    return createSqlStore(getDb());
+  } catch (error) {
+    logger.warn(
+      "SQLite driver not available; falling back to in-memory reminder tracking. Data will not persist across restarts.",
+      error
+    );
+    return createMemoryStore();
+  }
+}
+
+function createSqlStore(database: DatabaseHandle): ReminderStore {
+  return {
+    createReminder(input) {
+      const now = new Date().toISOString();
+      database
+        .prepare(
+          `INSERT INTO appointment_reminders
+           (appointment_id, offset_minutes, start_iso, status, message_sid, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          input.appointment_id,
+          input.offset_minutes,
+          input.start_iso,
+          input.status,
+          input.message_sid ?? null,
+          now,
+          now
+        );
+      const row = database.prepare("SELECT last_insert_rowid() as id").get() as { id: number };
+      return database
+        .prepare("SELECT * FROM appointment_reminders WHERE id = ?")
+        .get(row.id) as AppointmentReminder;
+    },
+    listReminders(appointmentId) {
+      return database
+        .prepare("SELECT * FROM appointment_reminders WHERE appointment_id = ? ORDER BY id ASC")
+        .all(appointmentId) as AppointmentReminder[];
+    },
+    setOfferedSlots(reminderId, offeredSlots) {
+      database
+        .prepare("UPDATE appointment_reminders SET offered_slots = ?, updated_at = ? WHERE id = ?")
+        .run(offeredSlots, new Date().toISOString(), reminderId);
+    },
+  };
+}
+
+function createMemoryStore(): ReminderStore {
+  let nextReminderId = 1;
+  const reminders = new Map<number, AppointmentReminder>();
+
+  return {
+    createReminder(input) {
+      const now = new Date().toISOString();
+      const reminder: AppointmentReminder = {
+        id: nextReminderId++,
+        appointment_id: input.appointment_id,
+        offset_minutes: input.offset_minutes,
+        start_iso: input.start_iso,
+        status: input.status,
+        message_sid: input.message_sid ?? null,
+        offered_slots: null,
+        created_at: now,
+        updated_at: now,
+      };
+      reminders.set(reminder.id, reminder);
+      return reminder;
+    },
+    listReminders(appointmentId) {
+      return Array.from(reminders.values()).filter(
+        (reminder) => reminder.appointment_id === appointmentId
+      );
+    },
+    setOfferedSlots(reminderId, offeredSlots) {
+      const existing = reminders.get(reminderId);
+      if (!existing) return;
+      reminders.set(reminderId, {
+        ...existing,
+        offered_slots: offeredSlots,
+        updated_at: new Date().toISOString(),
+      });
+    },
+  };
+}
+
+/** Parses "24h,2h" / "90m" / "30" (minutes) into offsets in minutes, largest first. */
+export function parseReminderOffsets(value: string | undefined): number[] {
+  if (!value || /^(off|none|false)$/i.test(value.trim())) return [];
+  const offsets = value
+    .split(",")
+    .map((part) => part.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(d|h|m)?$/))
+    .filter((match): match is RegExpMatchArray => Boolean(match))
+    .map((match) => {
+      const amount = Number(match[1]);
+      const unit = match[2] ?? "m";
+      return Math.round(unit === "d" ? amount * 1440 : unit === "h" ? amount * 60 : amount);
+    })
+    .filter((minutes) => minutes > 0);
+  return Array.from(new Set(offsets)).sort((a, b) => b - a);
+}
+
+export function getReminderOffsets(business: BusinessProfile): number[] {
+  return parseReminderOffsets(business.reminderOffsets);
+}
+
+/** The env business plus every active registered one, keyed by business id. */
+function listReminderProfiles(): Map<number | null, BusinessProfile> {
+  const profiles = new Map<number | null, BusinessProfile>([[null, getDefaultBusinessProfile()]]);
+  for (const record of listBusinesses()) {
+    profiles.set(record.id, toBusinessProfile(record));
+  }
+  return profiles;
+}
+
+export function formatAppointmentTime(record: Pick<AppointmentRecord, "start_iso" | "timezone">) {
+  return dayjs(record.start_iso).tz(record.timezone).format("ddd, MMM D [at] h:mm A");
+}
+
+function buildReminderMessage(record: AppointmentRecord, business: BusinessProfile) {
+  const businessName = business.name ?? "our office";
+  return `Reminder: your appointment with ${businessName} is ${formatAppointmentTime(record)}. Reply C to confirm, R to reschedule, or X to cancel.`;
+}
+
+/** Most recent reminder actually texted for the appointment's current time. */
+export function getLatestSentReminder(record: AppointmentRecord): AppointmentReminder | undefined {
+  return getStore()
+    .listReminders(record.id)
+    .filter((reminder) => reminder.status === "sent" && reminder.start_iso === record.start_iso)
+    .pop();
+}
+
+export function getOfferedSlots(reminder: AppointmentReminder): OfferedSlot[] {
+  if (!reminder.offered_slots) return [];
+  try {
+    const parsed = JSON.parse(reminder.offered_slots) as OfferedSlot[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function setOfferedSlots(reminder: AppointmentReminder, slots: OfferedSlot[] | null) {
+  getStore().setOfferedSlots(reminder.id, slots?.length ? JSON.stringify(slots) : null);
+}
+
+/**
+ * Texts every reminder that has come due, using the offsets and SMS number of the
+ * business each appointment was booked for. Only the nearest due offset is sent, so a
+ * server that was down for a day doesn't fire the 24h and 2h reminders back to back,
+ * and offsets that had already passed when the appointment was booked are skipped.
+ */
+export async function processDueReminders(
+  now: Date = new Date(),
+  send: (to: string, body: string) => Promise<{ sid?: string }> = sendSms
+): Promise<number> {
+  const profiles = listReminderProfiles();
+  const longestOffset = Math.max(
+    0,
+    ...Array.from(profiles.values()).flatMap((business) => getReminderOffsets(business))
+  );
+  if (!longestOffset) return 0;
+
+  const horizon = new Date(now.getTime() + longestOffset * 60 * 1000);
+  const appointments = listAppointments({ from: now.toISOString(), to: horizon.toISOString() });
+  let sent = 0;
+
+  for (const record of appointments) {
+    const start = Date.parse(record.start_iso);
+    if (!record.caller_phone || start <= now.getTime()) continue;
+    // Deactivated businesses aren't in the map, so their customers stop getting texts.
+    const business = profiles.get(record.business_id);
+    if (!business) continue;
+    const offsets = getReminderOffsets(business);
+    if (!offsets.length) continue;
+
+    const reminders = getStore()
+      .listReminders(record.id)
+      .filter((reminder) => reminder.start_iso === record.start_iso);
+    const due = offsets.filter((offset) => now.getTime() >= start - offset * 60 * 1000);
+    const pending = due.filter(
+      (offset) => !reminders.some((reminder) => reminder.offset_minutes === offset)
+    );
+    if (!pending.length) continue;
+
+    const nearest = Math.min(...due);
+    for (const offset of pending) {
+      const bookedAfterSendTime = Date.parse(record.created_at) > start - offset * 60 * 1000;
+      if (offset !== nearest || bookedAfterSendTime) {
+        getStore().createReminder({
+          appointment_id: record.id,
+          offset_minutes: offset,
+          start_iso: record.start_iso,
+          status: "skipped",
+        });
+        continue;
+      }
+
+      try {
+        const message = await runWithBusiness(business, () =>
+          send(record.caller_phone!, buildReminderMessage(record, business))
+        );
+        getStore().createReminder({
+          appointment_id: record.id,
+          offset_minutes: offset,
+          start_iso: record.start_iso,
+          status: "sent",
+          message_sid: message?.sid ?? null,
+        });
+        sent += 1;
+        logger.info("⏰ appointment reminder sent", {
+          appointmentId: record.id,
+          businessId: record.business_id,
+          offsetMinutes: offset,
+        });
+      } catch (error) {
+        getStore().createReminder({
+          appointment_id: record.id,
+          offset_minutes: offset,
+          start_iso: record.start_iso,
+          status: "failed",
+        });
+        logger.error("Failed to send appointment reminder", error);
+      }
+    }
+  }
+  return sent;
+}
+
+let isRunning = false;
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+
+export function startReminderScheduler(): void {
+  // Not gated on offsets: a business registered later can turn reminders on for itself.
+  if (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN) {
+    logger.info("Appointment reminders disabled: missing Twilio env vars.");
+    return;
+  }
+
+  if (schedulerTimer) return;
+
+  const run = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await processDueReminders();
+    } catch (error) {
+      logger.error("Appointment reminder run failed", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  run();
+  schedulerTimer = setInterval(run, 60 * 1000);
+
+  logger.info("⏰ Appointment reminder scheduler running (every minute)", {
+    offsetsMinutes: getReminderOffsets(getDefaultBusinessProfile()),
+  });
+}
@@ -0,0 +1,397 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import {
+  detectBookingIntent,
+  parseDatePreference,
+  parseName,
+  parseReason,
+  parseSlotChoice,
+  parseTimePreference,
+  type DatePreference,
+  type ParsedTimePreference,
+} from "./bookingParser.js";
+import {
+  checkAvailability,
+  createAppointment,
+  type BookingCheckAvailabilityInput,
+  type BookingCheckAvailabilityOutput,
+  type BookingCreateAppointmentInput,
+  type BookingCreateAppointmentOutput,
+  type BookingSlot,
+} from "./bookingTools.js";
+import { logger } from "../../utils/logger.js";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export type BookingFallbackStage =
+  | "watching"
+  | "name"
+  | "reason"
+  | "day"
+  | "time"
+  | "offer"
+  | "confirm"
+  | "done";
+
+export interface BookingFallbackStep {
+  /** Sentence the assistant should say verbatim. */
+  say?: string;
+  /** The fallback just took over; the model should stop auto-responding. */
+  takeover?: boolean;
+  /** Control goes back to the model (booked, or gave up and handed off). */
+  release?: boolean;
+  booking?: BookingCreateAppointmentOutput;
+}
+
+export interface BookingFallbackOptions {
+  timezone: string;
+  /** Caller turns after booking intent without a booking tool call before taking over. 0 disables. */
+  maxTurnsWithoutTool: number;
+  getCallerPhone: () => string | null;
+  getIdempotencySource: () => string;
+  getCallSid?: () => string | null;
+  tools?: {
+    checkAvailability: (
+      input: BookingCheckAvailabilityInput
+    ) => Promise<BookingCheckAvailabilityOutput>;
+    createAppointment: (
+      input: BookingCreateAppointmentInput
+    ) => Promise<BookingCreateAppointmentOutput>;
+  };
+}
+
+const MAX_PARSE_FAILURES = 2;
+const YES_PATTERN =
+  /\b(yes|yeah|yep|yup|correct|right|sure|sounds good|that works|perfect|please do|ok|okay|book it)\b/i;
+const NO_PATTERN = /\b(no|nope|not|wrong|actually|different|another)\b/i;
+const TIME_WORDS = /\b(am|pm|a\.m\.|p\.m\.|morning|afternoon|evening|noon|o'clock)\b|\d:\d{2}/i;
+const EXPLICIT_NAME = /\b(my name is|this is|i am)\b/i;
+const EXPLICIT_REASON = /\b(for|about|regarding)\s+\S/i;
+
+/**
+ * Server-side booking flow that runs on caller transcripts when the realtime model keeps
+ * chatting instead of calling the booking tools (or sends malformed tool calls). Once it
+ * takes over it asks for name, reason, day and time one question at a time, offers two
+ * slots, confirms, and books through the same tools the model would have used.
+ */
+export class BookingFallback {
+  private stage: BookingFallbackStage = "watching";
+  private intentDetected = false;
+  private turnsWithoutTool = 0;
+  private parseFailures = 0;
+  private history: string[] = [];
+  private name: string | null = null;
+  private reason: string | null = null;
+  private day: DatePreference | null = null;
+  private time: ParsedTimePreference | null = null;
+  private offered: BookingSlot[] = [];
+  private chosen: BookingSlot | null = null;
+  private tools: NonNullable<BookingFallbackOptions["tools"]>;
+
+  constructor(private options: BookingFallbackOptions) {
+    this.tools = options.tools ?? { checkAvailability, createAppointment };
+  }
+
+  get active() {
+    return this.stage !== "watching" && this.stage !== "done";
+  }
+
+  get currentStage() {
+    return this.stage;
+  }
+
+  get collected() {
+    return { name: this.name, reason: this.reason };
+  }
+
+  /** The model called a booking tool, so it is doing its job; reset the turn counter. */
+  noteToolCall() {
+    this.turnsWithoutTool = 0;
+  }
+
+  /** The model booked the appointment itself; stop watching for the rest of the call. */
+  noteBooked() {
+    if (!this.active) {
+      this.stage = "done";
+    }
+  }
+
+  /** A booking tool call had unparseable or incomplete arguments. */
+  async noteMalformedToolCall(): Promise<BookingFallbackStep> {
+    if (this.stage !== "watching" || this.options.maxTurnsWithoutTool <= 0) return {};
+    logger.info("🧯 booking fallback takeover (malformed tool call)");
+    return this.takeOver();
+  }
+
+  async noteCallerTurn(text: string): Promise<BookingFallbackStep> {
+    const normalized = text.trim();
+    if (!normalized || this.stage === "done") return {};
+
+    if (this.stage === "watching") {
+      if (this.options.maxTurnsWithoutTool <= 0) return {};
+      if (!this.intentDetected && !detectBookingIntent(normalized)) return {};
+      this.intentDetected = true;
+      this.history.push(normalized);
+      this.turnsWithoutTool += 1;
+      if (this.turnsWithoutTool < this.options.maxTurnsWithoutTool) return {};
+      logger.info("🧯 booking fallback takeover (no tool call)", {
+        turns: this.turnsWithoutTool,
+      });
+      return this.takeOver();
+    }
+
+    return this.advance(normalized);
+  }
+
+  private async takeOver(): Promise<BookingFallbackStep> {
+    this.prefillFromHistory();
+    const step = await this.nextQuestion();
+    return { ...step, takeover: true };
+  }
+
+  private prefillFromHistory() {
+    for (const text of this.history) {
+      if (!this.name && EXPLICIT_NAME.test(text)) {
+        this.name = parseName(text);
+      }
+      if (!this.reason && detectBookingIntent(text) && EXPLICIT_REASON.test(text)) {
+        this.reason = parseReason(text);
+      }
+      this.day = parseDatePreference(text, this.options.timezone) ?? this.day;
+      if (TIME_WORDS.test(text)) {
+        this.time = parseTimePreference(text) ?? this.time;
+      }
+    }
+  }
+
+  private async advance(text: string): Promise<BookingFallbackStep> {
+    switch (this.stage) {
+      case "name": {
+        const name = parseName(text);
+        if (!name) return this.retry("Sorry, could you tell me your name?");
+        this.name = name;
+        break;
+      }
+      case "reason": {
+        const reason = parseReason(text);
+        if (!reason) return this.retry("Sorry, what is the appointment for?");
+        this.reason = reason;
+        break;
+      }
+      case "day": {
+        const day = parseDatePreference(text, this.options.timezone);
+        if (!day) return this.retry("Sorry, which day would you like? For example, tomorrow or Friday.");
+        this.day = day;
+        this.time = TIME_WORDS.test(text) ? parseTimePreference(text) ?? this.time : this.time;
+        break;
+      }
+      case "time": {
+        this.time = parseTimePreference(text) ?? { type: "any" };
+        break;
+      }
+      case "offer": {
+        const slot = this.matchOfferedSlot(text);
+        if (!slot) {
+          if (NO_PATTERN.test(text)) {
+            this.day = parseDatePreference(text, this.options.timezone);
+            this.time = TIME_WORDS.test(text) ? parseTimePreference(text) : null;
+            this.offered = [];
+            break;
+          }
+          return this.retry(this.offerQuestion());
+        }
+        this.chosen = slot;
+        this.parseFailures = 0;
+        this.stage = "confirm";
+        return {
+          say: `To confirm, I'll book ${this.name} for ${this.formatSlot(slot)}. Is that right?`,
+        };
+      }
+      case "confirm": {
+        if (NO_PATTERN.test(text) && !YES_PATTERN.test(text)) {
+          this.chosen = null;
+          this.offered = [];
+          this.day = null;
+          this.time = null;
+          break;
+        }
+        if (!YES_PATTERN.test(text)) {
+          return this.retry(`Should I go ahead and book ${this.formatSlot(this.chosen!)}?`);
+        }
+        return this.book();
+      }
+      default:
+        return {};
+    }
+
+    this.parseFailures = 0;
+    return this.nextQuestion();
+  }
+
+  private async nextQuestion(): Promise<BookingFallbackStep> {
+    if (!this.name) {
+      this.stage = "name";
+      return { say: "I can book that for you. Can I get your name?" };
+    }
+    if (!this.reason) {
+      this.stage = "reason";
+      return { say: "What is the appointment for?" };
+    }
+    if (!this.day) {
+      this.stage = "day";
+      return { say: "What day works best for you?" };
+    }
+    if (!this.time) {
+      this.stage = "time";
+      return { say: "Do you prefer the morning or the afternoon?" };
+    }
+    return this.offerSlots();
+  }
+
+  private async offerSlots(): Promise<BookingFallbackStep> {
+    const dayISO = this.resolveDayISO(this.day!);
+    try {
+      let result = await this.tools.checkAvailability(this.availabilityInput(dayISO));
+      let movedDay = false;
+      if (!result.slots.length && this.time?.type === "specific") {
+        // The exact time is taken; offer the openings closest to it that day.
+        result = await this.tools.checkAvailability({ dayISO, preferredTime: this.specificTime() });
+      }
+      if (!result.slots.length) {
+        result = await this.tools.checkAvailability({});
+        movedDay = true;
+      }
+      if (!result.slots.length) {
+        return this.giveUp(
+          "I'm sorry, I don't see any openings in the next week. I'll have someone follow up with you to find a time."
+        );
+      }
+
+      this.offered = result.slots.slice(0, 2);
+      this.stage = "offer";
+      const prefix = movedDay ? "I don't have anything then. " : "";
+      const question = this.offered.length === 1 ? "Does that work for you?" : "Which works better?";
+      return { say: `${prefix}I have ${this.describeOffered()}. ${question}` };
+    } catch (error) {
+      logger.error("🧯 booking fallback availability failed", error);
+      return this.giveUp(
+        "I'm sorry, I can't check the calendar right now. I'll have someone follow up with you to book."
+      );
+    }
+  }
+
+  private async book(): Promise<BookingFallbackStep> {
+    const slot = this.chosen!;
+    try {
+      const booking = await this.tools.createAppointment({
+        startISO: slot.startISO,
+        endISO: slot.endISO,
+        name: this.name!,
+        reason: this.reason!,
+        phone: this.options.getCallerPhone() ?? undefined,
+        timezone: this.options.timezone,
+        idempotencySource: this.options.getIdempotencySource(),
+        toolCallId: "booking-fallback",
+        callSid: this.options.getCallSid?.() ?? undefined,
+      });
+      this.stage = "done";
+      if (!booking.created) {
+        return {
+          booking,
+          release: true,
+          say: "I wasn't able to finalize that booking. I'll have someone follow up with you to confirm.",
+        };
+      }
+      return {
+        booking,
+        release: true,
+        say: `You're all set for ${this.formatSlot(slot)}. Is there anything else I can help with?`,
+      };
+    } catch (error) {
+      logger.error("🧯 booking fallback create failed", error);
+      return this.giveUp(
+        "I'm sorry, I couldn't book that right now. I'll have someone follow up with you to confirm a time."
+      );
+    }
+  }
+
+  private retry(question: string): BookingFallbackStep {
+    this.parseFailures += 1;
+    if (this.parseFailures > MAX_PARSE_FAILURES) {
+      return this.giveUp(
+        "I'm having trouble getting that down. I'll have someone call you back to finish booking."
+      );
+    }
+    return { say: question };
+  }
+
+  private giveUp(say: string): BookingFallbackStep {
+    this.stage = "done";
+    return { say, release: true };
+  }
+
+  private availabilityInput(dayISO: string): BookingCheckAvailabilityInput {
+    const time = this.time ?? { type: "any" };
+    if (time.type === "morning" || time.type === "afternoon") {
+      return { dayISO, preference: time.type };
+    }
+    if (time.type === "specific") {
+      return { dayISO, startISO: `${dayISO}T${this.specificTime()}:00` };
+    }
+    return { dayISO };
+  }
+
+  /** The caller's specific time as HH:mm. */
+  private specificTime() {
+    if (this.time?.type !== "specific") return undefined;
+    // Bare numbers like "at 2" mean business hours, not 2am.
+    const hour = this.time.hour >= 1 && this.time.hour <= 6 ? this.time.hour + 12 : this.time.hour;
+    return `${String(hour).padStart(2, "0")}:${String(this.time.minute).padStart(2, "0")}`;
+  }
+
+  private resolveDayISO(preference: DatePreference) {
+    const today = dayjs().tz(this.options.timezone).startOf("day");
+    if (preference.type === "today") return today.format("YYYY-MM-DD");
+    if (preference.type === "tomorrow") return today.add(1, "day").format("YYYY-MM-DD");
+    if (preference.type === "weekday") {
+      const offset = (preference.weekday - today.day() + 7) % 7;
+      return today.add(offset, "day").format("YYYY-MM-DD");
+    }
+    return dayjs(preference.dateISO).tz(this.options.timezone).format("YYYY-MM-DD");
+  }
+
+  private matchOfferedSlot(text: string): BookingSlot | null {
+    if (TIME_WORDS.test(text)) {
+      const time = parseTimePreference(text);
+      if (time?.type === "specific") {
+        const match = this.offered.find((slot) => {
+          const local = dayjs(slot.startISO).tz(this.options.timezone);
+          return local.minute() === time.minute && local.hour() % 12 === time.hour % 12;
+        });
+        if (match) return match;
+      }
+    }
+    const choice = parseSlotChoice(text);
+    if (choice && this.offered[choice - 1]) return this.offered[choice - 1];
+    if (this.offered.length === 1 && YES_PATTERN.test(text) && !NO_PATTERN.test(text)) {
+      return this.offered[0];
+    }
+    return null;
+  }
+
+  private offerQuestion() {
+    return this.offered.length === 1
+      ? `Does ${this.formatSlot(this.offered[0])} work for you?`
+      : `Which works better: ${this.describeOffered()}?`;
+  }
+
+  private describeOffered() {
+    return this.offered.map((slot) => this.formatSlot(slot)).join(" or ");
+  }
+
+  private formatSlot(slot: BookingSlot) {
+    return dayjs(slot.startISO).tz(this.options.timezone).format("dddd, MMMM D [at] h:mm A");
+  }
+}
@@ -45,50 +45,13 @@ export function parseReason(text: string): string | null {
   return null;
 }
 
+/** Single-day reading of `parseDateRange`; spans such as "next week" resolve to their first day. */
 export function parseDatePreference(text: string, timeZone: string): DatePreference | null {
-  const lower = text.toLowerCase();
-  if (/\btoday\b/.test(lower)) return { type: "today" };
-  if (/\btomorrow\b/.test(lower)) return { type: "tomorrow" };
-
-  const weekdays = [
-    "sunday",
-    "monday",
-    "tuesday",
-    "wednesday",
-    "thursday",
-    "friday",
-    "saturday",
-  ];
-  const weekdayIndex = weekdays.findIndex((day) => lower.includes(day));
-  if (weekdayIndex >= 0) {
-    return { type: "weekday", weekday: weekdayIndex };
-  }
-
-  const dateMatch = text.match(/\b(\d{1,2}[/-]\d{1,2})(?:[/-](\d{2,4}))?\b/);
-  if (dateMatch) {
-    const format = dateMatch[2] ? "M/D/YYYY" : "M/D";
-    const value = dateMatch[2] ? dateMatch[0] : `${dateMatch[0]}/${dayjs().year()}`;
-    const parsed = dayjs.tz(value, format, timeZone);
-    if (parsed.isValid()) {
-      return { type: "date", dateISO: parsed.toISOString() };
-    }
-  }
-
-  const monthMatch = text.match(
-    /\b(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|jun(?:e)?|jul(?:y)?|aug(?:ust)?|sep(?:tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\s+(\d{1,2})\b/i
-  );
-  if (monthMatch) {
-    const value = `${monthMatch[1]} ${monthMatch[2]} ${dayjs().year()}`;
-    let parsed = dayjs.tz(value, "MMM D YYYY", timeZone);
-    if (!parsed.isValid()) {
-      parsed = dayjs.tz(value, "MMMM D YYYY", timeZone);
-    }
-    if (parsed.isValid()) {
-      return { type: "date", dateISO: parsed.toISOString() };
-    }
-  }
-
-  return null;
+  const range = parseDateRange(text, timeZone);
+  if (!range) return null;
+  if (range.label === "today") return { type: "today" };
+  if (range.label === "tomorrow") return { type: "tomorrow" };
+  return { type: "date", dateISO: dayjs.tz(range.startDate, timeZone).toISOString() };
 }
 
 export function parseTimePreference(text: string): ParsedTimePreference | null {
@@ -118,11 +81,460 @@ export function parseTimePreference(text: string): ParsedTimePreference | null {
 
 export function parseSlotChoice(text: string): 1 | 2 | null {
   const lower = text.toLowerCase();
-  if (/\b(1|one|first)\b/.test(lower)) return 1;
-  if (/\b(2|two|second)\b/.test(lower)) return 2;
+  // Ordinals first so "the second one" isn't read as option one.
+  if (/\b(first|former)\b/.test(lower)) return 1;
+  if (/\b(second|latter|last)\b/.test(lower)) return 2;
+  if (/\b(1|one)\b/.test(lower)) return 1;
+  if (/\b(2|two)\b/.test(lower)) return 2;
+  return null;
+}
+
+/** Local calendar days a caller asked for; both ends are inclusive YYYY-MM-DD dates. */
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+  /** The phrase that matched, e.g. "next tuesday" or "end of the month". */
+  label: string;
+}
+
+/** Minutes after local midnight; `endMinute` is exclusive and equals `startMinute` for an exact time. */
+export interface TimeRange {
+  startMinute: number;
+  endMinute: number;
+  /** "First thing" and "end of the day" ask for the edge of the range, not any time in it. */
+  preference?: "earliest" | "latest";
+  label: string;
+}
+
+export interface ParsedBookingRequest {
+  timezone: string;
+  date: DateRange | null;
+  time: TimeRange | null;
+  /** Bounds of the request with the timezone applied; `endISO` equals `startISO` for an exact time. */
+  startISO: string | null;
+  endISO: string | null;
+}
+
+const WEEKDAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const WEEKDAY_PATTERN =
+  "(sunday|monday|tuesday|tues|wednesday|weds|thursday|thurs|friday|saturday)";
+const MONTH_PATTERN =
+  "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const COUNT_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  couple: 2,
+  "a couple": 2,
+  "a couple of": 2,
+  "a few": 3,
+  few: 3,
+};
+const COUNT_PATTERN =
+  "(\\d{1,2}|a couple(?: of)?|a few|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)";
+const MINUTES_PER_DAY = 24 * 60;
+
+function normalizeText(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/\b([ap])\.m\.?/g, "$1m")
+    .replace(/[,!?]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function toCount(value: string) {
+  return /^\d+$/.test(value) ? Number(value) : COUNT_WORDS[value] ?? null;
+}
+
+function toWeekday(value: string) {
+  return WEEKDAY_NAMES.findIndex((name) => name.startsWith(value.slice(0, 3)));
+}
+
+const MONTH_PREFIXES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function toMonth(value: string) {
+  return MONTH_PREFIXES.indexOf(value.slice(0, 3));
+}
+
+/**
+ * Reads the day or days a caller means ("the day after tomorrow", "next Tuesday",
+ * "the 14th", "end of the month", "in two weeks") relative to `now` in `timeZone`.
+ * "This Friday" is the coming Friday; "next Friday" skips to the following week when
+ * the coming Friday is still this week. Ranges never start before today.
+ */
+export function parseDateRange(
+  text: string,
+  timeZone: string,
+  now: Date = new Date()
+): DateRange | null {
+  const lower = normalizeText(text);
+  // Calendar math on a UTC date keeps DST shifts out of day arithmetic.
+  const today = dayjs.utc(dayjs(now).tz(timeZone).format("YYYY-MM-DD"));
+  const format = (day: dayjs.Dayjs) => day.format("YYYY-MM-DD");
+  const single = (day: dayjs.Dayjs, label: string): DateRange => ({
+    startDate: format(day),
+    endDate: format(day),
+    label,
+  });
+  const span = (start: dayjs.Dayjs, end: dayjs.Dayjs, label: string): DateRange => {
+    const from = start.isBefore(today) ? today : start;
+    return { startDate: format(from), endDate: format(end.isBefore(from) ? from : end), label };
+  };
+  // Weeks run Monday through Sunday.
+  const weekStart = (day: dayjs.Dayjs) => day.subtract((day.day() + 6) % 7, "day");
+  const thisWeek = weekStart(today);
+
+  let match = lower.match(/\b(?:the )?day after tomorrow\b/);
+  if (match) return single(today.add(2, "day"), match[0]);
+
+  match = lower.match(/\b(today|tonight|this (?:morning|afternoon|evening))\b/);
+  if (match) return single(today, match[0]);
+
+  match = lower.match(/\btomorrow\b/);
+  if (match) return single(today.add(1, "day"), match[0]);
+
+  match =
+    lower.match(new RegExp(`\\bin ${COUNT_PATTERN} (day|week|month)s?\\b`)) ??
+    lower.match(new RegExp(`\\b${COUNT_PATTERN} (day|week|month)s? from (?:now|today)\\b`));
+  if (match) {
+    const count = toCount(match[1]);
+    if (count) {
+      const unit = match[2] as "day" | "week" | "month";
+      const target = today.add(count, unit);
+      if (unit === "day") return single(target, match[0]);
+      return span(weekStart(target), weekStart(target).add(6, "day"), match[0]);
+    }
+  }
+
+  match = lower.match(/\bend of (?:the |this )?month\b/);
+  if (match) {
+    const last = today.endOf("month").startOf("day");
+    return span(last.subtract(6, "day"), last, match[0]);
+  }
+  match = lower.match(/\bend of next month\b/);
+  if (match) {
+    const last = today.add(1, "month").endOf("month").startOf("day");
+    return span(last.subtract(6, "day"), last, match[0]);
+  }
+  match = lower.match(/\b(?:(?:beginning|start) of (?:the )?next month|early next month)\b/);
+  if (match) {
+    const first = today.add(1, "month").startOf("month");
+    return span(first, first.add(6, "day"), match[0]);
+  }
+  match = lower.match(/\bnext month\b/);
+  if (match) {
+    const first = today.add(1, "month").startOf("month");
+    return span(first, first.endOf("month").startOf("day"), match[0]);
+  }
+  match = lower.match(/\b(?:later )?this month\b/);
+  if (match) {
+    return span(today, today.endOf("month").startOf("day"), match[0]);
+  }
+
+  match = lower.match(/\bend of (?:the |this )?week\b/);
+  if (match) return span(thisWeek.add(3, "day"), thisWeek.add(5, "day"), match[0]);
+
+  match = lower.match(/\bnext weekend\b/);
+  if (match) return span(thisWeek.add(12, "day"), thisWeek.add(13, "day"), match[0]);
+  match = lower.match(/\b(?:this |the )?weekend\b/);
+  if (match) return span(thisWeek.add(5, "day"), thisWeek.add(6, "day"), match[0]);
+
+  match = lower.match(/\b(?:the )?week after next\b/);
+  if (match) return span(thisWeek.add(14, "day"), thisWeek.add(20, "day"), match[0]);
+  match = lower.match(/\bnext week\b/);
+  if (match) return span(thisWeek.add(7, "day"), thisWeek.add(13, "day"), match[0]);
+  match = lower.match(/\b(later )?this week\b/);
+  if (match) {
+    return span(today.add(match[1] ? 1 : 0, "day"), thisWeek.add(6, "day"), match[0]);
+  }
+
+  match = lower.match(
+    new RegExp(`\\b(?:(this coming|this|coming|next|following) )?${WEEKDAY_PATTERN}\\b`)
+  );
+  if (match) {
+    const modifier = match[1];
+    let offset = (toWeekday(match[2]) - today.day() + 7) % 7;
+    if (modifier && modifier !== "this" && offset === 0) offset = 7;
+    const inThisWeek = today.add(offset, "day").isBefore(thisWeek.add(7, "day"));
+    if ((modifier === "next" || modifier === "following") && inThisWeek) offset += 7;
+    return single(today.add(offset, "day"), match[0]);
+  }
+
+  const monthDay =
+    lower.match(
+      new RegExp(`\\b${MONTH_PATTERN}\\.? (?:the )?(\\d{1,2})(?:st|nd|rd|th)?(?: (\\d{4}))?\\b`)
+    ) ?? null;
+  const dayOfMonth = monthDay
+    ? null
+    : lower.match(new RegExp(`\\b(?:the )?(\\d{1,2})(?:st|nd|rd|th)? of ${MONTH_PATTERN}(?: (\\d{4}))?\\b`));
+  if (monthDay || dayOfMonth) {
+    const month = toMonth(monthDay ? monthDay[1] : dayOfMonth![2]);
+    const day = Number(monthDay ? monthDay[2] : dayOfMonth![1]);
+    const year = monthDay ? monthDay[3] : dayOfMonth![3];
+    const resolved = resolveCalendarDate(today, month, day, year ? Number(year) : null);
+    if (resolved) return single(resolved, (monthDay ?? dayOfMonth)![0]);
+  }
+
+  // Skip time ranges such as "2-4pm".
+  match = lower.match(/\b(\d{1,2})[/-](\d{1,2})(?:[/-](\d{2}|\d{4}))?\b(?! ?[ap]m)/);
+  if (match) {
+    const year = match[3] ? Number(match[3].length === 2 ? `20${match[3]}` : match[3]) : null;
+    const resolved = resolveCalendarDate(today, Number(match[1]) - 1, Number(match[2]), year);
+    if (resolved) return single(resolved, match[0]);
+  }
+
+  match = lower.match(/\b(?:on )?the (\d{1,2})(?:st|nd|rd|th)\b/);
+  if (match) {
+    const day = Number(match[1]);
+    // "The 31st" means the next month that has one.
+    for (let ahead = 0; ahead < 3; ahead += 1) {
+      const month = today.startOf("month").add(ahead, "month");
+      if (day > month.daysInMonth()) continue;
+      const candidate = month.date(day);
+      if (!candidate.isBefore(today)) return single(candidate, match[0]);
+    }
+  }
+
   return null;
 }
 
+function resolveCalendarDate(
+  today: dayjs.Dayjs,
+  month: number,
+  day: number,
+  year: number | null
+) {
+  if (month < 0 || month > 11 || day < 1) return null;
+  const build = (targetYear: number) => {
+    const first = dayjs.utc(`${targetYear}-01-01`).month(month);
+    return day <= first.daysInMonth() ? first.date(day) : null;
+  };
+  if (year) return build(year);
+  const thisYear = build(today.year());
+  // Dates already behind us this year mean next year's.
+  return thisYear && !thisYear.isBefore(today) ? thisYear : build(today.year() + 1);
+}
+
+type ClockToken = { hour: number; minute: number; meridian?: "am" | "pm" };
+
+const CLOCK_PATTERN = "(\\d{1,2})(?::(\\d{2}))?(?: ?(am|pm))?";
+
+const HOUR_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+
+function normalizeClockText(text: string) {
+  const hourWords = Object.keys(HOUR_WORDS).join("|");
+  return normalizeText(text)
+    .replace(new RegExp(`\\b(${hourWords})\\b`, "g"), (word) => String(HOUR_WORDS[word]))
+    .replace(/\b(noon|midday)\b/g, "12pm")
+    .replace(/\bhalf past (\d{1,2})\b/g, "$1:30")
+    .replace(/\b(?:a )?quarter past (\d{1,2})\b/g, "$1:15")
+    .replace(/\b(?:a )?quarter (?:to|till|of) (\d{1,2})\b/g, (_, hour) =>
+      `${Number(hour) === 1 ? 12 : Number(hour) - 1}:45`
+    )
+    .replace(/\b(\d{1,2}) (fifteen|thirty|forty[- ]five)\b/g, (_, hour, minutes: string) =>
+      `${hour}:${minutes.startsWith("fifteen") ? "15" : minutes.startsWith("thirty") ? "30" : "45"}`
+    )
+    .replace(/ ?o'?clock\b/g, "");
+}
+
+function toClockToken(hour: string, minute?: string, meridian?: string): ClockToken | null {
+  const token: ClockToken = {
+    hour: Number(hour),
+    minute: minute ? Number(minute) : 0,
+    meridian: meridian as ClockToken["meridian"],
+  };
+  if (token.hour > 23 || token.minute > 59 || (token.meridian && token.hour > 12)) return null;
+  return token;
+}
+
+/**
+ * Minutes after midnight for a clock token. Without am/pm, the part of day the caller
+ * mentioned decides; otherwise 1-6 read as afternoon and 7-11 as morning, matching
+ * how people talk about business hours.
+ */
+function toMinuteOfDay(token: ClockToken, context?: "am" | "pm") {
+  let hour = token.hour;
+  if (hour <= 12) {
+    const meridian = token.meridian ?? context ?? (hour === 12 || hour <= 6 ? "pm" : "am");
+    if (meridian === "pm" && hour < 12) hour += 12;
+    if (meridian === "am" && hour === 12) hour = 0;
+  }
+  return hour * 60 + token.minute;
+}
+
+/**
+ * Reads the time of day a caller means: exact times ("at 3:30", "quarter past two"),
+ * bounds ("after 3", "before 10", "between 2 and 4", "around noon") and parts of the
+ * day ("first thing", "late afternoon", "end of the day").
+ */
+export function parseTimeRange(text: string): TimeRange | null {
+  const lower = normalizeClockText(text);
+  const context = /\bmornings?\b/.test(lower)
+    ? "am"
+    : /\b(afternoons?|evenings?|tonight)\b/.test(lower)
+      ? "pm"
+      : undefined;
+  const range = (
+    startMinute: number,
+    endMinute: number,
+    label: string,
+    preference?: TimeRange["preference"]
+  ): TimeRange => ({ startMinute, endMinute, label, ...(preference ? { preference } : {}) });
+
+  const between =
+    lower.match(
+      new RegExp(
+        `\\b(?:between|from) ${CLOCK_PATTERN}(?: (?:and|to|till|until) | ?- ?)${CLOCK_PATTERN}`
+      )
+    ) ?? lower.match(new RegExp(`\\b${CLOCK_PATTERN} ?(?:-|to) ?(\\d{1,2})(?::(\\d{2}))? ?(am|pm)\\b`));
+  if (between) {
+    const start = toClockToken(between[1], between[2], between[3]);
+    const end = toClockToken(between[4], between[5], between[6]);
+    if (start && end) {
+      // "2 to 4pm" shares the meridian unless that would put the start after the end.
+      if (!start.meridian && end.meridian) {
+        const shared = toMinuteOfDay({ ...start, meridian: end.meridian });
+        start.meridian =
+          shared < toMinuteOfDay(end) ? end.meridian : end.meridian === "pm" ? "am" : "pm";
+      }
+      const startMinute = toMinuteOfDay(start, context);
+      let endMinute = toMinuteOfDay(end, end.meridian ? undefined : context);
+      if (endMinute <= startMinute && !end.meridian && endMinute < 12 * 60) endMinute += 12 * 60;
+      if (endMinute > startMinute) return range(startMinute, endMinute, between[0]);
+    }
+  }
+
+  const around =
+    lower.match(new RegExp(`\\b(?:around|about|roughly|near) ${CLOCK_PATTERN}\\b`)) ??
+    lower.match(new RegExp(`\\b${CLOCK_PATTERN}[- ]?ish\\b`));
+  if (around) {
+    const token = toClockToken(around[1], around[2], around[3]);
+    if (token) {
+      const minute = toMinuteOfDay(token, context);
+      return range(Math.max(0, minute - 30), Math.min(MINUTES_PER_DAY, minute + 30), around[0]);
+    }
+  }
+
+  const after = lower.match(
+    new RegExp(`\\b(?:after|(?<!no )later than|from|starting at|no earlier than) ${CLOCK_PATTERN}\\b`)
+  );
+  const before = lower.match(
+    new RegExp(`\\b(?:before|by|until|till|no later than|earlier than) ${CLOCK_PATTERN}\\b`)
+  );
+  const afterToken = after ? toClockToken(after[1], after[2], after[3]) : null;
+  const beforeToken = before ? toClockToken(before[1], before[2], before[3]) : null;
+  if (afterToken || beforeToken) {
+    const startMinute = afterToken ? toMinuteOfDay(afterToken, context) : 0;
+    const endMinute = beforeToken ? toMinuteOfDay(beforeToken, context) : MINUTES_PER_DAY;
+    if (endMinute > startMinute) {
+      const label = [after?.[0], before?.[0]].filter(Boolean).join(" ");
+      return range(startMinute, endMinute, label);
+    }
+  }
+
+  const exact =
+    lower.match(new RegExp(`\\bat ${CLOCK_PATTERN}\\b`)) ??
+    lower.match(/\b(\d{1,2}):(\d{2})(?: ?(am|pm))?\b/) ??
+    lower.match(/\b(\d{1,2})()(?: ?(am|pm))\b/);
+  if (exact) {
+    const token = toClockToken(exact[1], exact[2] || undefined, exact[3]);
+    if (token) {
+      const minute = toMinuteOfDay(token, context);
+      return range(minute, minute, exact[0]);
+    }
+  }
+
+  let match = lower.match(/\bfirst thing(?: in the morning)?\b/);
+  if (match) return range(0, 10 * 60, match[0], "earliest");
+  match = lower.match(/\b(?:end of (?:the )?day|last thing|late in the day|before close)\b/);
+  if (match) return range(15 * 60, MINUTES_PER_DAY, match[0], "latest");
+  match = lower.match(/\b(?:lunch ?time|lunch|over lunch)\b/);
+  if (match) return range(11 * 60 + 30, 13 * 60 + 30, match[0]);
+
+  const dayParts: [RegExp, number, number][] = [
+    [/\bearly morning\b/, 0, 10 * 60],
+    [/\blate morning\b/, 10 * 60, 12 * 60],
+    [/\bmornings?\b/, 0, 12 * 60],
+    [/\bearly afternoon\b/, 12 * 60, 15 * 60],
+    [/\blate afternoon\b/, 15 * 60, 17 * 60],
+    [/\bafternoons?\b/, 12 * 60, 17 * 60],
+    [/\b(?:evenings?|tonight|after work)\b/, 17 * 60, MINUTES_PER_DAY],
+  ];
+  for (const [pattern, startMinute, endMinute] of dayParts) {
+    match = lower.match(pattern);
+    if (match) return range(startMinute, endMinute, match[0]);
+  }
+
+  return null;
+}
+
+/**
+ * Combines `parseDateRange` and `parseTimeRange` and applies the timezone. A time with
+ * no day means today when that time is still ahead, otherwise tomorrow.
+ */
+export function parseBookingRequest(
+  text: string,
+  timeZone: string,
+  now: Date = new Date()
+): ParsedBookingRequest {
+  const date = parseDateRange(text, timeZone, now);
+  const time = parseTimeRange(text);
+  if (!date && !time) {
+    return { timezone: timeZone, date, time, startISO: null, endISO: null };
+  }
+
+  const localNow = dayjs(now).tz(timeZone);
+  const at = (day: string, minute: number) => {
+    const base = dayjs.utc(day).add(minute, "minute");
+    return dayjs.tz(base.format("YYYY-MM-DDTHH:mm:ss"), timeZone);
+  };
+
+  let startDate = date?.startDate;
+  let endDate = date?.endDate;
+  if (!startDate && time) {
+    const today = localNow.format("YYYY-MM-DD");
+    const lastUseful = time.endMinute > time.startMinute ? time.endMinute : time.startMinute + 1;
+    const day = at(today, lastUseful).isAfter(localNow)
+      ? today
+      : localNow.add(1, "day").format("YYYY-MM-DD");
+    startDate = day;
+    endDate = day;
+  }
+
+  const start = at(startDate!, time?.startMinute ?? 0);
+  const end =
+    time && time.endMinute === time.startMinute
+      ? start
+      : at(endDate!, time?.endMinute ?? MINUTES_PER_DAY);
+  return { timezone: timeZone, date, time, startISO: start.format(), endISO: end.format() };
+}
+
 function normalizeName(name: string) {
   return name
     .split(" ")
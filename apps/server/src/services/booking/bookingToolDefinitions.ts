@@ -0,0 +1,269 @@
+import { z } from "zod";
+import {
+  AVAILABILITY_PREFERENCES,
+  cancelAppointment,
+  checkAvailability,
+  createAppointment,
+  findAppointment,
+  normalizeBookingRequest,
+  updateAppointment,
+} from "./bookingTools.js";
+import { getAllowedDays, listServices } from "./serviceCatalog.js";
+import { listStaff } from "./staffDirectory.js";
+import { defineTool, type ToolContext } from "../tools/toolDefinition.js";
+
+// Booking is offered on receptionist calls and SMS threads alike.
+const BOOKING_MODES = ["receptionist", "sms"];
+
+// Texts only reach the sender's own bookings: lookups use the sender's number and changes
+// need a ledger entry under it.
+function isTextThread(context: ToolContext) {
+  return context.mode === "sms";
+}
+
+const timezoneParameter = z
+  .string()
+  .optional()
+  .describe("IANA timezone name (e.g., America/Phoenix).");
+
+const staffIdParameter = z
+  .number()
+  .optional()
+  .describe("staffId from find_event, when the match included one.");
+
+function buildServiceIdParameter() {
+  const services = listServices();
+  if (!services.length) return {};
+  const options = services.map((service) => {
+    const days = getAllowedDays(service);
+    const rules = [
+      `${service.duration_minutes} min`,
+      days ? `only ${days.join("/")}` : null,
+      service.lead_time_minutes ? `${service.lead_time_minutes} min notice` : null,
+    ].filter(Boolean);
+    return `${service.id} = ${service.name} (${rules.join(", ")})`;
+  });
+  return {
+    serviceId: z
+      .literal(services.map((service) => service.id))
+      .optional()
+      .describe(
+        `Service being booked. Pick the closest match and pass the same serviceId when creating the appointment. Options: ${options.join("; ")}.`
+      ),
+  };
+}
+
+function buildStaffNameParameter() {
+  const staff = listStaff();
+  if (!staff.length) return {};
+  return {
+    staffName: z
+      .string()
+      .optional()
+      .describe(
+        `Optional staff member the caller asked for (e.g. "can I get Maria again?"). Leave empty to assign whoever is free. Staff: ${staff
+          .map((member) => member.name)
+          .join(", ")}.`
+      ),
+  };
+}
+
+/** Adds serviceId and staffName when the catalog has services or staff to choose from. */
+function withCatalogFields<Shape extends z.ZodRawShape>(schema: z.ZodObject<Shape>) {
+  return schema.extend({
+    ...buildServiceIdParameter(),
+    ...buildStaffNameParameter(),
+  }) as unknown as z.ZodType<
+    z.output<z.ZodObject<Shape>> & { serviceId?: number; staffName?: string }
+  >;
+}
+
+const checkAvailabilityTool = defineTool({
+  name: "booking_check_availability",
+  description:
+    "Check calendar availability and return ranked open slots spread across days and times of day.",
+  modes: BOOKING_MODES,
+  schema: () =>
+    withCatalogFields(
+      z.object({
+        dayISO: z
+          .string()
+          .optional()
+          .describe("Optional day in ISO format (YYYY-MM-DD) to check."),
+        endDayISO: z
+          .string()
+          .optional()
+          .describe(
+            "Optional last day (YYYY-MM-DD) when checking a range of days starting at dayISO."
+          ),
+        startISO: z
+          .string()
+          .optional()
+          .describe(
+            "Optional exact start time in ISO format. Use for specific-time availability checks."
+          ),
+        endISO: z
+          .string()
+          .optional()
+          .describe("Optional exact end time in ISO format. Defaults to startISO + duration."),
+        timezone: timezoneParameter,
+        window: z
+          .object({ startHour: z.number().optional(), endHour: z.number().optional() })
+          .optional()
+          .describe("Optional business hours window."),
+        durationMinutes: z.number().optional(),
+        preference: z
+          .enum(AVAILABILITY_PREFERENCES)
+          .optional()
+          .describe(
+            "Optional time-of-day preference: morning or afternoon only, or earliest/latest to favor the first or last openings of each day."
+          ),
+        preferredTime: z
+          .string()
+          .regex(/^\d{1,2}:\d{2}$/)
+          .optional()
+          .describe(
+            "Optional time the caller would like (HH:mm, 24-hour) when they are flexible; openings closest to it are offered first."
+          ),
+        maxSlots: z
+          .number()
+          .optional()
+          .describe(
+            "Optional number of options to return (default 2, max 10). Ask for more when the caller rejects the first options."
+          ),
+      })
+    ),
+  handler: (args) => checkAvailability(args),
+});
+
+const normalizeRequestTool = defineTool({
+  name: "booking_normalize_request",
+  description:
+    "Turn the caller's own words about when they want to come in (e.g. \"next Tuesday after 3\", \"end of the month, mornings\") into booking_check_availability arguments in the business timezone.",
+  modes: BOOKING_MODES,
+  schema: () =>
+    z.object({
+      text: z.string().describe("What the caller said about the day and time, verbatim."),
+      timezone: timezoneParameter,
+    }),
+  invalidArgumentsMessage: "Missing required field: text.",
+  handler: (args) => normalizeBookingRequest(args),
+});
+
+const createAppointmentTool = defineTool({
+  name: "booking_create_appointment",
+  description: "Create a calendar appointment for a confirmed slot.",
+  modes: BOOKING_MODES,
+  schema: () =>
+    withCatalogFields(
+      z.object({
+        startISO: z.string(),
+        endISO: z.string(),
+        name: z.string(),
+        reason: z.string(),
+        phone: z.string().optional(),
+        timezone: z.string().optional(),
+      })
+    ),
+  invalidArgumentsMessage: "Missing required appointment fields: startISO, endISO, name, reason.",
+  handler: (args, context) =>
+    createAppointment({
+      ...args,
+      phone: args.phone ?? context.callerPhone ?? undefined,
+      idempotencySource: context.idempotencySource,
+      toolCallId: context.toolCallId,
+      callSid: context.callSid ?? undefined,
+    }),
+});
+
+const findEventTool = defineTool({
+  name: "find_event",
+  description:
+    "Find the caller's upcoming appointment. Matches the caller's phone number automatically, so it can be called with no arguments; startISO and name narrow the search, and names are matched fuzzily.",
+  modes: BOOKING_MODES,
+  schema: () =>
+    z.object({
+      startISO: z.string().optional().describe("Target appointment start time in ISO format."),
+      timezone: timezoneParameter,
+      name: z
+        .string()
+        .optional()
+        .describe("Optional caller name to match against event summary."),
+      phone: z
+        .string()
+        .optional()
+        .describe(
+          "Optional phone number the appointment was booked under. Defaults to the caller's number."
+        ),
+      daysAhead: z
+        .number()
+        .optional()
+        .describe("Optional number of days ahead to search (default 30)."),
+    }),
+  invalidArgumentsMessage: "Invalid appointment lookup request.",
+  handler: async (args, context) => {
+    if (!isTextThread(context)) {
+      return findAppointment({ ...args, phone: args.phone ?? context.callerPhone ?? undefined });
+    }
+    const result = await findAppointment({ ...args, phone: context.callerPhone ?? undefined });
+    // Event descriptions carry other bookings' phone numbers and notes.
+    return {
+      ...result,
+      matches: result.matches.map(({ description, ...match }) => match),
+    };
+  },
+});
+
+const updateEventTool = defineTool({
+  name: "update_event",
+  description: "Update an existing calendar event time/details.",
+  modes: BOOKING_MODES,
+  schema: () =>
+    z.object({
+      eventId: z.string(),
+      startISO: z.string(),
+      endISO: z.string(),
+      summary: z.string().optional(),
+      description: z.string().optional(),
+      timezone: z.string().optional(),
+      staffId: staffIdParameter,
+    }),
+  invalidArgumentsMessage: "Missing required update fields: eventId, startISO, endISO.",
+  handler: (args, context) =>
+    updateAppointment({
+      ...args,
+      callSid: context.callSid ?? undefined,
+      ownerPhone: isTextThread(context) ? (context.callerPhone ?? "") : undefined,
+    }),
+});
+
+const cancelEventTool = defineTool({
+  name: "cancel_event",
+  description: "Cancel an existing calendar event.",
+  modes: BOOKING_MODES,
+  schema: () =>
+    z.object({
+      eventId: z.string(),
+      staffId: staffIdParameter,
+    }),
+  invalidArgumentsMessage: "Missing required cancel fields: eventId.",
+  handler: (args, context) =>
+    cancelAppointment({
+      ...args,
+      callSid: context.callSid ?? undefined,
+      ownerPhone: isTextThread(context) ? (context.callerPhone ?? "") : undefined,
+    }),
+});
+
+/**
+ * The calendar tools. Service and staff options are read from the catalog whenever a
+ * schema is built, so each session sees the current ones.
+ */
+export const bookingTools = [
+  checkAvailabilityTool,
+  normalizeRequestTool,
+  createAppointmentTool,
+  findEventTool,
+  updateEventTool,
+  cancelEventTool,
+];
@@ -2,12 +2,57 @@ import dayjs from "dayjs";
 import utc from "dayjs/plugin/utc.js";
 import timezone from "dayjs/plugin/timezone.js";
 import { env } from "../../config/env.js";
-import { getCalendarAdapter } from "../calendar/index.js";
-import { findAvailableSlots } from "./slotFinder.js";
+import { getActiveBusiness } from "../businessContext.js";
+import {
+  findAppointmentsByPhone,
+  getAppointmentByEventId,
+  listAppointments,
+  recordAppointment,
+  toPhoneKey,
+  updateAppointmentStatus,
+} from "./appointmentLedger.js";
+import { parseBookingRequest, type TimeRange } from "./bookingParser.js";
+import { FUZZY_NAME_THRESHOLD, scoreNameMatch } from "./nameMatching.js";
+import {
+  describeClosedReason,
+  getBusinessHours,
+  getClosedReason,
+  isWithinBusinessHours,
+  WEEKDAYS,
+  type BusinessHoursSchedule,
+} from "./businessHours.js";
+import {
+  getAllowedDays,
+  getServiceById,
+  serviceDescriptionLine,
+  type BookingService,
+} from "./serviceCatalog.js";
+import { DEFAULT_MAX_SLOTS, findSlotCandidates, type TimePreference } from "./slotFinder.js";
+import { rankSlots, type SlotCandidate } from "./slotRanker.js";
+import {
+  applyStaffPreference,
+  getBookingCalendars,
+  getStaffCalendarAdapter,
+  isIntervalBusy,
+  pickCalendarForSlot,
+  type BookingCalendar,
+} from "./staffCalendars.js";
+import { listStaff, markStaffAssigned } from "./staffDirectory.js";
+import { logger } from "../../utils/logger.js";
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
 
+export const AVAILABILITY_PREFERENCES = [
+  "any",
+  "morning",
+  "afternoon",
+  "earliest",
+  "latest",
+] as const;
+
+export type AvailabilityPreference = (typeof AVAILABILITY_PREFERENCES)[number];
+
 export interface AvailabilityWindow {
   startHour?: number;
   endHour?: number;
@@ -15,16 +60,48 @@ export interface AvailabilityWindow {
 
 export interface BookingCheckAvailabilityInput {
   dayISO?: string;
+  /** Last day (inclusive) when checking a range of days starting at `dayISO`. */
+  endDayISO?: string;
   timezone?: string;
   window?: AvailabilityWindow;
   durationMinutes?: number;
   startISO?: string;
   endISO?: string;
+  serviceId?: number;
+  staffName?: string;
+  /** Part of the day, or the first/last openings; morning and afternoon narrow the search. */
+  preference?: AvailabilityPreference;
+  /** Time of day (HH:mm, 24-hour) the caller would like; the closest openings rank first. */
+  preferredTime?: string;
+  /** Number of ranked options to return (default 2, max 10). */
+  maxSlots?: number;
+}
+
+export interface BookingNormalizeRequestInput {
+  text: string;
+  timezone?: string;
+}
+
+export interface BookingNormalizeRequestOutput {
+  matched: boolean;
+  timezone: string;
+  /** Plain reading of the request to confirm back to the caller. */
+  description?: string;
+  /** Arguments for booking_check_availability that cover the request. */
+  availability?: Pick<
+    BookingCheckAvailabilityInput,
+    "dayISO" | "endDayISO" | "startISO" | "window" | "preference"
+  >;
+  preference?: "earliest" | "latest";
+  rangeStartISO?: string;
+  rangeEndISO?: string;
 }
 
 export interface BookingSlot {
   startISO: string;
   endISO: string;
+  /** Staff free for this slot; omitted when bookings go to a single shared calendar. */
+  staff?: string[];
 }
 
 export interface BookingCheckAvailabilityOutput {
@@ -40,8 +117,11 @@ export interface BookingCreateAppointmentInput {
   reason: string;
   phone?: string;
   timezone?: string;
+  serviceId?: number;
+  staffName?: string;
   idempotencySource?: string;
   toolCallId?: string;
+  callSid?: string;
 }
 
 export interface BookingCreateAppointmentOutput {
@@ -50,6 +130,8 @@ export interface BookingCreateAppointmentOutput {
   eventId?: string;
   htmlLink?: string;
   summary?: string;
+  service?: string;
+  staff?: { id: number; name: string };
   startISO: string;
   endISO: string;
   timezone: string;
@@ -59,29 +141,41 @@ export interface BookingFindAppointmentInput {
   startISO?: string;
   timezone?: string;
   name?: string;
+  /** Caller phone; bookings recorded in the appointment ledger are searched by it first. */
+  phone?: string;
   daysAhead?: number;
 }
 
 export interface BookingEventMatch {
   eventId: string;
+  staffId?: number;
+  staffName?: string;
   summary?: string;
   description?: string;
   startISO: string;
   endISO: string;
+  source?: "ledger" | "calendar";
+  /** What identified the appointment; "fuzzy_name" matches should be confirmed with the caller. */
+  matchedBy?: "phone" | "time" | "name" | "fuzzy_name";
 }
 
 export interface BookingFindAppointmentOutput {
   matches: BookingEventMatch[];
   timezone: string;
+  notes?: string;
 }
 
 export interface BookingUpdateAppointmentInput {
   eventId: string;
+  staffId?: number;
   startISO: string;
   endISO: string;
   summary?: string;
   description?: string;
   timezone?: string;
+  callSid?: string;
+  /** When set, only an appointment the ledger records under this phone can be moved. */
+  ownerPhone?: string;
 }
 
 export interface BookingUpdateAppointmentOutput {
@@ -95,6 +189,10 @@ export interface BookingUpdateAppointmentOutput {
 
 export interface BookingCancelAppointmentInput {
   eventId: string;
+  staffId?: number;
+  callSid?: string;
+  /** When set, only an appointment the ledger records under this phone can be cancelled. */
+  ownerPhone?: string;
 }
 
 export interface BookingCancelAppointmentOutput {
@@ -127,15 +225,107 @@ function isBookingConfigError(error: unknown) {
 }
 
 function resolveTimezone(inputTimezone?: string) {
-  return inputTimezone ?? env.DEFAULT_TIMEZONE ?? "America/Phoenix";
+  return inputTimezone ?? getActiveBusiness().timezone;
+}
+
+// dayjs.tz() reads a string as wall-clock time in `tz` and ignores any offset, so instants
+// such as "2026-10-20T16:00:00Z" are parsed as-is and then converted.
+function parseInTimezone(value: string, tz: string) {
+  return /(?:z|[+-]\d{2}:?\d{2})$/i.test(value) ? dayjs(value).tz(tz) : dayjs.tz(value, tz);
+}
+
+function resolveTimePreference(input: BookingCheckAvailabilityInput): TimePreference {
+  const time = input.preferredTime?.match(/^(\d{1,2}):(\d{2})$/);
+  if (time && Number(time[1]) <= 23 && Number(time[2]) <= 59) {
+    return { type: "specific", hour: Number(time[1]), minute: Number(time[2]) };
+  }
+  return { type: input.preference ?? "any" };
+}
+
+function resolveService(serviceId: number | undefined) {
+  if (serviceId === undefined || serviceId === null) return null;
+  const service = getServiceById(Number(serviceId));
+  if (!service || !service.is_active) {
+    throw new BookingToolError("booking_error", `Unknown service: ${serviceId}.`);
+  }
+  return service;
+}
+
+function formatDayList(days: string[]) {
+  const labels = days.map((day) => `${day.charAt(0).toUpperCase()}${day.slice(1)}s`);
+  return labels.length > 1
+    ? `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`
+    : labels[0];
+}
+
+/** Drops the weekdays a service isn't offered on from the business schedule. */
+function scheduleForService(
+  schedule: BusinessHoursSchedule,
+  service: BookingService | null
+): BusinessHoursSchedule {
+  const allowedDays = service ? getAllowedDays(service) : null;
+  if (!allowedDays) return schedule;
+  return {
+    ...schedule,
+    weekly: Object.fromEntries(allowedDays.map((day) => [day, schedule.weekly[day] ?? []])),
+  };
+}
+
+/** Counts this business's live bookings of `service` per local YYYY-MM-DD from the ledger. */
+function countServiceBookings(
+  service: BookingService,
+  windowStart: Date,
+  windowEnd: Date,
+  tz: string
+) {
+  const counts = new Map<string, number>();
+  listAppointments({
+    businessId: getActiveBusiness().id,
+    from: windowStart.toISOString(),
+    to: windowEnd.toISOString(),
+  })
+    .filter((appointment) => appointment.service_id === service.id)
+    .forEach((appointment) => {
+      const key = dayjs(appointment.start_iso).tz(tz).format("YYYY-MM-DD");
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+  return counts;
+}
+
+function getServiceRuleViolation(
+  service: BookingService,
+  start: Date,
+  tz: string,
+  options: { countBookings: boolean }
+): string | null {
+  const localStart = dayjs(start).tz(tz);
+  const allowedDays = getAllowedDays(service);
+  if (allowedDays && !allowedDays.includes(WEEKDAYS[localStart.day()])) {
+    return `${service.name} is only booked on ${formatDayList(allowedDays)}.`;
+  }
+
+  if (start.getTime() < Date.now() + service.lead_time_minutes * 60 * 1000) {
+    const hours = Math.round((service.lead_time_minutes / 60) * 10) / 10;
+    return `${service.name} needs at least ${hours} hours' notice.`;
+  }
+
+  if (options.countBookings && service.max_per_day) {
+    const day = localStart.startOf("day");
+    const counts = countServiceBookings(service, day.toDate(), day.endOf("day").toDate(), tz);
+    if ((counts.get(day.format("YYYY-MM-DD")) ?? 0) >= service.max_per_day) {
+      return `${service.name} is fully booked on that day.`;
+    }
+  }
+  return null;
 }
 
-function resolveWindow(dayISO: string | undefined, tz: string) {
+function resolveWindow(dayISO: string | undefined, endDayISO: string | undefined, tz: string) {
   if (dayISO) {
     const day = dayjs.tz(dayISO, tz);
+    const lastDay = endDayISO ? dayjs.tz(endDayISO, tz) : day;
     return {
       windowStart: day.startOf("day").toDate(),
-      windowEnd: day.endOf("day").toDate(),
+      windowEnd: (lastDay.isBefore(day) ? day : lastDay).endOf("day").toDate(),
     };
   }
   const now = dayjs().tz(tz);
@@ -150,28 +340,76 @@ export async function checkAvailability(
 ): Promise<BookingCheckAvailabilityOutput> {
   const dryRun = (process.env.BOOKING_DRY_RUN ?? "").toLowerCase() === "true";
   const timezoneName = resolveTimezone(input.timezone);
-  const durationMinutes = input.durationMinutes ?? env.APPT_DURATION_MINUTES ?? 30;
-  const bufferMinutes = env.APPT_BUFFER_MINUTES ?? 10;
+  const service = resolveService(input.serviceId);
+  const durationMinutes =
+    service?.duration_minutes ?? input.durationMinutes ?? env.APPT_DURATION_MINUTES ?? 30;
+  const bufferMinutes = service?.buffer_minutes ?? env.APPT_BUFFER_MINUTES ?? 10;
+  const maxSlots = Math.min(Math.max(Math.round(input.maxSlots ?? DEFAULT_MAX_SLOTS), 1), 10);
+  const timePreference = resolveTimePreference(input);
+  const schedule = scheduleForService(getBusinessHours(), service);
+  const staffPreference = applyStaffPreference(
+    getBookingCalendars(service?.id),
+    input.staffName
+  );
+  const calendars = staffPreference.calendars;
+  const staffNotes = [
+    staffPreference.unmatched
+      ? `Nobody named ${input.staffName} can take this appointment; showing the rest of the team.`
+      : null,
+    calendars.length ? null : "No staff member currently offers this service.",
+  ].filter(Boolean);
 
-  console.log("📅 availability request", {
+  logger.info("📅 availability request", {
     dayISO: input.dayISO,
+    endDayISO: input.endDayISO,
     timezone: timezoneName,
     window: input.window,
     startISO: input.startISO,
     endISO: input.endISO,
+    serviceId: service?.id,
+    staffName: input.staffName,
+    calendars: calendars.length,
     durationMinutes,
   });
 
   try {
     if (input.startISO) {
-      const start = dayjs.tz(input.startISO, timezoneName);
+      const start = parseInTimezone(input.startISO, timezoneName);
       const end = input.endISO
-        ? dayjs.tz(input.endISO, timezoneName)
+        ? parseInTimezone(input.endISO, timezoneName)
         : start.add(durationMinutes, "minute");
       const windowStart = start.toDate();
       const windowEnd = end.toDate();
+      const serviceViolation = service
+        ? getServiceRuleViolation(service, windowStart, timezoneName, {
+            countBookings: !dryRun,
+          })
+        : null;
+      if (serviceViolation) {
+        logger.info("📅 exact-time rejected by service rules", {
+          serviceId: service?.id,
+          startISO: windowStart.toISOString(),
+          reason: serviceViolation,
+        });
+        return { slots: [], timezone: timezoneName, notes: serviceViolation };
+      }
+      if (!isWithinBusinessHours(windowStart, windowEnd, timezoneName, schedule)) {
+        const closedReason = getClosedReason(start.tz(timezoneName).startOf("day"), schedule);
+        logger.info("📅 exact-time outside business hours", {
+          startISO: windowStart.toISOString(),
+          endISO: windowEnd.toISOString(),
+          closedReason,
+        });
+        return {
+          slots: [],
+          timezone: timezoneName,
+          notes: closedReason
+            ? describeClosedReason(closedReason)
+            : "That time is outside business hours.",
+        };
+      }
       if (dryRun) {
-        console.log("📅 BOOKING_DRY_RUN enabled. Skipping calendar availability check.", {
+        logger.info("📅 BOOKING_DRY_RUN enabled. Skipping calendar availability check.", {
           startISO: windowStart.toISOString(),
           endISO: windowEnd.toISOString(),
         });
@@ -187,21 +425,27 @@ export async function checkAvailability(
         };
       }
 
-      const adapter = getCalendarAdapter();
       const queryStart = start.subtract(bufferMinutes, "minute").toDate();
       const queryEnd = end.add(bufferMinutes, "minute").toDate();
-      const busyIntervals = await adapter.getAvailability(queryStart, queryEnd);
-      const slotFree = !isSlotBusy(windowStart, windowEnd, busyIntervals, bufferMinutes);
+      const freeCalendars: BookingCalendar[] = [];
+      for (const calendar of calendars) {
+        const busyIntervals = await calendar.adapter.getAvailability(queryStart, queryEnd);
+        if (!isIntervalBusy(windowStart, windowEnd, busyIntervals, bufferMinutes)) {
+          freeCalendars.push(calendar);
+        }
+      }
+      const slotFree = freeCalendars.length > 0;
       const slots = slotFree
         ? [
             {
               startISO: windowStart.toISOString(),
               endISO: windowEnd.toISOString(),
+              ...staffField(freeCalendars),
             },
           ]
         : [];
 
-      console.log("📅 exact-time availability", {
+      logger.info("📅 exact-time availability", {
         startISO: windowStart.toISOString(),
         endISO: windowEnd.toISOString(),
         available: slotFree,
@@ -210,67 +454,207 @@ export async function checkAvailability(
       return {
         slots,
         timezone: timezoneName,
+        notes: staffNotes.length ? staffNotes.join(" ") : undefined,
       };
     }
 
-    const { windowStart, windowEnd } = resolveWindow(input.dayISO, timezoneName);
-    const busyIntervals = dryRun
-      ? []
-      : await getCalendarAdapter().getAvailability(windowStart, windowEnd);
-    const slots = findAvailableSlots({
-      busyIntervals,
-      windowStart,
-      windowEnd,
-      durationMinutes,
-      bufferMinutes,
-      timePreference: { type: "any" },
+    const resolvedWindow = resolveWindow(input.dayISO, input.endDayISO, timezoneName);
+    const windowEnd = resolvedWindow.windowEnd;
+    const earliestStart = service
+      ? new Date(Date.now() + service.lead_time_minutes * 60 * 1000)
+      : null;
+    const windowStart =
+      earliestStart && earliestStart > resolvedWindow.windowStart
+        ? earliestStart
+        : resolvedWindow.windowStart;
+
+    // Days where the service already hit max_per_day are treated like closures.
+    const fullDays: string[] = [];
+    if (service?.max_per_day && !dryRun) {
+      const counts = countServiceBookings(service, windowStart, windowEnd, timezoneName);
+      counts.forEach((count, date) => {
+        if (count >= (service.max_per_day ?? Infinity)) fullDays.push(date);
+      });
+    }
+    const slotSchedule = fullDays.length
+      ? {
+          ...schedule,
+          closures: [
+            ...schedule.closures,
+            ...fullDays.map((date) => ({ date, reason: `${service?.name} fully booked` })),
+          ],
+        }
+      : schedule;
+
+    // Availability is the union of openings across the qualified calendars.
+    const calendarBusy = await Promise.all(
+      calendars.map(async (calendar) => ({
+        calendar,
+        busyIntervals:
+          dryRun || windowStart >= windowEnd
+            ? []
+            : await calendar.adapter.getAvailability(windowStart, windowEnd),
+      }))
+    );
+    // Keep the tightest fit when several calendars share the same start time.
+    const candidates = new Map<number, SlotCandidate>();
+    calendarBusy.forEach(({ busyIntervals }) => {
+      findSlotCandidates({
+        busyIntervals,
+        windowStart,
+        windowEnd,
+        durationMinutes,
+        bufferMinutes,
+        timePreference,
+        timezone: timezoneName,
+        schedule: slotSchedule,
+        businessStartHour: input.window?.startHour,
+        businessEndHour: input.window?.endHour,
+      }).forEach((candidate) => {
+        const existing = candidates.get(candidate.start.getTime());
+        if (!existing || candidate.gapMinutes < existing.gapMinutes) {
+          candidates.set(candidate.start.getTime(), candidate);
+        }
+      });
+    });
+    const slots = rankSlots(Array.from(candidates.values()), {
       timezone: timezoneName,
-      businessStartHour: input.window?.startHour,
-      businessEndHour: input.window?.endHour,
+      maxSlots,
+      timePreference,
     });
 
     const outputSlots = slots.map((start) => {
       const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+      const freeCalendars = calendarBusy
+        .filter(({ busyIntervals }) => !isIntervalBusy(start, end, busyIntervals, bufferMinutes))
+        .map(({ calendar }) => calendar);
       return {
         startISO: start.toISOString(),
         endISO: end.toISOString(),
+        ...staffField(freeCalendars),
       };
     });
 
-    console.log("📅 returning", outputSlots.length, "slots");
+    logger.info("📅 returning ranked slots", {
+      count: outputSlots.length,
+      candidates: candidates.size,
+      maxSlots,
+      timePreference: timePreference.type,
+    });
+
+    // Closed-day notes only make sense when a single day was asked for.
+    const singleDay = input.dayISO && (!input.endDayISO || input.endDayISO === input.dayISO);
+    const requestedDay = singleDay
+      ? dayjs.tz(input.dayISO, timezoneName).startOf("day")
+      : null;
+    const closedReason = requestedDay ? getClosedReason(requestedDay, getBusinessHours()) : null;
+    const serviceDayNote =
+      service && requestedDay && !closedReason
+        ? fullDays.includes(requestedDay.format("YYYY-MM-DD"))
+          ? `${service.name} is fully booked on that day.`
+          : getClosedReason(requestedDay, schedule)
+            ? `${service.name} is only booked on ${formatDayList(getAllowedDays(service) ?? [])}.`
+            : null
+        : null;
+    const notes = [
+      ...staffNotes,
+      closedReason ? describeClosedReason(closedReason) : serviceDayNote,
+      dryRun ? "Booking dry run enabled; availability not checked against calendar." : null,
+    ].filter(Boolean);
 
     return {
       slots: outputSlots,
       timezone: timezoneName,
-      notes: dryRun
-        ? "Booking dry run enabled; availability not checked against calendar."
-        : undefined,
+      notes: notes.length ? notes.join(" ") : undefined,
     };
   } catch (error) {
     if (isBookingConfigError(error)) {
       throw new BookingToolError(
         "booking_not_configured",
-        "Google Calendar authentication failed."
+        "Calendar authentication failed."
       );
     }
     throw new BookingToolError("booking_error", "Unable to check availability.");
   }
 }
 
-function isSlotBusy(
-  start: Date,
-  end: Date,
-  busyIntervals: { start: Date; end: Date }[],
-  bufferMinutes: number
-) {
-  const bufferMs = bufferMinutes * 60 * 1000;
-  const slotStart = start.getTime();
-  const slotEnd = end.getTime();
-  return busyIntervals.some((interval) => {
-    const busyStart = interval.start.getTime() - bufferMs;
-    const busyEnd = interval.end.getTime() + bufferMs;
-    return slotStart < busyEnd && slotEnd > busyStart;
+function describeTimeRange(time: TimeRange) {
+  const clock = (minute: number) =>
+    dayjs.utc("2000-01-01").add(minute, "minute").format(minute % 60 ? "h:mm A" : "h A");
+  if (time.preference === "earliest") return `first thing (before ${clock(time.endMinute)})`;
+  if (time.preference === "latest") return `late in the day (after ${clock(time.startMinute)})`;
+  if (time.startMinute === time.endMinute) return `at ${clock(time.startMinute)}`;
+  if (time.startMinute === 0) return `before ${clock(time.endMinute)}`;
+  if (time.endMinute >= 24 * 60) return `after ${clock(time.startMinute)}`;
+  return `between ${clock(time.startMinute)} and ${clock(time.endMinute)}`;
+}
+
+/**
+ * Turns what the caller said ("next Tuesday after 3", "end of the month, mornings") into
+ * concrete check-availability arguments in the business timezone.
+ */
+export function normalizeBookingRequest(
+  input: BookingNormalizeRequestInput
+): BookingNormalizeRequestOutput {
+  const timezoneName = resolveTimezone(input.timezone);
+  const parsed = parseBookingRequest(input.text ?? "", timezoneName);
+  if (!parsed.startISO || !parsed.endISO) {
+    return { matched: false, timezone: timezoneName };
+  }
+
+  const start = dayjs(parsed.startISO).tz(timezoneName);
+  const dayISO = parsed.date?.startDate ?? start.format("YYYY-MM-DD");
+  const endDayISO = parsed.date?.endDate ?? dayISO;
+  const days =
+    endDayISO === dayISO
+      ? start.format("dddd, MMMM D")
+      : `${start.format("dddd, MMMM D")} through ${dayjs.tz(endDayISO, timezoneName).format("dddd, MMMM D")}`;
+  const time = parsed.time;
+  const exact = time && time.startMinute === time.endMinute && endDayISO === dayISO;
+
+  const window: AvailabilityWindow = {};
+  if (time && !exact && time.startMinute > 0) window.startHour = Math.floor(time.startMinute / 60);
+  if (time && !exact && time.endMinute < 24 * 60) window.endHour = Math.ceil(time.endMinute / 60);
+
+  logger.info("📅 normalized booking request", {
+    text: input.text,
+    date: parsed.date,
+    time: parsed.time,
   });
+
+  return {
+    matched: true,
+    timezone: timezoneName,
+    description: time ? `${days} ${describeTimeRange(time)}` : days,
+    availability: exact
+      ? { startISO: parsed.startISO }
+      : {
+          dayISO,
+          ...(endDayISO !== dayISO ? { endDayISO } : {}),
+          ...(Object.keys(window).length ? { window } : {}),
+          ...(time?.preference ? { preference: time.preference } : {}),
+        },
+    ...(time?.preference ? { preference: time.preference } : {}),
+    rangeStartISO: parsed.startISO,
+    rangeEndISO: parsed.endISO,
+  };
+}
+
+// The ledger is a record of what we booked; the calendar stays the source of truth, so a
+// failed ledger write is logged rather than failing the booking.
+function writeLedger(action: string, write: () => void) {
+  try {
+    write();
+  } catch (error) {
+    logger.warn(`⚠️ appointment ledger ${action} failed`, error);
+  }
+}
+
+function staffField(calendars: BookingCalendar[]) {
+  const names = calendars
+    .map((calendar) => calendar.staff?.name)
+    .filter((name): name is string => Boolean(name));
+  return names.length ? { staff: names } : {};
 }
 
 export async function createAppointment(
@@ -278,20 +662,27 @@ export async function createAppointment(
 ): Promise<BookingCreateAppointmentOutput> {
   const dryRun = (process.env.BOOKING_DRY_RUN ?? "").toLowerCase() === "true";
   const timezoneName = resolveTimezone(input.timezone);
+  const service = resolveService(input.serviceId);
   const start = new Date(input.startISO);
-  const end = new Date(input.endISO);
-  const title = `Call Booking – ${input.name}`;
+  const end = service
+    ? new Date(start.getTime() + service.duration_minutes * 60 * 1000)
+    : new Date(input.endISO);
+  const title = service
+    ? `Call Booking – ${input.name} (${service.name})`
+    : `Call Booking – ${input.name}`;
   const summary = `Caller requested: ${input.reason}.`;
   const description = [
     `Name: ${input.name}`,
     `Phone: ${input.phone ?? "unknown"}`,
     `Reason: ${input.reason}`,
+    service ? serviceDescriptionLine(service) : null,
     `Summary: ${summary}`,
-  ].join("\n");
+  ];
 
-  console.log(`📅 create event (dryRun=${dryRun})`, {
+  logger.info(`📅 create event (dryRun=${dryRun})`, {
     startISO: start.toISOString(),
     endISO: end.toISOString(),
+    serviceId: service?.id,
   });
 
   if (dryRun) {
@@ -299,6 +690,7 @@ export async function createAppointment(
       dryRun: true,
       created: false,
       summary,
+      service: service?.name,
       startISO: start.toISOString(),
       endISO: end.toISOString(),
       timezone: timezoneName,
@@ -306,10 +698,48 @@ export async function createAppointment(
   }
 
   try {
-    const adapter = getCalendarAdapter();
-    const result = await adapter.createEvent(start, end, {
+    if (service) {
+      const violation = getServiceRuleViolation(service, start, timezoneName, {
+        countBookings: true,
+      });
+      if (violation) {
+        throw new BookingToolError("booking_error", violation);
+      }
+    }
+
+    const staffPreference = applyStaffPreference(
+      getBookingCalendars(service?.id),
+      input.staffName
+    );
+    if (staffPreference.unmatched) {
+      throw new BookingToolError(
+        "booking_error",
+        `Nobody named ${input.staffName} can take this appointment.`
+      );
+    }
+    const bufferMinutes = service?.buffer_minutes ?? env.APPT_BUFFER_MINUTES ?? 10;
+    const calendar = await pickCalendarForSlot(
+      staffPreference.calendars,
+      start,
+      end,
+      bufferMinutes
+    );
+    if (!calendar) {
+      throw new BookingToolError(
+        "booking_error",
+        staffPreference.preferred
+          ? `${staffPreference.preferred.name} isn't free at that time.`
+          : "No staff member is free at that time."
+      );
+    }
+    const staff = calendar.staff;
+    if (staff) {
+      description.splice(description.length - 1, 0, `Staff: ${staff.name}`);
+    }
+
+    const result = await calendar.adapter.createEvent(start, end, {
       title,
-      description,
+      description: description.filter(Boolean).join("\n"),
       location: "Phone call",
       timezone: timezoneName,
       idempotencySource: input.idempotencySource,
@@ -318,7 +748,7 @@ export async function createAppointment(
 
     const created = Boolean(result?.eventId);
     if (!created) {
-      console.log("📅 event creation unconfirmed; missing event id", {
+      logger.warn("📅 event creation unconfirmed; missing event id", {
         startISO: start.toISOString(),
         endISO: end.toISOString(),
       });
@@ -328,7 +758,25 @@ export async function createAppointment(
       );
     }
 
-    console.log("📅 event created", { eventId: result?.eventId });
+    logger.info("📅 event created", { eventId: result?.eventId, staffId: staff?.id });
+    if (staff) {
+      markStaffAssigned(staff.id);
+    }
+    writeLedger("create", () =>
+      recordAppointment({
+        business_id: getActiveBusiness().id,
+        event_id: result.eventId,
+        staff_id: staff?.id ?? null,
+        service_id: service?.id ?? null,
+        caller_phone: input.phone ?? null,
+        caller_name: input.name,
+        reason: input.reason,
+        call_sid: input.callSid ?? null,
+        start_iso: start.toISOString(),
+        end_iso: end.toISOString(),
+        timezone: timezoneName,
+      })
+    );
 
     return {
       dryRun: false,
@@ -336,6 +784,8 @@ export async function createAppointment(
       eventId: result?.eventId,
       htmlLink: result?.htmlLink,
       summary,
+      service: service?.name,
+      staff: staff ? { id: staff.id, name: staff.name } : undefined,
       startISO: start.toISOString(),
       endISO: end.toISOString(),
       timezone: timezoneName,
@@ -347,72 +797,178 @@ export async function createAppointment(
     if (isBookingConfigError(error)) {
       throw new BookingToolError(
         "booking_not_configured",
-        "Google Calendar authentication failed."
+        "Calendar authentication failed."
       );
     }
     throw new BookingToolError("booking_error", "Unable to create appointment.");
   }
 }
 
+/** Caller name as written on create ("Name: ..." line), falling back to the event title. */
+function eventCallerName(event: { summary?: string; description?: string }) {
+  const nameLine = event.description?.match(/^Name:\s*(.+)$/m)?.[1];
+  if (nameLine) return nameLine.trim();
+  return (event.summary ?? "").replace(/^Call Booking\s*[–-]\s*/, "").replace(/\s*\(.*\)$/, "");
+}
+
 export async function findAppointment(
   input: BookingFindAppointmentInput
 ): Promise<BookingFindAppointmentOutput> {
   const timezoneName = resolveTimezone(input.timezone);
   const windowStart = dayjs().tz(timezoneName).toDate();
   const windowEnd = dayjs().tz(timezoneName).add(input.daysAhead ?? 30, "day").toDate();
+  const atRequestedTime = (startISO: string) =>
+    !input.startISO ||
+    parseInTimezone(startISO, timezoneName).isSame(
+      parseInTimezone(input.startISO, timezoneName),
+      "minute"
+    );
+  const phoneKey = toPhoneKey(input.phone);
+
+  if (phoneKey) {
+    try {
+      const staffNames = new Map(
+        listStaff({ includeInactive: true }).map((member) => [member.id, member.name])
+      );
+      const ledgerMatches = findAppointmentsByPhone(input.phone, {
+        businessId: getActiveBusiness().id,
+        from: windowStart.toISOString(),
+        to: windowEnd.toISOString(),
+      }).filter((record) => atRequestedTime(record.start_iso));
+      if (ledgerMatches.length) {
+        logger.info("📅 appointment ledger matches by phone", { count: ledgerMatches.length });
+        return {
+          matches: ledgerMatches.map((record) => ({
+            eventId: record.event_id,
+            ...(record.staff_id
+              ? { staffId: record.staff_id, staffName: staffNames.get(record.staff_id) }
+              : {}),
+            summary: `Call Booking – ${record.caller_name}`,
+            description: `Reason: ${record.reason}`,
+            startISO: record.start_iso,
+            endISO: record.end_iso,
+            source: "ledger" as const,
+            matchedBy: "phone" as const,
+          })),
+          timezone: timezoneName,
+        };
+      }
+    } catch (error) {
+      logger.warn("⚠️ appointment ledger lookup failed; scanning calendars", error);
+    }
+  }
 
   try {
-    const adapter = getCalendarAdapter();
-    const events = await adapter.listEvents(windowStart, windowEnd);
+    // Each staff member's calendar is searched; event ids are only unique per calendar.
+    const calendars = getBookingCalendars();
+    const events = (
+      await Promise.all(
+        calendars.map(async (calendar) =>
+          (await calendar.adapter.listEvents(windowStart, windowEnd)).map((event) => ({
+            ...event,
+            staff: calendar.staff,
+          }))
+        )
+      )
+    )
+      .flat()
+      .filter((event) => atRequestedTime(event.startISO))
+      .sort((a, b) => a.startISO.localeCompare(b.startISO));
 
-    let matches = events;
-    if (input.startISO) {
-      const target = dayjs.tz(input.startISO, timezoneName);
-      matches = matches.filter((event) => {
-        const eventStart = dayjs.tz(event.startISO, timezoneName);
-        return eventStart.isSame(target, "minute");
-      });
+    // Strongest signal first: the caller's number (bookings made before the ledger existed
+    // still carry "Phone: ..." in their description), then the name as said, then a fuzzy
+    // name match for transcription slips like "Jon Smyth" for "John Smith".
+    let matches: typeof events = [];
+    let matchedBy: BookingEventMatch["matchedBy"] = "time";
+    if (phoneKey) {
+      matches = events.filter((event) =>
+        (event.description ?? "").replace(/\D/g, "").includes(phoneKey)
+      );
+      matchedBy = "phone";
     }
-
-    if (input.name) {
+    if (!matches.length && input.name) {
       const needle = input.name.toLowerCase();
-      matches = matches.filter((event) => {
-        const summary = event.summary?.toLowerCase() ?? "";
-        const description = event.description?.toLowerCase() ?? "";
-        return summary.includes(needle) || description.includes(needle);
-      });
+      matches = events.filter((event) =>
+        `${event.summary ?? ""}\n${event.description ?? ""}`.toLowerCase().includes(needle)
+      );
+      matchedBy = "name";
+      if (!matches.length) {
+        matches = events
+          .map((event) => ({ event, score: scoreNameMatch(input.name!, eventCallerName(event)) }))
+          .filter((item) => item.score >= FUZZY_NAME_THRESHOLD)
+          .sort((a, b) => b.score - a.score)
+          .map((item) => item.event);
+        matchedBy = "fuzzy_name";
+      }
+    }
+    // Only a requested time on its own justifies listing whoever is booked then.
+    if (!matches.length && !input.name && input.startISO) {
+      matches = events;
+      matchedBy = "time";
     }
 
+    logger.info("📅 calendar appointment matches", { count: matches.length, matchedBy });
     return {
       matches: matches.map((event) => ({
         eventId: event.id,
+        ...(event.staff ? { staffId: event.staff.id, staffName: event.staff.name } : {}),
         summary: event.summary,
         description: event.description,
         startISO: event.startISO,
         endISO: event.endISO,
+        source: "calendar" as const,
+        matchedBy,
       })),
       timezone: timezoneName,
+      ...(matches.length
+        ? {}
+        : {
+            notes: phoneKey
+              ? "No upcoming appointment under the caller's number. Ask for the name it was booked under or the day and time."
+              : "No matching appointment. Ask for the name it was booked under or the day and time.",
+          }),
     };
   } catch (error) {
     if (isBookingConfigError(error)) {
       throw new BookingToolError(
         "booking_not_configured",
-        "Google Calendar authentication failed."
+        "Calendar authentication failed."
       );
     }
     throw new BookingToolError("booking_error", "Unable to find appointments.");
   }
 }
 
+/** Rejects changes to events the ledger doesn't hold as a live booking under `phone`. */
+function assertBookedUnder(eventId: string, staffId: number | undefined, phone: string) {
+  const record = getAppointmentByEventId(eventId, staffId);
+  const phoneKey = toPhoneKey(phone);
+  if (
+    !record ||
+    !phoneKey ||
+    record.phone_key !== phoneKey ||
+    record.business_id !== getActiveBusiness().id ||
+    record.status === "cancelled"
+  ) {
+    throw new BookingToolError(
+      "booking_error",
+      "No appointment booked under this phone number matches that event."
+    );
+  }
+}
+
 export async function updateAppointment(
   input: BookingUpdateAppointmentInput
 ): Promise<BookingUpdateAppointmentOutput> {
+  if (input.ownerPhone !== undefined) {
+    assertBookedUnder(input.eventId, input.staffId, input.ownerPhone);
+  }
   const timezoneName = resolveTimezone(input.timezone);
   const start = new Date(input.startISO);
   const end = new Date(input.endISO);
 
   try {
-    const adapter = getCalendarAdapter();
+    const adapter = getStaffCalendarAdapter(input.staffId);
     const result = await adapter.updateEvent(input.eventId, {
       start,
       end,
@@ -420,6 +976,14 @@ export async function updateAppointment(
       description: input.description,
       timezone: timezoneName,
     });
+    writeLedger("update", () =>
+      updateAppointmentStatus(input.eventId, input.staffId, {
+        status: "rescheduled",
+        start_iso: start.toISOString(),
+        end_iso: end.toISOString(),
+        call_sid: input.callSid ?? null,
+      })
+    );
 
     return {
       updated: true,
@@ -433,7 +997,7 @@ export async function updateAppointment(
     if (isBookingConfigError(error)) {
       throw new BookingToolError(
         "booking_not_configured",
-        "Google Calendar authentication failed."
+        "Calendar authentication failed."
       );
     }
     throw new BookingToolError("booking_error", "Unable to update appointment.");
@@ -443,9 +1007,18 @@ export async function updateAppointment(
 export async function cancelAppointment(
   input: BookingCancelAppointmentInput
 ): Promise<BookingCancelAppointmentOutput> {
+  if (input.ownerPhone !== undefined) {
+    assertBookedUnder(input.eventId, input.staffId, input.ownerPhone);
+  }
   try {
-    const adapter = getCalendarAdapter();
+    const adapter = getStaffCalendarAdapter(input.staffId);
     await adapter.cancelEvent(input.eventId);
+    writeLedger("cancel", () =>
+      updateAppointmentStatus(input.eventId, input.staffId, {
+        status: "cancelled",
+        call_sid: input.callSid ?? null,
+      })
+    );
     return {
       cancelled: true,
       eventId: input.eventId,
@@ -454,7 +1027,7 @@ export async function cancelAppointment(
     if (isBookingConfigError(error)) {
       throw new BookingToolError(
         "booking_not_configured",
-        "Google Calendar authentication failed."
+        "Calendar authentication failed."
       );
     }
     throw new BookingToolError("booking_error", "Unable to cancel appointment.");
@@ -0,0 +1,208 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import { z } from "zod";
+import { getActiveBusiness } from "../businessContext.js";
+import { logger } from "../../utils/logger.js";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm (24h)");
+
+const intervalSchema = z
+  .object({ start: timeOfDaySchema, end: timeOfDaySchema })
+  .refine((interval) => interval.start < interval.end, "start must be before end");
+
+export const businessHoursSchema = z.object({
+  weekly: z.partialRecord(z.enum(WEEKDAYS), z.array(intervalSchema)),
+  closures: z
+    .array(
+      z.object({
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+        reason: z.string().optional(),
+      })
+    )
+    .default([]),
+  // YYYY-MM-DD for a one-off date, MM-DD for a holiday that repeats every year.
+  holidays: z
+    .array(
+      z.object({
+        date: z.string().regex(/^(\d{4}-)?\d{2}-\d{2}$/),
+        name: z.string(),
+      })
+    )
+    .default([]),
+});
+
+export type BusinessHoursSchedule = z.infer<typeof businessHoursSchema>;
+export type BusinessHoursInterval = { start: string; end: string };
+
+export interface OpenInterval {
+  start: dayjs.Dayjs;
+  end: dayjs.Dayjs;
+}
+
+export type ClosedReason =
+  | { type: "weekly"; weekday: Weekday }
+  | { type: "closure"; date: string; reason?: string }
+  | { type: "holiday"; date: string; name: string };
+
+// Matches the historical 9–5 every-day behaviour when no schedule is configured.
+export const DEFAULT_BUSINESS_HOURS: BusinessHoursSchedule = {
+  weekly: Object.fromEntries(WEEKDAYS.map((day) => [day, [{ start: "09:00", end: "17:00" }]])),
+  closures: [],
+  holidays: [],
+};
+
+// Parsed schedules keyed by their raw JSON ("" for the default schedule), one per business.
+const cachedSchedules = new Map<string, BusinessHoursSchedule>();
+
+export function parseBusinessHours(raw: string): BusinessHoursSchedule {
+  return businessHoursSchema.parse(JSON.parse(raw));
+}
+
+/** The active business's schedule (see businessContext), parsed once per distinct JSON. */
+export function getBusinessHours(): BusinessHoursSchedule {
+  const raw = getActiveBusiness().businessHoursJson ?? "";
+  const cached = cachedSchedules.get(raw);
+  if (cached) return cached;
+  let schedule = DEFAULT_BUSINESS_HOURS;
+  if (raw) {
+    try {
+      schedule = parseBusinessHours(raw);
+    } catch (error) {
+      logger.warn("⚠️ Business hours JSON is invalid; using default hours", error);
+    }
+  }
+  cachedSchedules.set(raw, schedule);
+  return schedule;
+}
+
+function applyTimeOfDay(day: dayjs.Dayjs, value: string) {
+  const [hour, minute] = value.split(":").map(Number);
+  return day.hour(hour).minute(minute).second(0).millisecond(0);
+}
+
+/** Returns why the business is closed on `day` (already in the business timezone), or null if it opens. */
+export function getClosedReason(
+  day: dayjs.Dayjs,
+  schedule: BusinessHoursSchedule = getBusinessHours()
+): ClosedReason | null {
+  const dateKey = day.format("YYYY-MM-DD");
+  const monthDayKey = day.format("MM-DD");
+
+  const closure = schedule.closures.find((item) => item.date === dateKey);
+  if (closure) {
+    return { type: "closure", date: dateKey, reason: closure.reason };
+  }
+
+  const holiday = schedule.holidays.find(
+    (item) => item.date === dateKey || item.date === monthDayKey
+  );
+  if (holiday) {
+    return { type: "holiday", date: dateKey, name: holiday.name };
+  }
+
+  const weekday = WEEKDAYS[day.day()];
+  if (!schedule.weekly[weekday]?.length) {
+    return { type: "weekly", weekday };
+  }
+  return null;
+}
+
+export function getOpenIntervals(
+  day: dayjs.Dayjs,
+  schedule: BusinessHoursSchedule = getBusinessHours()
+): OpenInterval[] {
+  if (getClosedReason(day, schedule)) return [];
+  const weekday = WEEKDAYS[day.day()];
+  return (schedule.weekly[weekday] ?? [])
+    .map((interval) => ({
+      start: applyTimeOfDay(day, interval.start),
+      end: applyTimeOfDay(day, interval.end),
+    }))
+    .sort((a, b) => a.start.valueOf() - b.start.valueOf());
+}
+
+export function isWithinBusinessHours(
+  start: Date,
+  end: Date,
+  timezoneName: string,
+  schedule: BusinessHoursSchedule = getBusinessHours()
+): boolean {
+  const day = dayjs(start).tz(timezoneName).startOf("day");
+  return getOpenIntervals(day, schedule).some(
+    (interval) => start.getTime() >= interval.start.valueOf() && end.getTime() <= interval.end.valueOf()
+  );
+}
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function formatTimeOfDay(value: string) {
+  const [hour, minute] = value.split(":").map(Number);
+  const suffix = hour >= 12 ? "pm" : "am";
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return minute === 0
+    ? `${displayHour}${suffix}`
+    : `${displayHour}:${String(minute).padStart(2, "0")}${suffix}`;
+}
+
+function formatIntervals(intervals: BusinessHoursInterval[]) {
+  return intervals.map((interval) => `${formatTimeOfDay(interval.start)}–${formatTimeOfDay(interval.end)}`).join(" and ");
+}
+
+export function describeClosedReason(reason: ClosedReason): string {
+  if (reason.type === "weekly") return `We're closed on ${capitalize(reason.weekday)}s.`;
+  if (reason.type === "holiday") return `We're closed on ${reason.date} for ${reason.name}.`;
+  return reason.reason
+    ? `We're closed on ${reason.date} (${reason.reason}).`
+    : `We're closed on ${reason.date}.`;
+}
+
+/**
+ * Plain-English summary of the schedule for the receptionist prompt, e.g.
+ * "Monday: 9am–12pm and 1pm–5pm ... Saturday: closed", plus closures and holidays
+ * in the next `lookaheadDays`.
+ */
+export function describeBusinessHours(
+  timezoneName: string,
+  schedule: BusinessHoursSchedule = getBusinessHours(),
+  lookaheadDays = 60
+): string {
+  const weekly = WEEKDAYS.map((weekday) => {
+    const intervals = schedule.weekly[weekday] ?? [];
+    return `- ${capitalize(weekday)}: ${intervals.length ? formatIntervals(intervals) : "closed"}`;
+  });
+
+  const today = dayjs().tz(timezoneName).startOf("day");
+  const upcoming: string[] = [];
+  for (let offset = 0; offset < lookaheadDays; offset += 1) {
+    const day = today.add(offset, "day");
+    const reason = getClosedReason(day, schedule);
+    if (reason && reason.type !== "weekly") {
+      const label = reason.type === "holiday" ? reason.name : reason.reason ?? "closed";
+      upcoming.push(`- ${day.format("dddd, MMMM D")}: closed (${label})`);
+    }
+  }
+
+  return [
+    `Business hours (${timezoneName}):`,
+    ...weekly,
+    ...(upcoming.length ? ["Upcoming closures:", ...upcoming] : []),
+  ].join("\n");
+}
@@ -0,0 +1,59 @@
+/** Scores at or above this count as the same person ("Jon Smyth" vs "John Smith"). */
+export const FUZZY_NAME_THRESHOLD = 0.75;
+
+function tokens(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\s'-]/g, " ")
+    .split(/[\s'-]+/)
+    .filter((token) => token.length > 1);
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// First letter plus consonants, ignoring h/w/y and doubled letters: "Katie"/"Katy" -> "kt",
+// "Sean"/"Shawn" -> "sn". Speech-to-text mostly gets vowels wrong, not consonants.
+function skeleton(token: string) {
+  const rest = token
+    .slice(1)
+    .replace(/[aeiouhwy]/g, "")
+    .replace(/(.)\1+/g, "$1");
+  return `${token[0]}${rest}`;
+}
+
+function tokenSimilarity(a: string, b: string) {
+  if (a === b) return 1;
+  if (skeleton(a) === skeleton(b)) return 0.9;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * How well a transcribed name matches a stored one, from 0 to 1. Each word the caller
+ * said is compared with its closest word in the stored name, so "Maria" still matches
+ * "Maria Lopez" and word order doesn't matter.
+ */
+export function scoreNameMatch(spoken: string, stored: string) {
+  const spokenTokens = tokens(spoken);
+  const storedTokens = tokens(stored);
+  if (!spokenTokens.length || !storedTokens.length) return 0;
+  const total = spokenTokens.reduce(
+    (sum, token) =>
+      sum + Math.max(...storedTokens.map((candidate) => tokenSimilarity(token, candidate))),
+    0
+  );
+  return total / spokenTokens.length;
+}
@@ -0,0 +1,146 @@
+import {
+  findAppointmentsByPhone,
+  updateAppointmentStatus,
+  type AppointmentRecord,
+} from "./appointmentLedger.js";
+import {
+  formatAppointmentTime,
+  getLatestSentReminder,
+  getOfferedSlots,
+  setOfferedSlots,
+  type AppointmentReminder,
+} from "./appointmentReminders.js";
+import { getActiveBusiness } from "../businessContext.js";
+import { cancelAppointment, checkAvailability, updateAppointment } from "./bookingTools.js";
+import { getStaffById } from "./staffDirectory.js";
+import { logger } from "../../utils/logger.js";
+
+export type ReminderReply =
+  | { action: "confirm" }
+  | { action: "reschedule" }
+  | { action: "cancel" }
+  | { action: "choose"; choice: number };
+
+export function parseReminderReply(body: string): ReminderReply | null {
+  const text = body.trim().toLowerCase().replace(/[.!]+$/, "");
+  if (/^(c|confirm|confirmed|yes|y)$/.test(text)) return { action: "confirm" };
+  if (/^(r|reschedule|change)$/.test(text)) return { action: "reschedule" };
+  if (/^(x|cancel)$/.test(text)) return { action: "cancel" };
+  const choice = text.match(/^(?:option )?([1-9])$/);
+  if (choice) return { action: "choose", choice: Number(choice[1]) };
+  return null;
+}
+
+function formatSlot(startISO: string, record: AppointmentRecord) {
+  return formatAppointmentTime({ start_iso: startISO, timezone: record.timezone });
+}
+
+/** The upcoming appointment this number was most recently reminded about. */
+function findRemindedAppointment(phone: string) {
+  const candidates = findAppointmentsByPhone(phone, {
+    businessId: getActiveBusiness().id,
+    from: new Date().toISOString(),
+  })
+    .map((record) => ({ record, reminder: getLatestSentReminder(record) }))
+    .filter((item): item is { record: AppointmentRecord; reminder: AppointmentReminder } =>
+      Boolean(item.reminder)
+    )
+    .sort((a, b) => b.reminder.created_at.localeCompare(a.reminder.created_at));
+  return candidates[0] ?? null;
+}
+
+async function offerNewTimes(record: AppointmentRecord, reminder: AppointmentReminder) {
+  const durationMinutes = Math.round(
+    (Date.parse(record.end_iso) - Date.parse(record.start_iso)) / 60000
+  );
+  const staff = record.staff_id ? getStaffById(record.staff_id) : undefined;
+  try {
+    const availability = await checkAvailability({
+      timezone: record.timezone,
+      durationMinutes,
+      serviceId: record.service_id ?? undefined,
+      staffName: staff?.name,
+      maxSlots: 2,
+    });
+    return availability.slots
+      .filter((slot) => slot.startISO !== record.start_iso)
+      .map((slot) => ({ startISO: slot.startISO, endISO: slot.endISO }));
+  } catch (error) {
+    logger.error("Reminder reschedule availability failed", { reminderId: reminder.id, error });
+    return [];
+  }
+}
+
+/**
+ * Handles a C/R/X (or slot number) reply to a reminder text. Returns the SMS to send
+ * back, or null when the message isn't a reply to a reminder this number was sent.
+ */
+export async function handleReminderReply(from: string, body: string): Promise<string | null> {
+  const reply = parseReminderReply(body ?? "");
+  if (!reply || !from) return null;
+
+  const target = findRemindedAppointment(from);
+  if (!target) return null;
+  const { record, reminder } = target;
+  const when = formatAppointmentTime(record);
+  logger.info("⏰ reminder reply", { appointmentId: record.id, action: reply.action });
+
+  if (reply.action === "confirm") {
+    updateAppointmentStatus(record.event_id, record.staff_id, { status: "confirmed" });
+    return `Thanks, you're confirmed for ${when}. See you then!`;
+  }
+
+  if (reply.action === "cancel") {
+    try {
+      await cancelAppointment({ eventId: record.event_id, staffId: record.staff_id ?? undefined });
+      setOfferedSlots(reminder, null);
+      return `Your appointment on ${when} is cancelled. Call or text us any time to book again.`;
+    } catch (error) {
+      logger.error("Reminder cancel failed", { appointmentId: record.id, error });
+      return "We couldn't cancel that automatically. Please call us and we'll take care of it.";
+    }
+  }
+
+  if (reply.action === "reschedule") {
+    updateAppointmentStatus(record.event_id, record.staff_id, { status: "reschedule_requested" });
+    const slots = await offerNewTimes(record, reminder);
+    setOfferedSlots(reminder, slots);
+    if (!slots.length) {
+      return "We'll find you a new time. Please call us and we'll get you rebooked.";
+    }
+    const options = slots
+      .map((slot, index) => `${index + 1}) ${formatSlot(slot.startISO, record)}`)
+      .join(" or ");
+    return `We can move you to ${options}. Reply with the number you'd like, or call us for another time.`;
+  }
+
+  const slot = getOfferedSlots(reminder)[reply.choice - 1];
+  if (!slot) {
+    return "Reply C to confirm, R to reschedule, or X to cancel your appointment.";
+  }
+  const staff = record.staff_id ? getStaffById(record.staff_id) : undefined;
+  try {
+    const check = await checkAvailability({
+      startISO: slot.startISO,
+      endISO: slot.endISO,
+      timezone: record.timezone,
+      serviceId: record.service_id ?? undefined,
+      staffName: staff?.name,
+    });
+    if (!check.slots.length) {
+      return "Sorry, that time was just taken. Reply R for new options.";
+    }
+    await updateAppointment({
+      eventId: record.event_id,
+      staffId: record.staff_id ?? undefined,
+      startISO: slot.startISO,
+      endISO: slot.endISO,
+      timezone: record.timezone,
+    });
+    setOfferedSlots(reminder, null);
+    return `You're all set for ${formatSlot(slot.startISO, record)}.`;
+  } catch (error) {
+    logger.error("Reminder reschedule failed", { appointmentId: record.id, error });
+    return "We couldn't move that appointment automatically. Please call us and we'll take care of it.";
+  }
+}
@@ -0,0 +1,273 @@
+import { getActiveBusiness } from "../businessContext.js";
+import { getDatabase, type DatabaseHandle } from "../database.js";
+import { WEEKDAYS, type Weekday } from "./businessHours.js";
+import { logger } from "../../utils/logger.js";
+
+export interface BookingService {
+  id: number;
+  // Registered business offering the service; null for the env-configured business.
+  business_id: number | null;
+  name: string;
+  description: string | null;
+  duration_minutes: number;
+  buffer_minutes: number;
+  // JSON array of weekdays; null means any open day.
+  allowed_days: string | null;
+  lead_time_minutes: number;
+  max_per_day: number | null;
+  is_active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BookingServiceInput {
+  name: string;
+  description?: string | null;
+  duration_minutes: number;
+  buffer_minutes?: number;
+  allowed_days?: Weekday[] | null;
+  lead_time_minutes?: number;
+  max_per_day?: number | null;
+}
+
+export type BookingServiceUpdate = Partial<BookingServiceInput> & { is_active?: boolean };
+
+// Every read and write is scoped to one business; ids from another tenant are not found.
+type ServiceStore = {
+  listServices: (
+    businessId: number | null,
+    options: { includeInactive?: boolean }
+  ) => BookingService[];
+  getServiceById: (businessId: number | null, serviceId: number) => BookingService | undefined;
+  createService: (businessId: number | null, input: BookingServiceInput) => BookingService;
+  updateService: (
+    businessId: number | null,
+    serviceId: number,
+    updates: BookingServiceUpdate
+  ) => BookingService | undefined;
+};
+
+let store: ServiceStore | null = null;
+
+function getStore(): ServiceStore {
+  if (!store) {
+    store = initializeStore();
+  }
+  return store;
+}
+
+let serviceDbInitialized = false;
+
+function getDb(): DatabaseHandle {
+  const database = getDatabase();
+  if (!serviceDbInitialized) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS services (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        business_id INTEGER,
+        name TEXT NOT NULL,
+        description TEXT,
+        duration_minutes INTEGER NOT NULL,
+        buffer_minutes INTEGER NOT NULL DEFAULT 0,
+        allowed_days TEXT,
+        lead_time_minutes INTEGER NOT NULL DEFAULT 0,
+        max_per_day INTEGER,
+        is_active INTEGER DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+    // Services from before the catalog was per business stay with the env-configured business.
+    const columns = database.prepare("PRAGMA table_info(services)").all() as { name: string }[];
+    if (!columns.some((column) => column.name === "business_id")) {
+      database.exec("ALTER TABLE services ADD COLUMN business_id INTEGER;");
+    }
+    serviceDbInitialized = true;
+  }
+  return database;
+}
+
+function initializeStore(): ServiceStore {
+  try {
+    return createSqlStore(getDb());
+  } catch (error) {
+    logger.warn(
+      "SQLite driver not available; falling back to an in-memory service catalog. Data will not persist across restarts.",
+      error
+    );
+    return createMemoryStore();
+  }
+}
+
+function serializeDays(days: Weekday[] | null | undefined) {
+  return days && days.length ? JSON.stringify(days) : null;
+}
+
+function createSqlStore(database: DatabaseHandle): ServiceStore {
+  // IS matches NULL too, so the env business (null id) gets its own rows.
+  const getById = (businessId: number | null, serviceId: number) =>
+    database
+      .prepare("SELECT * FROM services WHERE id = ? AND business_id IS ?")
+      .get(serviceId, businessId) as BookingService | undefined;
+
+  return {
+    listServices(businessId, options) {
+      const sql = options.includeInactive
+        ? "SELECT * FROM services WHERE business_id IS ? ORDER BY name ASC"
+        : "SELECT * FROM services WHERE business_id IS ? AND is_active = 1 ORDER BY name ASC";
+      return database.prepare(sql).all(businessId) as BookingService[];
+    },
+    getServiceById(businessId, serviceId) {
+      return getById(businessId, serviceId);
+    },
+    createService(businessId, input) {
+      const now = new Date().toISOString();
+      database
+        .prepare(
+          `INSERT INTO services
+           (business_id, name, description, duration_minutes, buffer_minutes, allowed_days,
+            lead_time_minutes, max_per_day, is_active, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?)`
+        )
+        .run(
+          businessId,
+          input.name,
+          input.description ?? null,
+          input.duration_minutes,
+          input.buffer_minutes ?? 0,
+          serializeDays(input.allowed_days),
+          input.lead_time_minutes ?? 0,
+          input.max_per_day ?? null,
+          now,
+          now
+        );
+      const row = database.prepare("SELECT last_insert_rowid() as id").get() as { id: number };
+      return getById(businessId, row.id) as BookingService;
+    },
+    updateService(businessId, serviceId, updates) {
+      const existing = getById(businessId, serviceId);
+      if (!existing) return;
+      const now = new Date().toISOString();
+      database
+        .prepare(
+          `UPDATE services
+           SET name = ?, description = ?, duration_minutes = ?, buffer_minutes = ?, allowed_days = ?,
+               lead_time_minutes = ?, max_per_day = ?, is_active = ?, updated_at = ?
+           WHERE id = ?`
+        )
+        .run(
+          updates.name ?? existing.name,
+          updates.description !== undefined ? updates.description : existing.description,
+          updates.duration_minutes ?? existing.duration_minutes,
+          updates.buffer_minutes ?? existing.buffer_minutes,
+          updates.allowed_days !== undefined
+            ? serializeDays(updates.allowed_days)
+            : existing.allowed_days,
+          updates.lead_time_minutes ?? existing.lead_time_minutes,
+          updates.max_per_day !== undefined ? updates.max_per_day : existing.max_per_day,
+          updates.is_active !== undefined ? (updates.is_active ? 1 : 0) : existing.is_active,
+          now,
+          serviceId
+        );
+      return getById(businessId, serviceId);
+    },
+  };
+}
+
+function createMemoryStore(): ServiceStore {
+  let nextServiceId = 1;
+  const services = new Map<number, BookingService>();
+
+  return {
+    listServices(businessId, options) {
+      return Array.from(services.values())
+        .filter((service) => service.business_id === businessId)
+        .filter((service) => options.includeInactive || service.is_active === 1)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    getServiceById(businessId, serviceId) {
+      const service = services.get(serviceId);
+      return service?.business_id === businessId ? service : undefined;
+    },
+    createService(businessId, input) {
+      const now = new Date().toISOString();
+      const service: BookingService = {
+        id: nextServiceId++,
+        business_id: businessId,
+        name: input.name,
+        description: input.description ?? null,
+        duration_minutes: input.duration_minutes,
+        buffer_minutes: input.buffer_minutes ?? 0,
+        allowed_days: serializeDays(input.allowed_days),
+        lead_time_minutes: input.lead_time_minutes ?? 0,
+        max_per_day: input.max_per_day ?? null,
+        is_active: 1,
+        created_at: now,
+        updated_at: now,
+      };
+      services.set(service.id, service);
+      return service;
+    },
+    updateService(businessId, serviceId, updates) {
+      const existing = services.get(serviceId);
+      if (!existing || existing.business_id !== businessId) return;
+      const updated: BookingService = {
+        ...existing,
+        name: updates.name ?? existing.name,
+        description: updates.description !== undefined ? updates.description : existing.description,
+        duration_minutes: updates.duration_minutes ?? existing.duration_minutes,
+        buffer_minutes: updates.buffer_minutes ?? existing.buffer_minutes,
+        allowed_days:
+          updates.allowed_days !== undefined
+            ? serializeDays(updates.allowed_days)
+            : existing.allowed_days,
+        lead_time_minutes: updates.lead_time_minutes ?? existing.lead_time_minutes,
+        max_per_day: updates.max_per_day !== undefined ? updates.max_per_day : existing.max_per_day,
+        is_active: updates.is_active !== undefined ? (updates.is_active ? 1 : 0) : existing.is_active,
+        updated_at: new Date().toISOString(),
+      };
+      services.set(serviceId, updated);
+      return updated;
+    },
+  };
+}
+
+export function getAllowedDays(service: BookingService): Weekday[] | null {
+  if (!service.allowed_days) return null;
+  try {
+    const parsed = JSON.parse(service.allowed_days) as string[];
+    const days = WEEKDAYS.filter((day) => parsed.includes(day));
+    return days.length ? days : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Line written into the calendar event description so staff can see what was booked. */
+export function serviceDescriptionLine(service: BookingService) {
+  return `Service: ${service.name} (#${service.id})`;
+}
+
+/** Services of the active business. */
+export function listServices(options: { includeInactive?: boolean } = {}): BookingService[] {
+  return getStore().listServices(getActiveBusiness().id, options);
+}
+
+export function getServiceById(serviceId: number): BookingService | undefined {
+  return getStore().getServiceById(getActiveBusiness().id, serviceId);
+}
+
+export function createService(input: BookingServiceInput): BookingService {
+  return getStore().createService(getActiveBusiness().id, input);
+}
+
+export function updateService(
+  serviceId: number,
+  updates: BookingServiceUpdate
+): BookingService | undefined {
+  return getStore().updateService(getActiveBusiness().id, serviceId, updates);
+}
+
+export function deactivateService(serviceId: number): BookingService | undefined {
+  return updateService(serviceId, { is_active: false });
+}
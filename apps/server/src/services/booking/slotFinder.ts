@@ -2,14 +2,22 @@ import dayjs from "dayjs";
 import utc from "dayjs/plugin/utc.js";
 import timezone from "dayjs/plugin/timezone.js";
 import type { BusyInterval } from "../calendar/CalendarAdapter.js";
+import { getOpenIntervals, type BusinessHoursSchedule } from "./businessHours.js";
+import { computeGapMinutes, type SlotCandidate } from "./slotRanker.js";
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
 
+/**
+ * Morning and afternoon narrow the open hours; a specific time, "earliest" (first thing)
+ * and "latest" (end of the day) only change how the options are ranked.
+ */
 export type TimePreference =
   | { type: "morning" }
   | { type: "afternoon" }
   | { type: "specific"; hour: number; minute: number }
+  | { type: "earliest" }
+  | { type: "latest" }
   | { type: "any" };
 
 export interface SlotFinderInput {
@@ -20,13 +28,16 @@ export interface SlotFinderInput {
   bufferMinutes: number;
   timePreference: TimePreference;
   timezone: string;
+  schedule?: BusinessHoursSchedule;
+  /** Optional caller-requested window; narrows (never widens) the schedule's open hours. */
   businessStartHour?: number;
   businessEndHour?: number;
 }
 
-export function findAvailableSlots(input: SlotFinderInput): Date[] {
-  const businessStartHour = input.businessStartHour ?? 9;
-  const businessEndHour = input.businessEndHour ?? 17;
+export const DEFAULT_MAX_SLOTS = 2;
+
+/** Every open slot in the window, stepping 15 minutes through each open interval. */
+export function findSlotCandidates(input: SlotFinderInput): SlotCandidate[] {
   const durationMs = input.durationMinutes * 60 * 1000;
   const bufferMs = input.bufferMinutes * 60 * 1000;
 
@@ -35,60 +46,80 @@ export function findAvailableSlots(input: SlotFinderInput): Date[] {
     end: interval.end.getTime() + bufferMs,
   }));
 
-  const slots: Date[] = [];
+  const candidates: SlotCandidate[] = [];
   const startDay = dayjs(input.windowStart).tz(input.timezone).startOf("day");
   const endDay = dayjs(input.windowEnd).tz(input.timezone).startOf("day");
+  const windowStart = dayjs(input.windowStart).tz(input.timezone);
+  const windowEnd = dayjs(input.windowEnd).tz(input.timezone);
 
   for (let day = startDay; day.isBefore(endDay) || day.isSame(endDay, "day"); day = day.add(1, "day")) {
-    let dayStart = day.hour(businessStartHour).minute(0).second(0).millisecond(0);
-    let dayEnd = day.hour(businessEndHour).minute(0).second(0).millisecond(0);
+    const openIntervals = getOpenIntervals(day, input.schedule)
+      .map((interval) => narrowInterval(day, interval, input, windowStart, windowEnd))
+      .filter((interval) => interval.end.diff(interval.start, "minute") >= input.durationMinutes);
 
-    if (input.timePreference.type === "morning") {
-      dayEnd = day.hour(12).minute(0).second(0).millisecond(0);
-    }
-    if (input.timePreference.type === "afternoon") {
-      dayStart = day.hour(12).minute(0).second(0).millisecond(0);
+    for (const interval of openIntervals) {
+      const bounds = { start: interval.start.valueOf(), end: interval.end.valueOf() };
+      for (
+        let cursor = interval.start;
+        cursor.valueOf() + durationMs <= interval.end.valueOf();
+        cursor = cursor.add(15, "minute")
+      ) {
+        if (!isSlotBusy(cursor.toDate(), durationMs, expandedBusy)) {
+          const start = cursor.valueOf();
+          candidates.push({
+            start: cursor.toDate(),
+            end: new Date(start + durationMs),
+            gapMinutes: computeGapMinutes(
+              start,
+              start + durationMs,
+              input.durationMinutes,
+              bounds,
+              expandedBusy
+            ),
+          });
+        }
+      }
     }
+  }
 
-    const windowStart = dayjs(input.windowStart).tz(input.timezone);
-    const windowEnd = dayjs(input.windowEnd).tz(input.timezone);
-    if (dayStart.isBefore(windowStart) && day.isSame(windowStart, "day")) {
-      dayStart = windowStart;
-    }
-    if (dayEnd.isAfter(windowEnd) && day.isSame(windowEnd, "day")) {
-      dayEnd = windowEnd;
-    }
+  return candidates;
+}
 
-    if (dayEnd.diff(dayStart, "minute") < input.durationMinutes) {
-      continue;
-    }
+function narrowInterval(
+  day: dayjs.Dayjs,
+  interval: { start: dayjs.Dayjs; end: dayjs.Dayjs },
+  input: SlotFinderInput,
+  windowStart: dayjs.Dayjs,
+  windowEnd: dayjs.Dayjs
+) {
+  let start = interval.start;
+  let end = interval.end;
+  const atHour = (hour: number) => day.hour(hour).minute(0).second(0).millisecond(0);
 
-    if (input.timePreference.type === "specific") {
-      const specificStart = day
-        .hour(input.timePreference.hour)
-        .minute(input.timePreference.minute)
-        .second(0)
-        .millisecond(0);
-      if (specificStart.isBefore(dayStart) || specificStart.add(durationMs, "millisecond").isAfter(dayEnd)) {
-        continue;
-      }
-      if (!isSlotBusy(specificStart.toDate(), durationMs, expandedBusy)) {
-        slots.push(specificStart.toDate());
-      }
-      return slots;
-    }
-
-    for (let cursor = dayStart; cursor.valueOf() + durationMs <= dayEnd.valueOf(); cursor = cursor.add(15, "minute")) {
-      if (!isSlotBusy(cursor.toDate(), durationMs, expandedBusy)) {
-        slots.push(cursor.toDate());
-        if (slots.length >= 2) {
-          return slots;
-        }
-      }
+  if (input.businessStartHour !== undefined && start.isBefore(atHour(input.businessStartHour))) {
+    start = atHour(input.businessStartHour);
+  }
+  if (input.businessEndHour !== undefined && end.isAfter(atHour(input.businessEndHour))) {
+    end = atHour(input.businessEndHour);
+  }
+  if (input.timePreference.type === "morning" && end.isAfter(atHour(12))) {
+    end = atHour(12);
+  }
+  if (input.timePreference.type === "afternoon" && start.isBefore(atHour(12))) {
+    start = atHour(12);
+  }
+  if (start.isBefore(windowStart)) {
+    // Keep offers on the quarter hour when the window starts "now".
+    const remainder = windowStart.minute() % 15;
+    start = windowStart.second(0).millisecond(0);
+    if (remainder || windowStart.second() || windowStart.millisecond()) {
+      start = start.add(15 - remainder, "minute");
     }
   }
-
-  return slots;
+  if (end.isAfter(windowEnd)) {
+    end = windowEnd;
+  }
+  return { start, end };
 }
 
 function isSlotBusy(start: Date, durationMs: number, expandedBusy: { start: number; end: number }[]) {
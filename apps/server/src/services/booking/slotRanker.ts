@@ -0,0 +1,144 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import type { TimePreference } from "./slotFinder.js";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export interface SlotCandidate {
+  start: Date;
+  end: Date;
+  /**
+   * Idle minutes the booking would leave on its tighter side (next to an existing
+   * booking or the edge of open hours), plus any leftover fragment too short to book.
+   */
+  gapMinutes: number;
+}
+
+export interface RankSlotsOptions {
+  timezone: string;
+  maxSlots: number;
+  timePreference: TimePreference;
+}
+
+type DayPart = "morning" | "afternoon" | "evening";
+
+// Options closer together than this feel like the same choice to a caller.
+const MIN_SEPARATION_MINUTES = 60;
+const GAP_CAP_MINUTES = 120;
+const DAY_WEIGHT = 0.75;
+const SAME_DAY_PENALTY = 3;
+const SAME_DAY_PART_PENALTY = 1.5;
+const SAME_PART_PENALTY = 1.25;
+
+function dayPart(local: dayjs.Dayjs): DayPart {
+  if (local.hour() < 12) return "morning";
+  if (local.hour() < 17) return "afternoon";
+  return "evening";
+}
+
+export function computeGapMinutes(
+  start: number,
+  end: number,
+  durationMinutes: number,
+  interval: { start: number; end: number },
+  busy: { start: number; end: number }[]
+): number {
+  let previousEdge = interval.start;
+  let nextEdge = interval.end;
+  busy.forEach((item) => {
+    if (item.end <= start && item.end > previousEdge) previousEdge = item.end;
+    if (item.start >= end && item.start < nextEdge) nextEdge = item.start;
+  });
+
+  const before = Math.max(0, (start - previousEdge) / 60000);
+  const after = Math.max(0, (nextEdge - end) / 60000);
+  const fragment = (gap: number) => (gap > 0 && gap < durationMinutes ? gap : 0);
+  return Math.min(before, after) + fragment(before) + fragment(after);
+}
+
+/**
+ * Picks up to `maxSlots` options from every open candidate: slots that pack tightly
+ * against existing bookings and sooner days score better, while each pick makes other
+ * options on the same day or part of the day less attractive, so callers hear a spread
+ * such as "Tuesday morning or Wednesday afternoon". A specific time, "earliest" or "latest"
+ * preference pulls each day's options toward that time. Results are in chronological order.
+ */
+export function rankSlots(candidates: SlotCandidate[], options: RankSlotsOptions): Date[] {
+  if (!candidates.length || options.maxSlots <= 0) return [];
+
+  const entries = candidates
+    .map((candidate) => {
+      const local = dayjs(candidate.start).tz(options.timezone);
+      return { candidate, local, dayKey: local.format("YYYY-MM-DD"), part: dayPart(local) };
+    })
+    .sort((a, b) => a.candidate.start.getTime() - b.candidate.start.getTime());
+  const firstDay = entries[0].local.startOf("day");
+  const minutesOf = (local: dayjs.Dayjs) => local.hour() * 60 + local.minute();
+  // First and last open start per day, the targets for "earliest" and "latest".
+  const dayEdges = new Map<string, { first: number; last: number }>();
+  entries.forEach((entry) => {
+    const minutes = minutesOf(entry.local);
+    const edges = dayEdges.get(entry.dayKey);
+    dayEdges.set(entry.dayKey, {
+      first: Math.min(edges?.first ?? minutes, minutes),
+      last: Math.max(edges?.last ?? minutes, minutes),
+    });
+  });
+
+  const targetMinutes = (entry: (typeof entries)[number]) => {
+    const preference = options.timePreference;
+    if (preference.type === "specific") return preference.hour * 60 + preference.minute;
+    if (preference.type === "earliest") return dayEdges.get(entry.dayKey)?.first;
+    if (preference.type === "latest") return dayEdges.get(entry.dayKey)?.last;
+    return undefined;
+  };
+
+  const baseScore = (entry: (typeof entries)[number]) => {
+    let score =
+      Math.min(entry.candidate.gapMinutes, GAP_CAP_MINUTES) / 30 +
+      entry.local.startOf("day").diff(firstDay, "day") * DAY_WEIGHT;
+    const target = targetMinutes(entry);
+    if (target !== undefined) {
+      score += Math.abs(minutesOf(entry.local) - target) / 15;
+    }
+    return score;
+  };
+
+  const picked: typeof entries = [];
+  const separationMs = MIN_SEPARATION_MINUTES * 60 * 1000;
+  for (const requireSeparation of [true, false]) {
+    while (picked.length < options.maxSlots) {
+      let best: { entry: (typeof entries)[number]; score: number } | null = null;
+      for (const entry of entries) {
+        const start = entry.candidate.start.getTime();
+        const tooClose = picked.some((item) => {
+          const distance = Math.abs(item.candidate.start.getTime() - start);
+          return distance === 0 || (requireSeparation && distance < separationMs);
+        });
+        if (tooClose) continue;
+
+        const sameDay = picked.filter((item) => item.dayKey === entry.dayKey).length;
+        const samePart = picked.filter((item) => item.part === entry.part).length;
+        const sameDayPart = picked.filter(
+          (item) => item.dayKey === entry.dayKey && item.part === entry.part
+        ).length;
+        const score =
+          baseScore(entry) +
+          sameDay * SAME_DAY_PENALTY +
+          samePart * SAME_PART_PENALTY +
+          sameDayPart * SAME_DAY_PART_PENALTY;
+        if (!best || score < best.score) {
+          best = { entry, score };
+        }
+      }
+      if (!best) break;
+      picked.push(best.entry);
+    }
+  }
+
+  return picked
+    .map((entry) => entry.candidate.start)
+    .sort((a, b) => a.getTime() - b.getTime());
+}
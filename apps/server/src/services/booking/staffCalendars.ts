@@ -0,0 +1,102 @@
+import type { BusyInterval, CalendarAdapter } from "../calendar/CalendarAdapter.js";
+import { getCalendarAdapter } from "../calendar/index.js";
+import {
+  findStaffByName,
+  getStaffById,
+  listQualifiedStaff,
+  listStaff,
+  orderByRoundRobin,
+  type StaffMember,
+} from "./staffDirectory.js";
+
+/** A calendar bookings can land on; `staff` is null for the single shared calendar. */
+export interface BookingCalendar {
+  staff: StaffMember | null;
+  adapter: CalendarAdapter;
+}
+
+function toBookingCalendar(member: StaffMember): BookingCalendar {
+  return { staff: member, adapter: getCalendarAdapter({ calendarId: member.calendar_id }) };
+}
+
+/**
+ * Calendars to search for a booking. Without any staff configured this is the provider's
+ * default calendar, so single-calendar shops behave exactly as before.
+ */
+export function getBookingCalendars(serviceId?: number | null): BookingCalendar[] {
+  if (!listStaff().length) {
+    return [{ staff: null, adapter: getCalendarAdapter() }];
+  }
+  return listQualifiedStaff(serviceId).map(toBookingCalendar);
+}
+
+/** Adapter for reading or changing an existing event, given the staff id reported by find_event. */
+export function getStaffCalendarAdapter(staffId?: number | null): CalendarAdapter {
+  const member = staffId ? getStaffById(staffId) : undefined;
+  return member ? getCalendarAdapter({ calendarId: member.calendar_id }) : getCalendarAdapter();
+}
+
+/** Narrows calendars to the caller's preferred person; `preferred` is null when no one matched. */
+export function applyStaffPreference(calendars: BookingCalendar[], staffName?: string) {
+  if (!staffName || calendars.every((calendar) => !calendar.staff)) {
+    return { calendars, preferred: null, unmatched: false };
+  }
+  const members = calendars
+    .map((calendar) => calendar.staff)
+    .filter((member): member is StaffMember => Boolean(member));
+  const preferred = findStaffByName(staffName, members) ?? null;
+  if (!preferred) {
+    return { calendars, preferred: null, unmatched: true };
+  }
+  return {
+    calendars: calendars.filter((calendar) => calendar.staff?.id === preferred.id),
+    preferred,
+    unmatched: false,
+  };
+}
+
+export function isIntervalBusy(
+  start: Date,
+  end: Date,
+  busyIntervals: BusyInterval[],
+  bufferMinutes: number
+) {
+  const bufferMs = bufferMinutes * 60 * 1000;
+  const slotStart = start.getTime();
+  const slotEnd = end.getTime();
+  return busyIntervals.some((interval) => {
+    const busyStart = interval.start.getTime() - bufferMs;
+    const busyEnd = interval.end.getTime() + bufferMs;
+    return slotStart < busyEnd && slotEnd > busyStart;
+  });
+}
+
+/**
+ * Picks the calendar to book [start, end) on: the first free one in round-robin order
+ * (least recently assigned staff first). Returns null when everyone is busy.
+ */
+export async function pickCalendarForSlot(
+  calendars: BookingCalendar[],
+  start: Date,
+  end: Date,
+  bufferMinutes: number
+): Promise<BookingCalendar | null> {
+  const staffed = calendars.filter((calendar) => calendar.staff);
+  if (!staffed.length) {
+    return calendars[0] ?? null;
+  }
+
+  const ordered = orderByRoundRobin(staffed.map((calendar) => calendar.staff as StaffMember));
+  const bufferMs = bufferMinutes * 60 * 1000;
+  for (const member of ordered) {
+    const calendar = staffed.find((item) => item.staff?.id === member.id) as BookingCalendar;
+    const busy = await calendar.adapter.getAvailability(
+      new Date(start.getTime() - bufferMs),
+      new Date(end.getTime() + bufferMs)
+    );
+    if (!isIntervalBusy(start, end, busy, bufferMinutes)) {
+      return calendar;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,278 @@
+import { getActiveBusiness } from "../businessContext.js";
+import { getDatabase, type DatabaseHandle } from "../database.js";
+import { logger } from "../../utils/logger.js";
+
+export interface StaffMember {
+  id: number;
+  // Registered business this person works for; null for the env-configured business.
+  business_id: number | null;
+  name: string;
+  calendar_id: string;
+  // JSON array of service ids this person can perform; null means every service.
+  service_ids: string | null;
+  is_active: number;
+  last_assigned_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StaffMemberInput {
+  name: string;
+  calendar_id: string;
+  service_ids?: number[] | null;
+}
+
+export type StaffMemberUpdate = Partial<StaffMemberInput> & { is_active?: boolean };
+
+// Every read and write is scoped to one business; ids from another tenant are not found.
+type StaffStore = {
+  listStaff: (businessId: number | null, options: { includeInactive?: boolean }) => StaffMember[];
+  getStaffById: (businessId: number | null, staffId: number) => StaffMember | undefined;
+  createStaff: (businessId: number | null, input: StaffMemberInput) => StaffMember;
+  updateStaff: (
+    businessId: number | null,
+    staffId: number,
+    updates: StaffMemberUpdate
+  ) => StaffMember | undefined;
+  markStaffAssigned: (staffId: number) => void;
+};
+
+let store: StaffStore | null = null;
+
+function getStore(): StaffStore {
+  if (!store) {
+    store = initializeStore();
+  }
+  return store;
+}
+
+let staffDbInitialized = false;
+
+function getDb(): DatabaseHandle {
+  const database = getDatabase();
+  if (!staffDbInitialized) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS staff (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        business_id INTEGER,
+        name TEXT NOT NULL,
+        calendar_id TEXT NOT NULL,
+        service_ids TEXT,
+        is_active INTEGER DEFAULT 1,
+        last_assigned_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+    // Rows from before staff were per business stay with the env-configured business.
+    const columns = database.prepare("PRAGMA table_info(staff)").all() as { name: string }[];
+    if (!columns.some((column) => column.name === "business_id")) {
+      database.exec("ALTER TABLE staff ADD COLUMN business_id INTEGER;");
+    }
+    staffDbInitialized = true;
+  }
+  return database;
+}
+
+function initializeStore(): StaffStore {
+  try {
+    return createSqlStore(getDb());
+  } catch (error) {
+    logger.warn(
+      "SQLite driver not available; falling back to an in-memory staff directory. Data will not persist across restarts.",
+      error
+    );
+    return createMemoryStore();
+  }
+}
+
+function serializeServiceIds(serviceIds: number[] | null | undefined) {
+  return serviceIds && serviceIds.length ? JSON.stringify(serviceIds) : null;
+}
+
+function createSqlStore(database: DatabaseHandle): StaffStore {
+  // IS matches NULL too, so the env business (null id) gets its own rows.
+  const getById = (businessId: number | null, staffId: number) =>
+    database
+      .prepare("SELECT * FROM staff WHERE id = ? AND business_id IS ?")
+      .get(staffId, businessId) as StaffMember | undefined;
+
+  return {
+    listStaff(businessId, options) {
+      const sql = options.includeInactive
+        ? "SELECT * FROM staff WHERE business_id IS ? ORDER BY name ASC"
+        : "SELECT * FROM staff WHERE business_id IS ? AND is_active = 1 ORDER BY name ASC";
+      return database.prepare(sql).all(businessId) as StaffMember[];
+    },
+    getStaffById(businessId, staffId) {
+      return getById(businessId, staffId);
+    },
+    createStaff(businessId, input) {
+      const now = new Date().toISOString();
+      database
+        .prepare(
+          `INSERT INTO staff
+           (business_id, name, calendar_id, service_ids, is_active, created_at, updated_at)
+           VALUES (?, ?, ?, ?, 1, ?, ?)`
+        )
+        .run(
+          businessId,
+          input.name,
+          input.calendar_id,
+          serializeServiceIds(input.service_ids),
+          now,
+          now
+        );
+      const row = database.prepare("SELECT last_insert_rowid() as id").get() as { id: number };
+      return getById(businessId, row.id) as StaffMember;
+    },
+    updateStaff(businessId, staffId, updates) {
+      const existing = getById(businessId, staffId);
+      if (!existing) return;
+      const now = new Date().toISOString();
+      database
+        .prepare(
+          `UPDATE staff
+           SET name = ?, calendar_id = ?, service_ids = ?, is_active = ?, updated_at = ?
+           WHERE id = ?`
+        )
+        .run(
+          updates.name ?? existing.name,
+          updates.calendar_id ?? existing.calendar_id,
+          updates.service_ids !== undefined
+            ? serializeServiceIds(updates.service_ids)
+            : existing.service_ids,
+          updates.is_active !== undefined ? (updates.is_active ? 1 : 0) : existing.is_active,
+          now,
+          staffId
+        );
+      return getById(businessId, staffId);
+    },
+    markStaffAssigned(staffId) {
+      const now = new Date().toISOString();
+      database
+        .prepare("UPDATE staff SET last_assigned_at = ?, updated_at = ? WHERE id = ?")
+        .run(now, now, staffId);
+    },
+  };
+}
+
+function createMemoryStore(): StaffStore {
+  let nextStaffId = 1;
+  const staff = new Map<number, StaffMember>();
+
+  return {
+    listStaff(businessId, options) {
+      return Array.from(staff.values())
+        .filter((member) => member.business_id === businessId)
+        .filter((member) => options.includeInactive || member.is_active === 1)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    getStaffById(businessId, staffId) {
+      const member = staff.get(staffId);
+      return member?.business_id === businessId ? member : undefined;
+    },
+    createStaff(businessId, input) {
+      const now = new Date().toISOString();
+      const member: StaffMember = {
+        id: nextStaffId++,
+        business_id: businessId,
+        name: input.name,
+        calendar_id: input.calendar_id,
+        service_ids: serializeServiceIds(input.service_ids),
+        is_active: 1,
+        last_assigned_at: null,
+        created_at: now,
+        updated_at: now,
+      };
+      staff.set(member.id, member);
+      return member;
+    },
+    updateStaff(businessId, staffId, updates) {
+      const existing = staff.get(staffId);
+      if (!existing || existing.business_id !== businessId) return;
+      const updated: StaffMember = {
+        ...existing,
+        name: updates.name ?? existing.name,
+        calendar_id: updates.calendar_id ?? existing.calendar_id,
+        service_ids:
+          updates.service_ids !== undefined
+            ? serializeServiceIds(updates.service_ids)
+            : existing.service_ids,
+        is_active: updates.is_active !== undefined ? (updates.is_active ? 1 : 0) : existing.is_active,
+        updated_at: new Date().toISOString(),
+      };
+      staff.set(staffId, updated);
+      return updated;
+    },
+    markStaffAssigned(staffId) {
+      const existing = staff.get(staffId);
+      if (!existing) return;
+      const now = new Date().toISOString();
+      staff.set(staffId, { ...existing, last_assigned_at: now, updated_at: now });
+    },
+  };
+}
+
+export function getStaffServiceIds(member: StaffMember): number[] | null {
+  if (!member.service_ids) return null;
+  try {
+    const parsed = JSON.parse(member.service_ids) as unknown[];
+    return parsed.map(Number).filter((id) => Number.isInteger(id));
+  } catch {
+    return null;
+  }
+}
+
+/** Active staff who can perform `serviceId` (everyone when no service is given). */
+export function listQualifiedStaff(serviceId?: number | null): StaffMember[] {
+  return listStaff().filter((member) => {
+    if (serviceId === undefined || serviceId === null) return true;
+    const serviceIds = getStaffServiceIds(member);
+    return !serviceIds || serviceIds.includes(serviceId);
+  });
+}
+
+/** Matches "Maria" against "Maria Lopez" (case-insensitive, full name or first name). */
+export function findStaffByName(name: string, candidates = listStaff()): StaffMember | undefined {
+  const needle = name.trim().toLowerCase();
+  if (!needle) return;
+  return (
+    candidates.find((member) => member.name.toLowerCase() === needle) ??
+    candidates.find((member) => member.name.toLowerCase().split(/\s+/)[0] === needle.split(/\s+/)[0])
+  );
+}
+
+/** Round-robin order: whoever was booked least recently goes first. */
+export function orderByRoundRobin(candidates: StaffMember[]): StaffMember[] {
+  return [...candidates].sort((a, b) => {
+    const aTime = a.last_assigned_at ?? "";
+    const bTime = b.last_assigned_at ?? "";
+    return aTime === bTime ? a.id - b.id : aTime.localeCompare(bTime);
+  });
+}
+
+/** Staff of the active business. */
+export function listStaff(options: { includeInactive?: boolean } = {}): StaffMember[] {
+  return getStore().listStaff(getActiveBusiness().id, options);
+}
+
+export function getStaffById(staffId: number): StaffMember | undefined {
+  return getStore().getStaffById(getActiveBusiness().id, staffId);
+}
+
+export function createStaff(input: StaffMemberInput): StaffMember {
+  return getStore().createStaff(getActiveBusiness().id, input);
+}
+
+export function updateStaff(staffId: number, updates: StaffMemberUpdate): StaffMember | undefined {
+  return getStore().updateStaff(getActiveBusiness().id, staffId, updates);
+}
+
+export function deactivateStaff(staffId: number): StaffMember | undefined {
+  return updateStaff(staffId, { is_active: false });
+}
+
+export function markStaffAssigned(staffId: number): void {
+  getStore().markStaffAssigned(staffId);
+}
@@ -0,0 +1,20 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { getDefaultBusinessProfile, type BusinessProfile } from "./businesses.js";
+import { runWithLogContext } from "../utils/logger.js";
+
+const activeBusiness = new AsyncLocalStorage<BusinessProfile>();
+
+/**
+ * Runs `fn` as `business`: calendar adapters, business hours, SMS sender and booking
+ * defaults inside it (including anything it awaits) read that tenant's settings.
+ */
+export function runWithBusiness<T>(business: BusinessProfile, fn: () => T): T {
+  return activeBusiness.run(business, () =>
+    runWithLogContext({ businessId: business.id }, fn)
+  );
+}
+
+/** The tenant for the current call, text or job; the env business outside of one. */
+export function getActiveBusiness(): BusinessProfile {
+  return activeBusiness.getStore() ?? getDefaultBusinessProfile();
+}
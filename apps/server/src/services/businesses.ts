@@ -0,0 +1,472 @@
+import { env } from "../config/env.js";
+import { getDatabase, type DatabaseHandle } from "./database.js";
+import { toPhoneKey } from "./booking/appointmentLedger.js";
+import { CALENDAR_SETTING_KEYS, type CalendarSettings } from "./calendar/CalendarAdapter.js";
+import { logger } from "../utils/logger.js";
+import { hashPassword } from "../utils/passwords.js";
+
+export type CalendarProvider = "google" | "sqlite" | "caldav" | "microsoft";
+
+export interface BusinessRecord {
+  id: number;
+  name: string;
+  // The Twilio number callers dial; calls and texts to it are answered as this business.
+  phone_number: string;
+  phone_key: string;
+  prompt: string | null;
+  timezone: string | null;
+  calendar_provider: CalendarProvider | null;
+  // JSON object keyed like the calendar env vars (GOOGLE_REFRESH_TOKEN, CALDAV_URL, ...).
+  calendar_config: string | null;
+  business_hours_json: string | null;
+  // JSON array of numbers that get call summaries and missed-call alerts.
+  owner_phones: string | null;
+  // JSON array of addresses that get taken messages by email.
+  owner_emails: string | null;
+  sms_from_number: string | null;
+  post_call_sms: number | null;
+  send_summary_to_caller: number | null;
+  reminder_offsets: string | null;
+  forward_number: string | null;
+  ring_timeout_seconds: number | null;
+  ring_then_ai: number | null;
+  // JSON array of { name, number, description } lines the receptionist can transfer to.
+  transfer_routes_json: string | null;
+  // pbkdf2 hash of the owner's dashboard password; null means no dashboard sign-in.
+  dashboard_password_hash: string | null;
+  is_active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BusinessInput {
+  name: string;
+  phone_number: string;
+  prompt?: string | null;
+  timezone?: string | null;
+  calendar_provider?: CalendarProvider | null;
+  calendar_config?: CalendarSettings | null;
+  business_hours_json?: string | null;
+  owner_phones?: string[] | null;
+  owner_emails?: string[] | null;
+  sms_from_number?: string | null;
+  post_call_sms?: boolean | null;
+  send_summary_to_caller?: boolean | null;
+  reminder_offsets?: string | null;
+  forward_number?: string | null;
+  ring_timeout_seconds?: number | null;
+  ring_then_ai?: boolean | null;
+  transfer_routes_json?: string | null;
+  // Plain text; only the hash is stored.
+  dashboard_password?: string | null;
+}
+
+export type BusinessUpdate = Partial<BusinessInput> & { is_active?: boolean };
+
+/** A business with env defaults filled in; what the call, SMS and booking code reads. */
+export interface BusinessProfile {
+  // null for the deployment-wide business configured purely through env vars.
+  id: number | null;
+  name: string | null;
+  phoneNumber: string | null;
+  prompt: string | null;
+  timezone: string;
+  calendarProvider: CalendarProvider;
+  calendarConfig: CalendarSettings;
+  businessHoursJson: string | null;
+  ownerPhones: string[];
+  ownerEmails: string[];
+  smsFromNumber: string | null;
+  postCallSms: boolean;
+  sendSummaryToCaller: boolean;
+  reminderOffsets: string;
+  forwardNumber: string | null;
+  ringTimeoutSeconds: number;
+  ringThenAi: boolean;
+  transferRoutesJson: string | null;
+}
+
+type BusinessRow = Omit<BusinessRecord, "id" | "is_active" | "created_at" | "updated_at">;
+
+const BUSINESS_COLUMNS: (keyof BusinessRow)[] = [
+  "name",
+  "phone_number",
+  "phone_key",
+  "prompt",
+  "timezone",
+  "calendar_provider",
+  "calendar_config",
+  "business_hours_json",
+  "owner_phones",
+  "sms_from_number",
+  "post_call_sms",
+  "send_summary_to_caller",
+  "reminder_offsets",
+  "forward_number",
+  "ring_timeout_seconds",
+  "ring_then_ai",
+  "transfer_routes_json",
+  "owner_emails",
+  "dashboard_password_hash",
+];
+
+type BusinessStore = {
+  listBusinesses: (options: { includeInactive?: boolean }) => BusinessRecord[];
+  getBusinessById: (businessId: number) => BusinessRecord | undefined;
+  // Active businesses win; inactive ones are only returned when asked for.
+  getBusinessByPhoneKey: (
+    phoneKey: string,
+    options: { includeInactive?: boolean }
+  ) => BusinessRecord | undefined;
+  createBusiness: (row: BusinessRow) => BusinessRecord;
+  updateBusiness: (
+    businessId: number,
+    row: Partial<BusinessRow>,
+    isActive?: boolean
+  ) => BusinessRecord | undefined;
+};
+
+let store: BusinessStore | null = null;
+
+function getStore(): BusinessStore {
+  if (!store) {
+    store = initializeStore();
+  }
+  return store;
+}
+
+let businessDbInitialized = false;
+
+function getDb(): DatabaseHandle {
+  const database = getDatabase();
+  if (!businessDbInitialized) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS businesses (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        phone_number TEXT NOT NULL,
+        phone_key TEXT NOT NULL,
+        prompt TEXT,
+        timezone TEXT,
+        calendar_provider TEXT,
+        calendar_config TEXT,
+        business_hours_json TEXT,
+        owner_phones TEXT,
+        sms_from_number TEXT,
+        post_call_sms INTEGER,
+        send_summary_to_caller INTEGER,
+        reminder_offsets TEXT,
+        forward_number TEXT,
+        ring_timeout_seconds INTEGER,
+        ring_then_ai INTEGER,
+        transfer_routes_json TEXT,
+        owner_emails TEXT,
+        dashboard_password_hash TEXT,
+        is_active INTEGER DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_businesses_phone_key ON businesses (phone_key);
+    `);
+    const columns = database.prepare("PRAGMA table_info(businesses)").all() as {
+      name: string;
+    }[];
+    for (const column of ["transfer_routes_json", "owner_emails", "dashboard_password_hash"]) {
+      if (!columns.some((existing) => existing.name === column)) {
+        database.exec(`ALTER TABLE businesses ADD COLUMN ${column} TEXT;`);
+      }
+    }
+    businessDbInitialized = true;
+  }
+  return database;
+}
+
+function initializeStore(): BusinessStore {
+  try {
+    return createSqlStore(getDb());
+  } catch (error) {
+    logger.warn(
+      "SQLite driver not available; falling back to an in-memory business registry. Data will not persist across restarts.",
+      error
+    );
+    return createMemoryStore();
+  }
+}
+
+function toFlag(value: boolean | null | undefined) {
+  return value === null || value === undefined ? null : value ? 1 : 0;
+}
+
+function toRow(input: Partial<BusinessInput>): Partial<BusinessRow> {
+  const row: Partial<BusinessRow> = {};
+  if (input.name !== undefined) row.name = input.name;
+  if (input.phone_number !== undefined) {
+    row.phone_number = input.phone_number;
+    row.phone_key = toPhoneKey(input.phone_number) ?? input.phone_number;
+  }
+  if (input.prompt !== undefined) row.prompt = input.prompt;
+  if (input.timezone !== undefined) row.timezone = input.timezone;
+  if (input.calendar_provider !== undefined) row.calendar_provider = input.calendar_provider;
+  if (input.calendar_config !== undefined) {
+    row.calendar_config = input.calendar_config ? JSON.stringify(input.calendar_config) : null;
+  }
+  if (input.business_hours_json !== undefined) row.business_hours_json = input.business_hours_json;
+  if (input.owner_phones !== undefined) {
+    row.owner_phones = input.owner_phones?.length ? JSON.stringify(input.owner_phones) : null;
+  }
+  if (input.owner_emails !== undefined) {
+    row.owner_emails = input.owner_emails?.length ? JSON.stringify(input.owner_emails) : null;
+  }
+  if (input.sms_from_number !== undefined) row.sms_from_number = input.sms_from_number;
+  if (input.post_call_sms !== undefined) row.post_call_sms = toFlag(input.post_call_sms);
+  if (input.send_summary_to_caller !== undefined) {
+    row.send_summary_to_caller = toFlag(input.send_summary_to_caller);
+  }
+  if (input.reminder_offsets !== undefined) row.reminder_offsets = input.reminder_offsets;
+  if (input.forward_number !== undefined) row.forward_number = input.forward_number;
+  if (input.ring_timeout_seconds !== undefined) {
+    row.ring_timeout_seconds = input.ring_timeout_seconds;
+  }
+  if (input.ring_then_ai !== undefined) row.ring_then_ai = toFlag(input.ring_then_ai);
+  if (input.transfer_routes_json !== undefined) {
+    row.transfer_routes_json = input.transfer_routes_json;
+  }
+  if (input.dashboard_password !== undefined) {
+    row.dashboard_password_hash = input.dashboard_password
+      ? hashPassword(input.dashboard_password)
+      : null;
+  }
+  return row;
+}
+
+function toFullRow(input: BusinessInput): BusinessRow {
+  const row = toRow(input);
+  return Object.fromEntries(
+    BUSINESS_COLUMNS.map((column) => [column, row[column] ?? null])
+  ) as BusinessRow;
+}
+
+function createSqlStore(database: DatabaseHandle): BusinessStore {
+  const getById = (businessId: number) =>
+    database.prepare("SELECT * FROM businesses WHERE id = ?").get(businessId) as
+      | BusinessRecord
+      | undefined;
+
+  return {
+    listBusinesses(options) {
+      const sql = options.includeInactive
+        ? "SELECT * FROM businesses ORDER BY name ASC"
+        : "SELECT * FROM businesses WHERE is_active = 1 ORDER BY name ASC";
+      return database.prepare(sql).all() as BusinessRecord[];
+    },
+    getBusinessById(businessId) {
+      return getById(businessId);
+    },
+    getBusinessByPhoneKey(phoneKey, options) {
+      const sql = options.includeInactive
+        ? "SELECT * FROM businesses WHERE phone_key = ? ORDER BY is_active DESC, id DESC LIMIT 1"
+        : "SELECT * FROM businesses WHERE phone_key = ? AND is_active = 1 ORDER BY id DESC LIMIT 1";
+      return database.prepare(sql).get(phoneKey) as BusinessRecord | undefined;
+    },
+    createBusiness(row) {
+      const now = new Date().toISOString();
+      database
+        .prepare(
+          `INSERT INTO businesses (${BUSINESS_COLUMNS.join(", ")}, is_active, created_at, updated_at)
+           VALUES (${BUSINESS_COLUMNS.map(() => "?").join(", ")}, 1, ?, ?)`
+        )
+        .run(...BUSINESS_COLUMNS.map((column) => row[column]), now, now);
+      const result = database.prepare("SELECT last_insert_rowid() as id").get() as { id: number };
+      return getById(result.id) as BusinessRecord;
+    },
+    updateBusiness(businessId, row, isActive) {
+      const existing = getById(businessId);
+      if (!existing) return;
+      const merged = { ...existing, ...row };
+      database
+        .prepare(
+          `UPDATE businesses
+           SET ${BUSINESS_COLUMNS.map((column) => `${column} = ?`).join(", ")},
+               is_active = ?, updated_at = ?
+           WHERE id = ?`
+        )
+        .run(
+          ...BUSINESS_COLUMNS.map((column) => merged[column]),
+          isActive !== undefined ? (isActive ? 1 : 0) : existing.is_active,
+          new Date().toISOString(),
+          businessId
+        );
+      return getById(businessId);
+    },
+  };
+}
+
+function createMemoryStore(): BusinessStore {
+  let nextBusinessId = 1;
+  const businesses = new Map<number, BusinessRecord>();
+
+  return {
+    listBusinesses(options) {
+      return Array.from(businesses.values())
+        .filter((business) => options.includeInactive || business.is_active === 1)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    getBusinessById(businessId) {
+      return businesses.get(businessId);
+    },
+    getBusinessByPhoneKey(phoneKey, options) {
+      const matches = Array.from(businesses.values())
+        .reverse()
+        .filter((business) => business.phone_key === phoneKey);
+      return (
+        matches.find((business) => business.is_active === 1) ??
+        (options.includeInactive ? matches[0] : undefined)
+      );
+    },
+    createBusiness(row) {
+      const now = new Date().toISOString();
+      const business: BusinessRecord = {
+        ...row,
+        id: nextBusinessId++,
+        is_active: 1,
+        created_at: now,
+        updated_at: now,
+      };
+      businesses.set(business.id, business);
+      return business;
+    },
+    updateBusiness(businessId, row, isActive) {
+      const existing = businesses.get(businessId);
+      if (!existing) return;
+      const updated: BusinessRecord = {
+        ...existing,
+        ...row,
+        is_active: isActive !== undefined ? (isActive ? 1 : 0) : existing.is_active,
+        updated_at: new Date().toISOString(),
+      };
+      businesses.set(businessId, updated);
+      return updated;
+    },
+  };
+}
+
+function parseJson<T>(raw: string | null, fallback: T): T {
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function listBusinesses(options: { includeInactive?: boolean } = {}): BusinessRecord[] {
+  return getStore().listBusinesses(options);
+}
+
+export function getBusinessById(businessId: number): BusinessRecord | undefined {
+  return getStore().getBusinessById(businessId);
+}
+
+/** The active business answering `phoneNumber`, in any format. */
+export function getBusinessByPhoneNumber(phoneNumber: string): BusinessRecord | undefined {
+  const phoneKey = toPhoneKey(phoneNumber);
+  return phoneKey ? getStore().getBusinessByPhoneKey(phoneKey, {}) : undefined;
+}
+
+export function createBusiness(input: BusinessInput): BusinessRecord {
+  return getStore().createBusiness(toFullRow(input));
+}
+
+export function updateBusiness(
+  businessId: number,
+  updates: BusinessUpdate
+): BusinessRecord | undefined {
+  const { is_active: isActive, ...fields } = updates;
+  return getStore().updateBusiness(businessId, toRow(fields), isActive);
+}
+
+export function deactivateBusiness(businessId: number): BusinessRecord | undefined {
+  return updateBusiness(businessId, { is_active: false });
+}
+
+function envCalendarConfig(): CalendarSettings {
+  return Object.fromEntries(CALENDAR_SETTING_KEYS.map((key) => [key, env[key]]));
+}
+
+/** The single business described by env vars, used when no registered number matches. */
+export function getDefaultBusinessProfile(): BusinessProfile {
+  return {
+    id: null,
+    name: env.BUSINESS_NAME ?? null,
+    phoneNumber: env.TWILIO_FROM_NUMBER ?? env.TWILIO_PHONE_NUMBER ?? null,
+    prompt: null,
+    timezone: env.DEFAULT_TIMEZONE ?? "America/Phoenix",
+    calendarProvider: env.CALENDAR_PROVIDER,
+    calendarConfig: envCalendarConfig(),
+    businessHoursJson: env.BUSINESS_HOURS_JSON ?? null,
+    ownerPhones: env.BUSINESS_OWNER_PHONE ? [env.BUSINESS_OWNER_PHONE] : [],
+    ownerEmails: env.BUSINESS_OWNER_EMAIL ? [env.BUSINESS_OWNER_EMAIL] : [],
+    smsFromNumber: env.TWILIO_FROM_NUMBER ?? env.TWILIO_PHONE_NUMBER ?? null,
+    postCallSms: env.ENABLE_POST_CALL_SMS,
+    sendSummaryToCaller: env.SEND_SUMMARY_TO_CALLER ?? false,
+    reminderOffsets: env.APPOINTMENT_REMINDER_OFFSETS,
+    forwardNumber: env.OWNER_FORWARD_NUMBER ?? null,
+    ringTimeoutSeconds: env.RING_TIMEOUT_SECONDS,
+    ringThenAi: env.ENABLE_RING_THEN_AI,
+    transferRoutesJson: env.TRANSFER_ROUTES_JSON ?? null,
+  };
+}
+
+/**
+ * Operational defaults (timezone, ring timeout, reminder offsets) fall back to env, but
+ * anything that identifies or reaches the business does not: a tenant without its own
+ * owner phones or calendar must never send alerts to, or book on, the default business.
+ */
+export function toBusinessProfile(record: BusinessRecord): BusinessProfile {
+  const defaults = getDefaultBusinessProfile();
+  return {
+    id: record.id,
+    name: record.name,
+    phoneNumber: record.phone_number,
+    prompt: record.prompt,
+    timezone: record.timezone ?? defaults.timezone,
+    calendarProvider: record.calendar_provider ?? "sqlite",
+    calendarConfig: {
+      SQLITE_CALENDAR_ID: `business-${record.id}`,
+      ...parseJson<CalendarSettings>(record.calendar_config, {}),
+    },
+    businessHoursJson: record.business_hours_json,
+    ownerPhones: parseJson<string[]>(record.owner_phones, []),
+    ownerEmails: parseJson<string[]>(record.owner_emails, []),
+    smsFromNumber: record.sms_from_number ?? record.phone_number,
+    postCallSms: record.post_call_sms === null ? defaults.postCallSms : record.post_call_sms === 1,
+    sendSummaryToCaller:
+      record.send_summary_to_caller === null
+        ? defaults.sendSummaryToCaller
+        : record.send_summary_to_caller === 1,
+    reminderOffsets: record.reminder_offsets ?? defaults.reminderOffsets,
+    forwardNumber: record.forward_number,
+    ringTimeoutSeconds: record.ring_timeout_seconds ?? defaults.ringTimeoutSeconds,
+    ringThenAi: record.ring_then_ai === null ? defaults.ringThenAi : record.ring_then_ai === 1,
+    transferRoutesJson: record.transfer_routes_json,
+  };
+}
+
+/**
+ * Profile for the number a caller dialed or texted; the env business when none is registered.
+ * Null when the number belongs to a deactivated business, which should not be answered.
+ */
+export function resolveBusinessProfile(dialedNumber?: string | null): BusinessProfile | null {
+  const phoneKey = toPhoneKey(dialedNumber);
+  const record = phoneKey
+    ? getStore().getBusinessByPhoneKey(phoneKey, { includeInactive: true })
+    : undefined;
+  if (!record) return getDefaultBusinessProfile();
+  return record.is_active ? toBusinessProfile(record) : null;
+}
+
+/** Profile for a stored business id (null or unknown ids get the env business). */
+export function getBusinessProfile(businessId: number | null | undefined): BusinessProfile {
+  const record = businessId ? getStore().getBusinessById(businessId) : undefined;
+  return record ? toBusinessProfile(record) : getDefaultBusinessProfile();
+}
@@ -0,0 +1,276 @@
+import * as crypto from "node:crypto";
+import axios, { type AxiosRequestConfig } from "axios";
+import { env } from "../../config/env.js";
+import type {
+  BusyInterval,
+  CalendarAdapter,
+  CalendarConnection,
+  CalendarSettings,
+  CalendarEventDetails,
+  CalendarEventRecord,
+  CalendarEventUpdate,
+} from "./CalendarAdapter.js";
+import { withCalendarRetry } from "./calendarRetry.js";
+import { runIdempotentInsert } from "./idempotentInsert.js";
+import {
+  buildCalendar,
+  buildVEventLines,
+  formatICalDate,
+  parseFreeBusy,
+  parseVEvents,
+  patchVEvent,
+} from "./icalendar.js";
+import { logger } from "../../utils/logger.js";
+
+const LIST_LIMIT = 50;
+
+function requireEnv(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new Error(`${name} is missing`);
+  }
+  return value;
+}
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_match, code: string) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Pulls href + calendar-data pairs out of a DAV multistatus body, whatever the namespace prefixes. */
+function parseMultistatus(xml: string): { href: string; calendarData: string }[] {
+  const responses = xml.match(/<(?:[\w-]+:)?response\b[\s\S]*?<\/(?:[\w-]+:)?response>/gi) ?? [];
+  return responses
+    .map((block) => {
+      const href = block.match(/<(?:[\w-]+:)?href\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?href>/i)?.[1];
+      const data = block.match(
+        /<(?:[\w-]+:)?calendar-data\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?calendar-data>/i
+      )?.[1];
+      return {
+        href: href ? decodeXmlText(href.trim()) : "",
+        calendarData: data ? decodeXmlText(data) : "",
+      };
+    })
+    .filter((item) => item.href && item.calendarData);
+}
+
+function eventIdFromHref(href: string): string {
+  const segments = href.split("/").filter(Boolean);
+  return decodeURIComponent(segments[segments.length - 1] ?? "");
+}
+
+/**
+ * Talks to any CalDAV collection (Nextcloud, Fastmail, iCloud, Radicale). Event IDs
+ * are the resource names inside the collection, e.g. "<uid>.ics".
+ */
+export class CalDavCalendarAdapter implements CalendarAdapter {
+  private collectionUrl: string;
+  private settings: CalendarSettings;
+
+  constructor(collectionUrl?: string, connection: CalendarConnection = {}) {
+    this.settings = connection.settings ?? env;
+    const url = collectionUrl ?? requireEnv(this.settings.CALDAV_URL, "CALDAV_URL");
+    this.collectionUrl = url.endsWith("/") ? url : `${url}/`;
+  }
+
+  private request<T = string>(config: AxiosRequestConfig) {
+    // Local stand-ins such as Radicale with auth disabled need no credentials.
+    const auth = this.settings.CALDAV_USERNAME
+      ? {
+          username: this.settings.CALDAV_USERNAME,
+          password: requireEnv(this.settings.CALDAV_PASSWORD, "CALDAV_PASSWORD"),
+        }
+      : undefined;
+    return axios.request<T>({
+      ...config,
+      auth,
+      responseType: "text",
+      transformResponse: (data) => data,
+    });
+  }
+
+  private resourceUrl(eventId: string): string {
+    return new URL(encodeURIComponent(eventId), this.collectionUrl).toString();
+  }
+
+  private timeRange(windowStart: Date, windowEnd: Date): string {
+    return `<C:time-range start="${formatICalDate(windowStart)}" end="${formatICalDate(windowEnd)}"/>`;
+  }
+
+  async getAvailability(windowStart: Date, windowEnd: Date): Promise<BusyInterval[]> {
+    const body = `<?xml version="1.0" encoding="utf-8" ?>
+<C:free-busy-query xmlns:C="urn:ietf:params:xml:ns:caldav">
+  ${this.timeRange(windowStart, windowEnd)}
+</C:free-busy-query>`;
+
+    const response = await withCalendarRetry("freebusy", () =>
+      this.request({
+        method: "REPORT",
+        url: this.collectionUrl,
+        headers: { Depth: "1", "Content-Type": "application/xml; charset=utf-8" },
+        data: body,
+      })
+    );
+
+    return parseFreeBusy(String(response.data ?? ""));
+  }
+
+  async createEvent(
+    start: Date,
+    end: Date,
+    details: CalendarEventDetails
+  ): Promise<{ eventId?: string; htmlLink?: string } | null> {
+    const dryRun = (process.env.BOOKING_DRY_RUN ?? "").toLowerCase() === "true";
+    if (dryRun) {
+      logger.info("BOOKING_DRY_RUN enabled. Skipping calendar create.", {
+        start: start.toISOString(),
+        end: end.toISOString(),
+      });
+      return null;
+    }
+
+    const startISO = start.toISOString();
+    const endISO = end.toISOString();
+    const idempotencySource = details.idempotencySource ?? "unknown-session";
+    const idempotencyKey = `${idempotencySource}:${this.collectionUrl}:${startISO}:${endISO}`;
+    const toolCallId = details.toolCallId;
+
+    return await runIdempotentInsert(idempotencyKey, toolCallId, async () => {
+      const uid = crypto.randomUUID();
+      const eventId = `${uid}.ics`;
+      const ics = buildCalendar(
+        buildVEventLines({
+          uid,
+          start,
+          end,
+          summary: details.title,
+          description: details.description,
+          location: details.location,
+        })
+      );
+
+      await withCalendarRetry("insert", () =>
+        this.request({
+          method: "PUT",
+          url: this.resourceUrl(eventId),
+          headers: {
+            "Content-Type": "text/calendar; charset=utf-8",
+            "If-None-Match": "*",
+          },
+          data: ics,
+        })
+      );
+
+      return { eventId };
+    });
+  }
+
+  async listEvents(windowStart: Date, windowEnd: Date): Promise<CalendarEventRecord[]> {
+    const body = `<?xml version="1.0" encoding="utf-8" ?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop>
+    <D:getetag/>
+    <C:calendar-data/>
+  </D:prop>
+  <C:filter>
+    <C:comp-filter name="VCALENDAR">
+      <C:comp-filter name="VEVENT">
+        ${this.timeRange(windowStart, windowEnd)}
+      </C:comp-filter>
+    </C:comp-filter>
+  </C:filter>
+</C:calendar-query>`;
+
+    const response = await withCalendarRetry("list", () =>
+      this.request({
+        method: "REPORT",
+        url: this.collectionUrl,
+        headers: { Depth: "1", "Content-Type": "application/xml; charset=utf-8" },
+        data: body,
+      })
+    );
+
+    return parseMultistatus(String(response.data ?? ""))
+      .flatMap(({ href, calendarData }) =>
+        parseVEvents(calendarData).map((event) => ({ href, event }))
+      )
+      .filter(({ event }) => event.status !== "CANCELLED")
+      .map(({ href, event }) => ({
+        id: eventIdFromHref(href),
+        summary: event.summary,
+        description: event.description,
+        startISO: event.startISO,
+        endISO: event.endISO,
+        timezone: event.timezone,
+      }))
+      .filter((item) => item.id && item.startISO && item.endISO)
+      .sort((a, b) => a.startISO.localeCompare(b.startISO))
+      .slice(0, LIST_LIMIT);
+  }
+
+  async updateEvent(
+    eventId: string,
+    updates: CalendarEventUpdate
+  ): Promise<{ eventId?: string; htmlLink?: string } | null> {
+    const url = this.resourceUrl(eventId);
+
+    try {
+      const existing = await withCalendarRetry("get", () => this.request({ method: "GET", url }));
+      const etag = existing.headers?.etag as string | undefined;
+      const ics = patchVEvent(String(existing.data ?? ""), {
+        start: updates.start,
+        end: updates.end,
+        summary: updates.summary,
+        description: updates.description,
+      });
+
+      const response = await withCalendarRetry("update", () =>
+        this.request({
+          method: "PUT",
+          url,
+          headers: {
+            "Content-Type": "text/calendar; charset=utf-8",
+            ...(etag ? { "If-Match": etag } : {}),
+          },
+          data: ics,
+        })
+      );
+
+      logger.info("📅 UPDATE success", { eventId, status: response.status });
+      return { eventId };
+    } catch (error) {
+      const response = (error as { response?: { status?: number; data?: unknown } }).response;
+      logger.error("📅 UPDATE failed", {
+        eventId,
+        status: response?.status,
+        response: response?.data,
+      });
+      throw error;
+    }
+  }
+
+  async cancelEvent(eventId: string): Promise<{ eventId?: string } | null> {
+    try {
+      const response = await withCalendarRetry("delete", () =>
+        this.request({ method: "DELETE", url: this.resourceUrl(eventId) })
+      );
+
+      logger.info("📅 DELETE success", { eventId, status: response.status });
+      return { eventId };
+    } catch (error) {
+      const response = (error as { response?: { status?: number; data?: unknown } }).response;
+      logger.error("📅 DELETE failed", {
+        eventId,
+        status: response?.status,
+        response: response?.data,
+      });
+      throw error;
+    }
+  }
+}
@@ -1,3 +1,31 @@
+export const CALENDAR_SETTING_KEYS = [
+  "SQLITE_CALENDAR_ID",
+  "CALDAV_URL",
+  "CALDAV_USERNAME",
+  "CALDAV_PASSWORD",
+  "MICROSOFT_TENANT_ID",
+  "MICROSOFT_CLIENT_ID",
+  "MICROSOFT_CLIENT_SECRET",
+  "MICROSOFT_REFRESH_TOKEN",
+  "MICROSOFT_CALENDAR_ID",
+  "GOOGLE_CLIENT_ID",
+  "GOOGLE_CLIENT_SECRET",
+  "GOOGLE_REDIRECT_URI",
+  "GOOGLE_REFRESH_TOKEN",
+  "GOOGLE_CALENDAR_ID",
+] as const;
+
+export type CalendarSettingKey = (typeof CALENDAR_SETTING_KEYS)[number];
+
+/** Provider credentials, keyed like the env vars they replace. */
+export type CalendarSettings = Partial<Record<CalendarSettingKey, string>>;
+
+/** Whose calendar account an adapter talks to; omitted fields come from env. */
+export interface CalendarConnection {
+  settings?: CalendarSettings;
+  timezone?: string;
+}
+
 export interface BusyInterval {
   start: Date;
   end: Date;
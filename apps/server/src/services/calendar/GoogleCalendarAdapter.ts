@@ -3,30 +3,15 @@ import { env } from "../../config/env.js";
 import type {
   BusyInterval,
   CalendarAdapter,
+  CalendarConnection,
+  CalendarSettings,
   CalendarEventDetails,
   CalendarEventRecord,
   CalendarEventUpdate,
 } from "./CalendarAdapter.js";
-
-const IDEMPOTENCY_TTL_MS = 5 * 60 * 1000;
-const idempotencyCache = new Map<
-  string,
-  { status: "inflight" | "done"; eventId?: string; htmlLink?: string; createdAt: number }
->();
-const inflightPromises = new Map<
-  string,
-  Promise<{ eventId?: string; htmlLink?: string } | null>
->();
-const RATE_LIMIT_RETRY_DELAYS_MS = [500, 1500, 3000];
-
-function pruneIdempotencyCache(now = Date.now()) {
-  for (const [key, entry] of idempotencyCache.entries()) {
-    if (now - entry.createdAt > IDEMPOTENCY_TTL_MS) {
-      idempotencyCache.delete(key);
-      inflightPromises.delete(key);
-    }
-  }
-}
+import { withCalendarRetry } from "./calendarRetry.js";
+import { runIdempotentInsert } from "./idempotentInsert.js";
+import { logger } from "../../utils/logger.js";
 
 function requireEnv(value: string | undefined, name: string): string {
   if (!value) {
@@ -35,45 +20,11 @@ function requireEnv(value: string | undefined, name: string): string {
   return value;
 }
 
-function isRateLimitError(error: unknown) {
-  if (!error || typeof error !== "object") return false;
-  const response = (error as { response?: { status?: number; data?: any } }).response;
-  const status = response?.status;
-  if (status !== 403 && status !== 429) return false;
-  const reasons: string[] =
-    response?.data?.error?.errors?.map((item: { reason?: string }) => item.reason) ?? [];
-  return (
-    status === 429 ||
-    reasons.some((reason) =>
-      ["rateLimitExceeded", "userRateLimitExceeded"].includes(reason ?? "")
-    )
-  );
-}
-
-async function withCalendarRetry<T>(operation: string, fn: () => Promise<T>): Promise<T> {
-  for (let attempt = 0; attempt <= RATE_LIMIT_RETRY_DELAYS_MS.length; attempt += 1) {
-    try {
-      if (attempt > 0) {
-        console.log("📅 retrying calendar operation", { operation, attempt });
-      }
-      return await fn();
-    } catch (error) {
-      if (!isRateLimitError(error) || attempt === RATE_LIMIT_RETRY_DELAYS_MS.length) {
-        throw error;
-      }
-      const delayMs = RATE_LIMIT_RETRY_DELAYS_MS[attempt] ?? 0;
-      console.log("📅 rate limit hit; backing off", { operation, delayMs });
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
-    }
-  }
-  throw new Error(`Calendar operation failed after retries: ${operation}`);
-}
-
-function buildOAuthClient() {
-  const clientId = requireEnv(env.GOOGLE_CLIENT_ID, "GOOGLE_CLIENT_ID");
-  const clientSecret = requireEnv(env.GOOGLE_CLIENT_SECRET, "GOOGLE_CLIENT_SECRET");
-  const redirectUri = requireEnv(env.GOOGLE_REDIRECT_URI, "GOOGLE_REDIRECT_URI");
-  const refreshToken = requireEnv(env.GOOGLE_REFRESH_TOKEN, "GOOGLE_REFRESH_TOKEN");
+function buildOAuthClient(settings: CalendarSettings) {
+  const clientId = requireEnv(settings.GOOGLE_CLIENT_ID, "GOOGLE_CLIENT_ID");
+  const clientSecret = requireEnv(settings.GOOGLE_CLIENT_SECRET, "GOOGLE_CLIENT_SECRET");
+  const redirectUri = requireEnv(settings.GOOGLE_REDIRECT_URI, "GOOGLE_REDIRECT_URI");
+  const refreshToken = requireEnv(settings.GOOGLE_REFRESH_TOKEN, "GOOGLE_REFRESH_TOKEN");
 
   const oauth2Client = new google.auth.OAuth2(clientId, clientSecret, redirectUri);
   oauth2Client.setCredentials({ refresh_token: refreshToken });
@@ -83,14 +34,17 @@ function buildOAuthClient() {
 export class GoogleCalendarAdapter implements CalendarAdapter {
   private calendarId: string;
   private timezone: string;
+  private settings: CalendarSettings;
 
-  constructor() {
-    this.calendarId = requireEnv(env.GOOGLE_CALENDAR_ID, "GOOGLE_CALENDAR_ID");
-    this.timezone = env.DEFAULT_TIMEZONE ?? "America/Phoenix";
+  constructor(calendarId?: string, connection: CalendarConnection = {}) {
+    this.settings = connection.settings ?? env;
+    this.calendarId =
+      calendarId ?? requireEnv(this.settings.GOOGLE_CALENDAR_ID, "GOOGLE_CALENDAR_ID");
+    this.timezone = connection.timezone ?? env.DEFAULT_TIMEZONE ?? "America/Phoenix";
   }
 
   async getAvailability(windowStart: Date, windowEnd: Date): Promise<BusyInterval[]> {
-    const auth = buildOAuthClient();
+    const auth = buildOAuthClient(this.settings);
     const calendar = google.calendar({ version: "v3", auth });
 
     const response = await calendar.freebusy.query({
@@ -118,7 +72,7 @@ export class GoogleCalendarAdapter implements CalendarAdapter {
   ): Promise<{ eventId?: string; htmlLink?: string } | null> {
     const dryRun = (process.env.BOOKING_DRY_RUN ?? "").toLowerCase() === "true";
     if (dryRun) {
-      console.log("BOOKING_DRY_RUN enabled. Skipping calendar create.", {
+      logger.info("BOOKING_DRY_RUN enabled. Skipping calendar create.", {
         start: start.toISOString(),
         end: end.toISOString(),
       });
@@ -131,91 +85,38 @@ export class GoogleCalendarAdapter implements CalendarAdapter {
     const idempotencyKey = `${idempotencySource}:${this.calendarId}:${startISO}:${endISO}`;
     const toolCallId = details.toolCallId;
 
-    pruneIdempotencyCache();
-    const cached = idempotencyCache.get(idempotencyKey);
-    if (cached) {
-      console.log("📅 INSERT skipped (duplicate)", {
-        idempotencyKey,
-        toolCallId,
-        status: cached.status,
-        eventId: cached.eventId,
-      });
-      if (cached.status === "inflight") {
-        const inflight = inflightPromises.get(idempotencyKey);
-        if (inflight) {
-          return await inflight;
-        }
+    return await runIdempotentInsert(idempotencyKey, toolCallId, async () => {
+      const auth = buildOAuthClient(this.settings);
+      const calendar = google.calendar({ version: "v3", auth });
+      const response = await withCalendarRetry("insert", () =>
+        calendar.events.insert({
+          calendarId: this.calendarId,
+          requestBody: {
+            summary: details.title,
+            description: details.description,
+            location: details.location,
+            start: { dateTime: startISO, timeZone: details.timezone },
+            end: { dateTime: endISO, timeZone: details.timezone },
+          },
+        })
+      );
+      if (!response.data.id) {
+        logger.warn("📅 INSERT missing event id", {
+          idempotencyKey,
+          toolCallId,
+          response: response.data,
+        });
+        throw new Error("Calendar insert returned no event id.");
       }
       return {
-        eventId: cached.eventId,
-        htmlLink: cached.htmlLink,
+        eventId: response.data.id ?? undefined,
+        htmlLink: response.data.htmlLink ?? undefined,
       };
-    }
-
-    idempotencyCache.set(idempotencyKey, {
-      status: "inflight",
-      createdAt: Date.now(),
     });
-
-    const auth = buildOAuthClient();
-    const calendar = google.calendar({ version: "v3", auth });
-
-    console.log("📅 INSERT start", { idempotencyKey, toolCallId });
-
-    const insertPromise = withCalendarRetry("insert", () =>
-      calendar.events.insert({
-        calendarId: this.calendarId,
-        requestBody: {
-          summary: details.title,
-          description: details.description,
-          location: details.location,
-          start: { dateTime: startISO, timeZone: details.timezone },
-          end: { dateTime: endISO, timeZone: details.timezone },
-        },
-      })
-    )
-      .then((response) => {
-        if (!response.data.id) {
-          console.log("📅 INSERT missing event id", {
-            idempotencyKey,
-            toolCallId,
-            response: response.data,
-          });
-          throw new Error("Calendar insert returned no event id.");
-        }
-        idempotencyCache.set(idempotencyKey, {
-          status: "done",
-          eventId: response.data.id ?? undefined,
-          htmlLink: response.data.htmlLink ?? undefined,
-          createdAt: Date.now(),
-        });
-        return {
-          eventId: response.data.id ?? undefined,
-          htmlLink: response.data.htmlLink ?? undefined,
-        };
-      })
-      .catch((error) => {
-        idempotencyCache.delete(idempotencyKey);
-        const response = (error as { response?: { status?: number; data?: unknown } })
-          .response;
-        console.log("📅 INSERT failed", {
-          idempotencyKey,
-          toolCallId,
-          status: response?.status,
-          response: response?.data,
-        });
-        throw error;
-      })
-      .finally(() => {
-        inflightPromises.delete(idempotencyKey);
-      });
-
-    inflightPromises.set(idempotencyKey, insertPromise);
-    return await insertPromise;
   }
 
   async listEvents(windowStart: Date, windowEnd: Date): Promise<CalendarEventRecord[]> {
-    const auth = buildOAuthClient();
+    const auth = buildOAuthClient(this.settings);
     const calendar = google.calendar({ version: "v3", auth });
 
     const response = await calendar.events.list({
@@ -249,7 +150,7 @@ export class GoogleCalendarAdapter implements CalendarAdapter {
     eventId: string,
     updates: CalendarEventUpdate
   ): Promise<{ eventId?: string; htmlLink?: string } | null> {
-    const auth = buildOAuthClient();
+    const auth = buildOAuthClient(this.settings);
     const calendar = google.calendar({ version: "v3", auth });
 
     try {
@@ -266,7 +167,7 @@ export class GoogleCalendarAdapter implements CalendarAdapter {
         })
       );
 
-      console.log("📅 UPDATE success", {
+      logger.info("📅 UPDATE success", {
         eventId,
         status: response.status,
         response: response.data,
@@ -278,7 +179,7 @@ export class GoogleCalendarAdapter implements CalendarAdapter {
       };
     } catch (error) {
       const response = (error as { response?: { status?: number; data?: unknown } }).response;
-      console.log("📅 UPDATE failed", {
+      logger.error("📅 UPDATE failed", {
         eventId,
         status: response?.status,
         response: response?.data,
@@ -288,7 +189,7 @@ export class GoogleCalendarAdapter implements CalendarAdapter {
   }
 
   async cancelEvent(eventId: string): Promise<{ eventId?: string } | null> {
-    const auth = buildOAuthClient();
+    const auth = buildOAuthClient(this.settings);
     const calendar = google.calendar({ version: "v3", auth });
 
     try {
@@ -299,7 +200,7 @@ export class GoogleCalendarAdapter implements CalendarAdapter {
         })
       );
 
-      console.log("📅 DELETE success", {
+      logger.info("📅 DELETE success", {
         eventId,
         status: response.status,
         response: response.data,
@@ -308,7 +209,7 @@ export class GoogleCalendarAdapter implements CalendarAdapter {
       return { eventId };
     } catch (error) {
       const response = (error as { response?: { status?: number; data?: unknown } }).response;
-      console.log("📅 DELETE failed", {
+      logger.error("📅 DELETE failed", {
         eventId,
         status: response?.status,
         response: response?.data,
@@ -0,0 +1,381 @@
+import * as crypto from "node:crypto";
+import axios, { type AxiosRequestConfig } from "axios";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import { env } from "../../config/env.js";
+import type {
+  BusyInterval,
+  CalendarAdapter,
+  CalendarConnection,
+  CalendarSettings,
+  CalendarEventDetails,
+  CalendarEventRecord,
+  CalendarEventUpdate,
+} from "./CalendarAdapter.js";
+import { withCalendarRetry } from "./calendarRetry.js";
+import { runIdempotentInsert } from "./idempotentInsert.js";
+import { logger } from "../../utils/logger.js";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const GRAPH_BASE_URL = "https://graph.microsoft.com/v1.0";
+const GRAPH_SCOPES =
+  "offline_access https://graph.microsoft.com/Calendars.ReadWrite https://graph.microsoft.com/User.Read";
+const TOKEN_EXPIRY_SKEW_MS = 60 * 1000;
+const LIST_LIMIT = 50;
+const FREE_STATUSES = new Set(["free", "workingElsewhere"]);
+
+type GraphDateTime = { dateTime?: string; timeZone?: string };
+
+type GraphEvent = {
+  id?: string;
+  subject?: string;
+  body?: { content?: string };
+  start?: GraphDateTime;
+  end?: GraphDateTime;
+  originalStartTimeZone?: string;
+  isCancelled?: boolean;
+  showAs?: string;
+  webLink?: string;
+};
+
+interface MicrosoftAccountState {
+  cachedToken: { accessToken: string; expiresAt: number } | null;
+  rotatedRefreshToken: string | null;
+  scheduleAddress: string | null;
+}
+
+// One entry per connected account: the env one plus any business with its own login.
+const accountStates = new Map<string, MicrosoftAccountState>();
+
+function getAccountState(settings: CalendarSettings): MicrosoftAccountState {
+  const key = [
+    settings.MICROSOFT_TENANT_ID ?? "common",
+    settings.MICROSOFT_CLIENT_ID ?? "",
+    settings.MICROSOFT_REFRESH_TOKEN ?? "",
+  ].join(":");
+  let state = accountStates.get(key);
+  if (!state) {
+    state = { cachedToken: null, rotatedRefreshToken: null, scheduleAddress: null };
+    accountStates.set(key, state);
+  }
+  return state;
+}
+
+function requireEnv(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new Error(`${name} is missing`);
+  }
+  return value;
+}
+
+/**
+ * Exchanges the stored refresh token for a Graph access token, reusing it until it
+ * is about to expire. Microsoft may rotate the refresh token, so the latest one is
+ * kept in memory for the life of the process.
+ */
+async function getAccessToken(settings: CalendarSettings): Promise<string> {
+  const state = getAccountState(settings);
+  const { cachedToken } = state;
+  if (cachedToken && cachedToken.expiresAt - TOKEN_EXPIRY_SKEW_MS > Date.now()) {
+    return cachedToken.accessToken;
+  }
+
+  const clientId = requireEnv(settings.MICROSOFT_CLIENT_ID, "MICROSOFT_CLIENT_ID");
+  const clientSecret = requireEnv(settings.MICROSOFT_CLIENT_SECRET, "MICROSOFT_CLIENT_SECRET");
+  const refreshToken =
+    state.rotatedRefreshToken ??
+    requireEnv(settings.MICROSOFT_REFRESH_TOKEN, "MICROSOFT_REFRESH_TOKEN");
+  const tenantId = settings.MICROSOFT_TENANT_ID ?? "common";
+
+  try {
+    const response = await axios.post(
+      `https://login.microsoftonline.com/${encodeURIComponent(tenantId)}/oauth2/v2.0/token`,
+      new URLSearchParams({
+        client_id: clientId,
+        client_secret: clientSecret,
+        grant_type: "refresh_token",
+        refresh_token: refreshToken,
+        scope: GRAPH_SCOPES,
+      }).toString(),
+      { headers: { "Content-Type": "application/x-www-form-urlencoded" } }
+    );
+
+    const accessToken = response.data?.access_token as string | undefined;
+    if (!accessToken) {
+      throw new Error("Microsoft token response is missing access_token");
+    }
+    if (typeof response.data?.refresh_token === "string") {
+      state.rotatedRefreshToken = response.data.refresh_token;
+    }
+    state.cachedToken = {
+      accessToken,
+      expiresAt: Date.now() + Number(response.data?.expires_in ?? 3600) * 1000,
+    };
+    return accessToken;
+  } catch (error) {
+    const data = (error as { response?: { data?: { error?: string } } }).response?.data;
+    if (data?.error) {
+      // Surface the OAuth error code (e.g. invalid_grant) so booking tools report "not configured".
+      throw new Error(`Microsoft token refresh failed: ${data.error}`);
+    }
+    throw error;
+  }
+}
+
+function toGraphDateTime(date: Date, timeZoneName: string): GraphDateTime {
+  return {
+    dateTime: dayjs(date).tz(timeZoneName).format("YYYY-MM-DDTHH:mm:ss"),
+    timeZone: timeZoneName,
+  };
+}
+
+/** Parses a Graph dateTime returned with `Prefer: outlook.timezone="UTC"`. */
+function fromGraphDateTime(value: GraphDateTime | undefined): string {
+  if (!value?.dateTime) return "";
+  const raw = /[zZ]|[+-]\d{2}:\d{2}$/.test(value.dateTime) ? value.dateTime : `${value.dateTime}Z`;
+  const parsed = new Date(raw);
+  return Number.isNaN(parsed.getTime()) ? "" : parsed.toISOString();
+}
+
+export class MicrosoftCalendarAdapter implements CalendarAdapter {
+  private calendarId: string | undefined;
+  private timezone: string;
+  private settings: CalendarSettings;
+
+  constructor(calendarId?: string, connection: CalendarConnection = {}) {
+    this.settings = connection.settings ?? env;
+    this.calendarId = calendarId ?? this.settings.MICROSOFT_CALENDAR_ID;
+    this.timezone = connection.timezone ?? env.DEFAULT_TIMEZONE ?? "America/Phoenix";
+  }
+
+  private async graph<T = any>(config: AxiosRequestConfig) {
+    const accessToken = await getAccessToken(this.settings);
+    return axios.request<T>({
+      ...config,
+      baseURL: GRAPH_BASE_URL,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+        Prefer: 'outlook.timezone="UTC", outlook.body-content-type="text"',
+        ...(config.headers ?? {}),
+      },
+    });
+  }
+
+  private get calendarPath() {
+    return this.calendarId ? `/me/calendars/${encodeURIComponent(this.calendarId)}` : "/me/calendar";
+  }
+
+  private async getScheduleAddress(): Promise<string> {
+    const state = getAccountState(this.settings);
+    if (state.scheduleAddress) return state.scheduleAddress;
+    const response = await withCalendarRetry("profile", () =>
+      this.graph<{ mail?: string; userPrincipalName?: string }>({
+        method: "GET",
+        url: "/me",
+        params: { $select: "mail,userPrincipalName" },
+      })
+    );
+    const address = response.data.mail ?? response.data.userPrincipalName;
+    if (!address) {
+      throw new Error("Microsoft account has no mailbox address for getSchedule");
+    }
+    state.scheduleAddress = address;
+    return address;
+  }
+
+  private async listCalendarView(windowStart: Date, windowEnd: Date): Promise<GraphEvent[]> {
+    const response = await withCalendarRetry("list", () =>
+      this.graph<{ value?: GraphEvent[] }>({
+        method: "GET",
+        url: `${this.calendarPath}/calendarView`,
+        params: {
+          startDateTime: windowStart.toISOString(),
+          endDateTime: windowEnd.toISOString(),
+          $orderby: "start/dateTime",
+          $top: LIST_LIMIT,
+          $select: "id,subject,body,start,end,originalStartTimeZone,isCancelled,showAs",
+        },
+      })
+    );
+    return (response.data.value ?? []).filter((item) => !item.isCancelled);
+  }
+
+  async getAvailability(windowStart: Date, windowEnd: Date): Promise<BusyInterval[]> {
+    // getSchedule only reads the mailbox's default calendar; secondary calendars fall back to calendarView.
+    if (this.calendarId) {
+      const events = await this.listCalendarView(windowStart, windowEnd);
+      return events
+        .filter((item) => !FREE_STATUSES.has(item.showAs ?? "busy"))
+        .map((item) => ({
+          start: new Date(fromGraphDateTime(item.start)),
+          end: new Date(fromGraphDateTime(item.end)),
+        }))
+        .filter((item) => !Number.isNaN(item.start.getTime()) && !Number.isNaN(item.end.getTime()));
+    }
+
+    const address = await this.getScheduleAddress();
+    const response = await withCalendarRetry("getSchedule", () =>
+      this.graph<{
+        value?: { scheduleItems?: { status?: string; start?: GraphDateTime; end?: GraphDateTime }[] }[];
+      }>({
+        method: "POST",
+        url: "/me/calendar/getSchedule",
+        data: {
+          schedules: [address],
+          startTime: { dateTime: dayjs(windowStart).utc().format("YYYY-MM-DDTHH:mm:ss"), timeZone: "UTC" },
+          endTime: { dateTime: dayjs(windowEnd).utc().format("YYYY-MM-DDTHH:mm:ss"), timeZone: "UTC" },
+          availabilityViewInterval: 15,
+        },
+      })
+    );
+
+    const items = response.data.value?.[0]?.scheduleItems ?? [];
+    return items
+      .filter((item) => !FREE_STATUSES.has(item.status ?? "busy"))
+      .map((item) => ({
+        start: new Date(fromGraphDateTime(item.start)),
+        end: new Date(fromGraphDateTime(item.end)),
+      }))
+      .filter((item) => !Number.isNaN(item.start.getTime()) && !Number.isNaN(item.end.getTime()));
+  }
+
+  async createEvent(
+    start: Date,
+    end: Date,
+    details: CalendarEventDetails
+  ): Promise<{ eventId?: string; htmlLink?: string } | null> {
+    const dryRun = (process.env.BOOKING_DRY_RUN ?? "").toLowerCase() === "true";
+    if (dryRun) {
+      logger.info("BOOKING_DRY_RUN enabled. Skipping calendar create.", {
+        start: start.toISOString(),
+        end: end.toISOString(),
+      });
+      return null;
+    }
+
+    const startISO = start.toISOString();
+    const endISO = end.toISOString();
+    const idempotencySource = details.idempotencySource ?? "unknown-session";
+    const idempotencyKey = `${idempotencySource}:${this.calendarId ?? "default"}:${startISO}:${endISO}`;
+    const toolCallId = details.toolCallId;
+    // Graph dedupes creates that reuse a transactionId, which also covers retries after a timeout.
+    const transactionId = crypto.createHash("sha256").update(idempotencyKey).digest("hex").slice(0, 36);
+
+    return await runIdempotentInsert(idempotencyKey, toolCallId, async () => {
+      const response = await withCalendarRetry("insert", () =>
+        this.graph<GraphEvent>({
+          method: "POST",
+          url: `${this.calendarPath}/events`,
+          data: {
+            subject: details.title,
+            body: { contentType: "text", content: details.description },
+            location: details.location ? { displayName: details.location } : undefined,
+            start: toGraphDateTime(start, details.timezone),
+            end: toGraphDateTime(end, details.timezone),
+            transactionId,
+          },
+        })
+      );
+      if (!response.data.id) {
+        logger.warn("📅 INSERT missing event id", {
+          idempotencyKey,
+          toolCallId,
+          response: response.data,
+        });
+        throw new Error("Calendar insert returned no event id.");
+      }
+      return {
+        eventId: response.data.id,
+        htmlLink: response.data.webLink ?? undefined,
+      };
+    });
+  }
+
+  async listEvents(windowStart: Date, windowEnd: Date): Promise<CalendarEventRecord[]> {
+    const events = await this.listCalendarView(windowStart, windowEnd);
+    return events
+      .map((item) => ({
+        id: item.id ?? "",
+        summary: item.subject ?? undefined,
+        description: item.body?.content ?? undefined,
+        startISO: fromGraphDateTime(item.start),
+        endISO: fromGraphDateTime(item.end),
+        timezone: item.originalStartTimeZone ?? this.timezone,
+      }))
+      .filter((item) => item.id && item.startISO && item.endISO);
+  }
+
+  async updateEvent(
+    eventId: string,
+    updates: CalendarEventUpdate
+  ): Promise<{ eventId?: string; htmlLink?: string } | null> {
+    try {
+      const response = await withCalendarRetry("update", () =>
+        this.graph<GraphEvent>({
+          method: "PATCH",
+          url: `/me/events/${encodeURIComponent(eventId)}`,
+          data: {
+            subject: updates.summary,
+            body:
+              updates.description !== undefined
+                ? { contentType: "text", content: updates.description }
+                : undefined,
+            start: toGraphDateTime(updates.start, updates.timezone),
+            end: toGraphDateTime(updates.end, updates.timezone),
+          },
+        })
+      );
+
+      logger.info("📅 UPDATE success", { eventId, status: response.status });
+
+      return {
+        eventId: response.data.id ?? eventId,
+        htmlLink: response.data.webLink ?? undefined,
+      };
+    } catch (error) {
+      const response = (error as { response?: { status?: number; data?: unknown } }).response;
+      logger.error("📅 UPDATE failed", {
+        eventId,
+        status: response?.status,
+        response: response?.data,
+      });
+      throw error;
+    }
+  }
+
+  async cancelEvent(eventId: string): Promise<{ eventId?: string } | null> {
+    const eventPath = `/me/events/${encodeURIComponent(eventId)}`;
+
+    try {
+      const response = await withCalendarRetry("cancel", () =>
+        this.graph({
+          method: "POST",
+          url: `${eventPath}/cancel`,
+          data: { comment: "Cancelled by phone." },
+        })
+      ).catch(async (error) => {
+        // cancel is organizer-only; events we can't cancel (e.g. no attendees on some tenants) are deleted instead.
+        const status = (error as { response?: { status?: number } }).response?.status;
+        if (status !== 400) throw error;
+        return await withCalendarRetry("delete", () =>
+          this.graph({ method: "DELETE", url: eventPath })
+        );
+      });
+
+      logger.info("📅 DELETE success", { eventId, status: response.status });
+      return { eventId };
+    } catch (error) {
+      const response = (error as { response?: { status?: number; data?: unknown } }).response;
+      logger.error("📅 DELETE failed", {
+        eventId,
+        status: response?.status,
+        response: response?.data,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,228 @@
+import * as crypto from "node:crypto";
+import { env } from "../../config/env.js";
+import { getDatabase, type DatabaseHandle } from "../database.js";
+import type {
+  BusyInterval,
+  CalendarAdapter,
+  CalendarConnection,
+  CalendarEventDetails,
+  CalendarEventRecord,
+  CalendarEventUpdate,
+} from "./CalendarAdapter.js";
+import { logger } from "../../utils/logger.js";
+
+const IDEMPOTENCY_TTL_MS = 5 * 60 * 1000;
+const LIST_LIMIT = 50;
+
+interface CalendarEventRow {
+  id: string;
+  calendar_id: string;
+  summary: string | null;
+  description: string | null;
+  location: string | null;
+  start_at: string;
+  end_at: string;
+  timezone: string | null;
+  status: "confirmed" | "cancelled";
+  idempotency_key: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+let calendarDbInitialized = false;
+
+function getCalendarDb(): DatabaseHandle {
+  const database = getDatabase();
+  if (!calendarDbInitialized) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS calendar_events (
+        id TEXT PRIMARY KEY,
+        calendar_id TEXT NOT NULL,
+        summary TEXT,
+        description TEXT,
+        location TEXT,
+        start_at TEXT NOT NULL,
+        end_at TEXT NOT NULL,
+        timezone TEXT,
+        status TEXT NOT NULL DEFAULT 'confirmed',
+        idempotency_key TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS calendar_events_window
+        ON calendar_events (calendar_id, status, start_at, end_at);
+      CREATE INDEX IF NOT EXISTS calendar_events_idempotency
+        ON calendar_events (idempotency_key);
+    `);
+    calendarDbInitialized = true;
+  }
+  return database;
+}
+
+function toRecord(row: CalendarEventRow): CalendarEventRecord {
+  return {
+    id: row.id,
+    summary: row.summary ?? undefined,
+    description: row.description ?? undefined,
+    startISO: row.start_at,
+    endISO: row.end_at,
+    timezone: row.timezone ?? undefined,
+  };
+}
+
+/**
+ * Stores appointments in the local DB_PATH database. Useful for shops without a
+ * hosted calendar and as a deterministic calendar for exercising the booking tools.
+ */
+export class SqliteCalendarAdapter implements CalendarAdapter {
+  private calendarId: string;
+
+  constructor(calendarId?: string, connection: CalendarConnection = {}) {
+    this.calendarId =
+      calendarId ?? (connection.settings ?? env).SQLITE_CALENDAR_ID ?? "primary";
+  }
+
+  private listOverlapping(windowStart: Date, windowEnd: Date): CalendarEventRow[] {
+    // ISO strings in UTC sort lexically, so the overlap check can run on TEXT columns.
+    return getCalendarDb()
+      .prepare(
+        `SELECT * FROM calendar_events
+         WHERE calendar_id = ? AND status = 'confirmed' AND start_at < ? AND end_at > ?
+         ORDER BY start_at ASC`
+      )
+      .all(this.calendarId, windowEnd.toISOString(), windowStart.toISOString()) as CalendarEventRow[];
+  }
+
+  private getRow(eventId: string): CalendarEventRow | undefined {
+    return getCalendarDb()
+      .prepare("SELECT * FROM calendar_events WHERE id = ? AND calendar_id = ?")
+      .get(eventId, this.calendarId) as CalendarEventRow | undefined;
+  }
+
+  async getAvailability(windowStart: Date, windowEnd: Date): Promise<BusyInterval[]> {
+    return this.listOverlapping(windowStart, windowEnd).map((row) => ({
+      start: new Date(row.start_at),
+      end: new Date(row.end_at),
+    }));
+  }
+
+  async createEvent(
+    start: Date,
+    end: Date,
+    details: CalendarEventDetails
+  ): Promise<{ eventId?: string; htmlLink?: string } | null> {
+    const dryRun = (process.env.BOOKING_DRY_RUN ?? "").toLowerCase() === "true";
+    if (dryRun) {
+      logger.info("BOOKING_DRY_RUN enabled. Skipping calendar create.", {
+        start: start.toISOString(),
+        end: end.toISOString(),
+      });
+      return null;
+    }
+
+    const database = getCalendarDb();
+    const startISO = start.toISOString();
+    const endISO = end.toISOString();
+    const idempotencySource = details.idempotencySource ?? "unknown-session";
+    const idempotencyKey = `${idempotencySource}:${this.calendarId}:${startISO}:${endISO}`;
+    const toolCallId = details.toolCallId;
+
+    const cutoff = new Date(Date.now() - IDEMPOTENCY_TTL_MS).toISOString();
+    const duplicate = database
+      .prepare(
+        `SELECT * FROM calendar_events
+         WHERE idempotency_key = ? AND status = 'confirmed' AND created_at > ?
+         ORDER BY created_at DESC LIMIT 1`
+      )
+      .get(idempotencyKey, cutoff) as CalendarEventRow | undefined;
+    if (duplicate) {
+      logger.info("📅 INSERT skipped (duplicate)", {
+        idempotencyKey,
+        toolCallId,
+        eventId: duplicate.id,
+      });
+      return { eventId: duplicate.id };
+    }
+
+    const now = new Date().toISOString();
+    const eventId = crypto.randomUUID();
+    database
+      .prepare(
+        `INSERT INTO calendar_events
+         (id, calendar_id, summary, description, location, start_at, end_at, timezone, status,
+          idempotency_key, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'confirmed', ?, ?, ?)`
+      )
+      .run(
+        eventId,
+        this.calendarId,
+        details.title,
+        details.description,
+        details.location ?? null,
+        startISO,
+        endISO,
+        details.timezone,
+        idempotencyKey,
+        now,
+        now
+      );
+
+    logger.info("📅 INSERT success", { idempotencyKey, toolCallId, eventId });
+    return { eventId };
+  }
+
+  async listEvents(windowStart: Date, windowEnd: Date): Promise<CalendarEventRecord[]> {
+    return this.listOverlapping(windowStart, windowEnd).slice(0, LIST_LIMIT).map(toRecord);
+  }
+
+  async updateEvent(
+    eventId: string,
+    updates: CalendarEventUpdate
+  ): Promise<{ eventId?: string; htmlLink?: string } | null> {
+    const existing = this.getRow(eventId);
+    if (!existing || existing.status === "cancelled") {
+      logger.error("📅 UPDATE failed", { eventId, status: 404 });
+      throw new Error(`Calendar event not found: ${eventId}`);
+    }
+
+    getCalendarDb()
+      .prepare(
+        `UPDATE calendar_events
+         SET summary = COALESCE(?, summary),
+             description = COALESCE(?, description),
+             start_at = ?,
+             end_at = ?,
+             timezone = ?,
+             updated_at = ?
+         WHERE id = ?`
+      )
+      .run(
+        updates.summary ?? null,
+        updates.description ?? null,
+        updates.start.toISOString(),
+        updates.end.toISOString(),
+        updates.timezone,
+        new Date().toISOString(),
+        eventId
+      );
+
+    logger.info("📅 UPDATE success", { eventId });
+    return { eventId };
+  }
+
+  async cancelEvent(eventId: string): Promise<{ eventId?: string } | null> {
+    const existing = this.getRow(eventId);
+    if (!existing || existing.status === "cancelled") {
+      logger.error("📅 DELETE failed", { eventId, status: 404 });
+      throw new Error(`Calendar event not found: ${eventId}`);
+    }
+
+    getCalendarDb()
+      .prepare("UPDATE calendar_events SET status = 'cancelled', updated_at = ? WHERE id = ?")
+      .run(new Date().toISOString(), eventId);
+
+    logger.info("📅 DELETE success", { eventId });
+    return { eventId };
+  }
+}
@@ -0,0 +1,50 @@
+import { logger } from "../../utils/logger.js";
+
+const RATE_LIMIT_RETRY_DELAYS_MS = [500, 1500, 3000];
+const MAX_RETRY_AFTER_MS = 10_000;
+
+export function isRateLimitError(error: unknown) {
+  if (!error || typeof error !== "object") return false;
+  const response = (error as { response?: { status?: number; data?: any } }).response;
+  const status = response?.status;
+  if (status !== 403 && status !== 429) return false;
+  const reasons: string[] =
+    response?.data?.error?.errors?.map((item: { reason?: string }) => item.reason) ?? [];
+  return (
+    status === 429 ||
+    reasons.some((reason) =>
+      ["rateLimitExceeded", "userRateLimitExceeded"].includes(reason ?? "")
+    )
+  );
+}
+
+/** Graph and most CalDAV servers send Retry-After (seconds) with their 429s. */
+function getRetryAfterMs(error: unknown): number | null {
+  const headers = (error as { response?: { headers?: Record<string, unknown> } }).response?.headers;
+  const raw = headers?.["retry-after"];
+  const seconds = Number(Array.isArray(raw) ? raw[0] : raw);
+  if (!Number.isFinite(seconds) || seconds <= 0) return null;
+  return Math.min(seconds * 1000, MAX_RETRY_AFTER_MS);
+}
+
+export async function withCalendarRetry<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; attempt <= RATE_LIMIT_RETRY_DELAYS_MS.length; attempt += 1) {
+    try {
+      if (attempt > 0) {
+        logger.info("📅 retrying calendar operation", { operation, attempt });
+      }
+      return await fn();
+    } catch (error) {
+      if (!isRateLimitError(error) || attempt === RATE_LIMIT_RETRY_DELAYS_MS.length) {
+        throw error;
+      }
+      const delayMs = Math.max(
+        RATE_LIMIT_RETRY_DELAYS_MS[attempt] ?? 0,
+        getRetryAfterMs(error) ?? 0
+      );
+      logger.info("📅 rate limit hit; backing off", { operation, delayMs });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+  throw new Error(`Calendar operation failed after retries: ${operation}`);
+}
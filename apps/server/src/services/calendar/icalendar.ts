@@ -0,0 +1,305 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import customParseFormat from "dayjs/plugin/customParseFormat.js";
+import type { BusyInterval } from "./CalendarAdapter.js";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+dayjs.extend(customParseFormat);
+
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ICalEvent {
+  uid?: string;
+  summary?: string;
+  description?: string;
+  status?: string;
+  startISO: string;
+  endISO: string;
+  timezone?: string;
+}
+
+const PRODID = "-//BookedSolid//Receptionist//EN";
+
+export function formatICalDate(date: Date): string {
+  return dayjs(date).utc().format("YYYYMMDD[T]HHmmss[Z]");
+}
+
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+export function unescapeICalText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+export function unfoldLines(ics: string): string[] {
+  return ics
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.length > 0);
+}
+
+/** Folds a content line at 75 octets as required by RFC 5545. */
+export function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, "utf8");
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+export function parseProperty(line: string): ICalProperty | null {
+  const separator = findValueSeparator(line);
+  if (separator === -1) return null;
+  const [name, ...rawParams] = line.slice(0, separator).split(";");
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const index = param.indexOf("=");
+    if (index > 0) {
+      params[param.slice(0, index).toUpperCase()] = param.slice(index + 1).replace(/^"|"$/g, "");
+    }
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+function findValueSeparator(line: string): number {
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (char === '"') quoted = !quoted;
+    if (char === ":" && !quoted) return index;
+  }
+  return -1;
+}
+
+export function parseICalDate(value: string, params: Record<string, string> = {}): Date | null {
+  if (params.VALUE === "DATE" || /^\d{8}$/.test(value)) {
+    const parsed = params.TZID
+      ? dayjs.tz(value, "YYYYMMDD", params.TZID)
+      : dayjs.utc(value, "YYYYMMDD");
+    return parsed.isValid() ? parsed.toDate() : null;
+  }
+  if (value.endsWith("Z")) {
+    const parsed = dayjs.utc(value, "YYYYMMDD[T]HHmmss[Z]");
+    return parsed.isValid() ? parsed.toDate() : null;
+  }
+  const parsed = params.TZID
+    ? dayjs.tz(value, "YYYYMMDD[T]HHmmss", params.TZID)
+    : dayjs.utc(value, "YYYYMMDD[T]HHmmss");
+  return parsed.isValid() ? parsed.toDate() : null;
+}
+
+/** Parses an RFC 5545 duration such as PT30M or P1DT2H into milliseconds. */
+export function parseICalDuration(value: string): number | null {
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const totalSeconds =
+    Number(weeks ?? 0) * 7 * 86400 +
+    Number(days ?? 0) * 86400 +
+    Number(hours ?? 0) * 3600 +
+    Number(minutes ?? 0) * 60 +
+    Number(seconds ?? 0);
+  return (sign === "-" ? -1 : 1) * totalSeconds * 1000;
+}
+
+export function buildVEventLines(input: {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary?: string;
+  description?: string;
+  location?: string;
+  sequence?: number;
+}): string[] {
+  const now = formatICalDate(new Date());
+  return [
+    "BEGIN:VEVENT",
+    `UID:${input.uid}`,
+    `DTSTAMP:${now}`,
+    `LAST-MODIFIED:${now}`,
+    `SEQUENCE:${input.sequence ?? 0}`,
+    `DTSTART:${formatICalDate(input.start)}`,
+    `DTEND:${formatICalDate(input.end)}`,
+    input.summary ? `SUMMARY:${escapeICalText(input.summary)}` : null,
+    input.description ? `DESCRIPTION:${escapeICalText(input.description)}` : null,
+    input.location ? `LOCATION:${escapeICalText(input.location)}` : null,
+    "STATUS:CONFIRMED",
+    "END:VEVENT",
+  ].filter((line): line is string => Boolean(line));
+}
+
+export function buildCalendar(eventLines: string[]): string {
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODID}`, ...eventLines, "END:VCALENDAR"];
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+/**
+ * Rewrites the first VEVENT of an existing calendar object in place, keeping any
+ * properties we don't manage (attendees, alarms, VTIMEZONE blocks) untouched.
+ */
+export function patchVEvent(
+  ics: string,
+  updates: { start: Date; end: Date; summary?: string; description?: string }
+): string {
+  const lines = unfoldLines(ics);
+  const replaced = new Set(["DTSTART", "DTEND", "DURATION", "DTSTAMP", "LAST-MODIFIED", "SEQUENCE"]);
+  if (updates.summary !== undefined) replaced.add("SUMMARY");
+  if (updates.description !== undefined) replaced.add("DESCRIPTION");
+
+  const output: string[] = [];
+  let depth = 0;
+  let inFirstEvent = false;
+  let patched = false;
+  let sequence = 0;
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (property?.name === "BEGIN") {
+      depth += 1;
+      if (property.value === "VEVENT" && !patched) inFirstEvent = true;
+    }
+    if (inFirstEvent && depth === 2 && property && replaced.has(property.name)) {
+      if (property.name === "SEQUENCE") sequence = Number(property.value) || 0;
+      continue;
+    }
+    if (property?.name === "END") {
+      if (inFirstEvent && property.value === "VEVENT" && depth === 2) {
+        const now = formatICalDate(new Date());
+        output.push(
+          `DTSTAMP:${now}`,
+          `LAST-MODIFIED:${now}`,
+          `SEQUENCE:${sequence + 1}`,
+          `DTSTART:${formatICalDate(updates.start)}`,
+          `DTEND:${formatICalDate(updates.end)}`
+        );
+        if (updates.summary !== undefined) output.push(`SUMMARY:${escapeICalText(updates.summary)}`);
+        if (updates.description !== undefined) {
+          output.push(`DESCRIPTION:${escapeICalText(updates.description)}`);
+        }
+        inFirstEvent = false;
+        patched = true;
+      }
+      depth -= 1;
+    }
+    output.push(line);
+  }
+
+  return `${output.map(foldLine).join("\r\n")}\r\n`;
+}
+
+export function parseVEvents(ics: string): ICalEvent[] {
+  const events: ICalEvent[] = [];
+  let current: Record<string, ICalProperty> | null = null;
+  let nested = 0;
+
+  for (const line of unfoldLines(ics)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+    if (property.name === "BEGIN") {
+      if (property.value === "VEVENT") {
+        current = {};
+      } else if (current) {
+        nested += 1;
+      }
+      continue;
+    }
+    if (property.name === "END") {
+      if (property.value === "VEVENT" && current) {
+        const event = toEvent(current);
+        if (event) events.push(event);
+        current = null;
+      } else if (current) {
+        nested -= 1;
+      }
+      continue;
+    }
+    if (current && nested === 0 && !current[property.name]) {
+      current[property.name] = property;
+    }
+  }
+
+  return events;
+}
+
+function toEvent(properties: Record<string, ICalProperty>): ICalEvent | null {
+  const dtStart = properties.DTSTART;
+  if (!dtStart) return null;
+  const start = parseICalDate(dtStart.value, dtStart.params);
+  if (!start) return null;
+
+  let end: Date | null = null;
+  if (properties.DTEND) {
+    end = parseICalDate(properties.DTEND.value, properties.DTEND.params);
+  } else if (properties.DURATION) {
+    const durationMs = parseICalDuration(properties.DURATION.value);
+    end = durationMs === null ? null : new Date(start.getTime() + durationMs);
+  }
+  if (!end) {
+    // All-day events without DTEND last one day; timed events are instantaneous.
+    end = dtStart.params.VALUE === "DATE" ? dayjs(start).add(1, "day").toDate() : start;
+  }
+
+  return {
+    uid: properties.UID?.value,
+    summary: properties.SUMMARY ? unescapeICalText(properties.SUMMARY.value) : undefined,
+    description: properties.DESCRIPTION
+      ? unescapeICalText(properties.DESCRIPTION.value)
+      : undefined,
+    status: properties.STATUS?.value.toUpperCase(),
+    startISO: start.toISOString(),
+    endISO: end.toISOString(),
+    timezone: dtStart.params.TZID,
+  };
+}
+
+/** Reads busy periods from the VFREEBUSY component of a free-busy-query response. */
+export function parseFreeBusy(ics: string): BusyInterval[] {
+  const busy: BusyInterval[] = [];
+  for (const line of unfoldLines(ics)) {
+    const property = parseProperty(line);
+    if (!property || property.name !== "FREEBUSY") continue;
+    const type = (property.params.FBTYPE ?? "BUSY").toUpperCase();
+    if (type === "FREE") continue;
+    for (const period of property.value.split(",")) {
+      const [startRaw, endRaw] = period.split("/");
+      if (!startRaw || !endRaw) continue;
+      const start = parseICalDate(startRaw);
+      if (!start) continue;
+      const durationMs = endRaw.startsWith("P") || endRaw.startsWith("+P")
+        ? parseICalDuration(endRaw)
+        : null;
+      const end = durationMs !== null ? new Date(start.getTime() + durationMs) : parseICalDate(endRaw);
+      if (end) busy.push({ start, end });
+    }
+  }
+  return busy;
+}
@@ -0,0 +1,89 @@
+import { logger } from "../../utils/logger.js";
+
+export interface InsertedEvent {
+  eventId?: string;
+  htmlLink?: string;
+}
+
+const IDEMPOTENCY_TTL_MS = 5 * 60 * 1000;
+const idempotencyCache = new Map<
+  string,
+  { status: "inflight" | "done"; eventId?: string; htmlLink?: string; createdAt: number }
+>();
+const inflightPromises = new Map<string, Promise<InsertedEvent | null>>();
+
+function pruneIdempotencyCache(now = Date.now()) {
+  for (const [key, entry] of idempotencyCache.entries()) {
+    if (now - entry.createdAt > IDEMPOTENCY_TTL_MS) {
+      idempotencyCache.delete(key);
+      inflightPromises.delete(key);
+    }
+  }
+}
+
+/**
+ * Runs a calendar insert at most once per idempotency key within the TTL. Concurrent
+ * callers with the same key share the in-flight promise; failures clear the key so
+ * the next attempt can retry.
+ */
+export async function runIdempotentInsert(
+  idempotencyKey: string,
+  toolCallId: string | undefined,
+  insert: () => Promise<InsertedEvent>
+): Promise<InsertedEvent | null> {
+  pruneIdempotencyCache();
+  const cached = idempotencyCache.get(idempotencyKey);
+  if (cached) {
+    logger.info("📅 INSERT skipped (duplicate)", {
+      idempotencyKey,
+      toolCallId,
+      status: cached.status,
+      eventId: cached.eventId,
+    });
+    if (cached.status === "inflight") {
+      const inflight = inflightPromises.get(idempotencyKey);
+      if (inflight) {
+        return await inflight;
+      }
+    }
+    return {
+      eventId: cached.eventId,
+      htmlLink: cached.htmlLink,
+    };
+  }
+
+  idempotencyCache.set(idempotencyKey, {
+    status: "inflight",
+    createdAt: Date.now(),
+  });
+
+  logger.info("📅 INSERT start", { idempotencyKey, toolCallId });
+
+  const insertPromise = insert()
+    .then((result) => {
+      idempotencyCache.set(idempotencyKey, {
+        status: "done",
+        eventId: result.eventId,
+        htmlLink: result.htmlLink,
+        createdAt: Date.now(),
+      });
+      return result;
+    })
+    .catch((error) => {
+      idempotencyCache.delete(idempotencyKey);
+      const response = (error as { response?: { status?: number; data?: unknown } }).response;
+      logger.error("📅 INSERT failed", {
+        idempotencyKey,
+        toolCallId,
+        status: response?.status,
+        response: response?.data,
+      });
+      throw error;
+    })
+    .finally(() => {
+      inflightPromises.delete(idempotencyKey);
+    });
+
+  inflightPromises.set(idempotencyKey, insertPromise);
+  return await insertPromise;
+}
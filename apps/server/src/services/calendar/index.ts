@@ -1,6 +1,29 @@
-import type { CalendarAdapter } from "./CalendarAdapter.js";
+import { getActiveBusiness } from "../businessContext.js";
+import type { CalendarAdapter, CalendarConnection } from "./CalendarAdapter.js";
+import { CalDavCalendarAdapter } from "./CalDavCalendarAdapter.js";
 import { GoogleCalendarAdapter } from "./GoogleCalendarAdapter.js";
+import { MicrosoftCalendarAdapter } from "./MicrosoftCalendarAdapter.js";
+import { SqliteCalendarAdapter } from "./SqliteCalendarAdapter.js";
 
-export function getCalendarAdapter(): CalendarAdapter {
-  return new GoogleCalendarAdapter();
+/**
+ * `calendarId` selects a specific calendar on the configured provider (a staff member's
+ * calendar); the provider's env default is used when it is omitted. For CalDAV it is the
+ * collection URL. The provider and its credentials belong to the active business.
+ */
+export function getCalendarAdapter(options: { calendarId?: string } = {}): CalendarAdapter {
+  const business = getActiveBusiness();
+  const connection: CalendarConnection = {
+    settings: business.calendarConfig,
+    timezone: business.timezone,
+  };
+  if (business.calendarProvider === "sqlite") {
+    return new SqliteCalendarAdapter(options.calendarId, connection);
+  }
+  if (business.calendarProvider === "caldav") {
+    return new CalDavCalendarAdapter(options.calendarId, connection);
+  }
+  if (business.calendarProvider === "microsoft") {
+    return new MicrosoftCalendarAdapter(options.calendarId, connection);
+  }
+  return new GoogleCalendarAdapter(options.calendarId, connection);
 }
@@ -0,0 +1,316 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import { getDatabase, type DatabaseHandle } from "./database.js";
+import { logger } from "../utils/logger.js";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export type CallOutcome =
+  | "booked"
+  | "booking_failed"
+  | "follow_up"
+  | "transferred"
+  | "handled"
+  | "owner_answered"
+  | "missed";
+
+export const CALL_OUTCOMES: CallOutcome[] = [
+  "booked",
+  "booking_failed",
+  "follow_up",
+  "transferred",
+  "handled",
+  "owner_answered",
+  "missed",
+];
+
+export interface CallRecord {
+  id: number;
+  call_sid: string;
+  business_id: number | null;
+  caller_phone: string | null;
+  business_phone: string | null;
+  caller_name: string | null;
+  reason: string | null;
+  outcome: CallOutcome;
+  follow_up: string | null;
+  // 1 when the caller asked to book, whether or not it went through.
+  appointment_requested: number;
+  appointment_event_id: string | null;
+  appointment_start_iso: string | null;
+  appointment_link: string | null;
+  started_at: string;
+  ended_at: string | null;
+  duration_seconds: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CallRecordInput {
+  call_sid: string;
+  business_id?: number | null;
+  caller_phone?: string | null;
+  business_phone?: string | null;
+  caller_name?: string | null;
+  reason?: string | null;
+  outcome: CallOutcome;
+  follow_up?: string | null;
+  appointment_requested?: boolean;
+  appointment_event_id?: string | null;
+  appointment_start_iso?: string | null;
+  appointment_link?: string | null;
+  started_at: string;
+  ended_at?: string | null;
+}
+
+export interface CallQuery {
+  // Omit for every business; null means the env-configured business.
+  businessId?: number | null;
+  from?: string;
+  to?: string;
+  outcome?: CallOutcome;
+}
+
+export interface CallStats {
+  total: number;
+  // Calls picked up by the receptionist or the owner, i.e. everything but "missed".
+  answered: number;
+  bookingRequests: number;
+  booked: number;
+  answerRate: number | null;
+  bookingConversion: number | null;
+}
+
+export interface DailyCallStats extends CallStats {
+  date: string;
+}
+
+type CallStore = {
+  recordCall: (input: CallRecordInput) => CallRecord;
+  getCallBySid: (callSid: string) => CallRecord | undefined;
+  listCalls: (query: CallQuery) => CallRecord[];
+};
+
+let store: CallStore | null = null;
+
+function getStore(): CallStore {
+  if (!store) {
+    store = initializeStore();
+  }
+  return store;
+}
+
+let callHistoryDbInitialized = false;
+
+function getDb(): DatabaseHandle {
+  const database = getDatabase();
+  if (!callHistoryDbInitialized) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS receptionist_calls (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        call_sid TEXT NOT NULL UNIQUE,
+        business_id INTEGER,
+        caller_phone TEXT,
+        business_phone TEXT,
+        caller_name TEXT,
+        reason TEXT,
+        outcome TEXT NOT NULL,
+        follow_up TEXT,
+        appointment_requested INTEGER NOT NULL DEFAULT 0,
+        appointment_event_id TEXT,
+        appointment_start_iso TEXT,
+        appointment_link TEXT,
+        started_at TEXT NOT NULL,
+        ended_at TEXT,
+        duration_seconds INTEGER,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_receptionist_calls_started_at
+        ON receptionist_calls (started_at);
+    `);
+    callHistoryDbInitialized = true;
+  }
+  return database;
+}
+
+function initializeStore(): CallStore {
+  try {
+    return createSqlStore(getDb());
+  } catch (error) {
+    logger.warn(
+      "SQLite driver not available; falling back to in-memory call history. Data will not persist across restarts.",
+      error
+    );
+    return createMemoryStore();
+  }
+}
+
+function toDurationSeconds(startedAt: string, endedAt: string | null | undefined) {
+  if (!endedAt) return null;
+  const duration = Date.parse(endedAt) - Date.parse(startedAt);
+  return Number.isFinite(duration) ? Math.max(0, Math.round(duration / 1000)) : null;
+}
+
+function toRecordFields(input: CallRecordInput) {
+  return {
+    call_sid: input.call_sid,
+    business_id: input.business_id ?? null,
+    caller_phone: input.caller_phone ?? null,
+    business_phone: input.business_phone ?? null,
+    caller_name: input.caller_name ?? null,
+    reason: input.reason ?? null,
+    outcome: input.outcome,
+    follow_up: input.follow_up ?? null,
+    appointment_requested: input.appointment_requested ? 1 : 0,
+    appointment_event_id: input.appointment_event_id ?? null,
+    appointment_start_iso: input.appointment_start_iso ?? null,
+    appointment_link: input.appointment_link ?? null,
+    started_at: input.started_at,
+    ended_at: input.ended_at ?? null,
+    duration_seconds: toDurationSeconds(input.started_at, input.ended_at),
+  };
+}
+
+function createSqlStore(database: DatabaseHandle): CallStore {
+  const getCallBySid = (callSid: string) =>
+    database.prepare("SELECT * FROM receptionist_calls WHERE call_sid = ?").get(callSid) as
+      | CallRecord
+      | undefined;
+
+  return {
+    recordCall(input) {
+      const fields = toRecordFields(input);
+      const columns = Object.keys(fields);
+      const now = new Date().toISOString();
+      database
+        .prepare(
+          `INSERT INTO receptionist_calls (${columns.join(", ")}, created_at, updated_at)
+           VALUES (${columns.map(() => "?").join(", ")}, ?, ?)
+           ON CONFLICT(call_sid) DO UPDATE SET
+             ${columns
+               .filter((column) => column !== "call_sid")
+               .map((column) => `${column} = excluded.${column}`)
+               .join(", ")},
+             updated_at = excluded.updated_at`
+        )
+        .run(...Object.values(fields), now, now);
+      return getCallBySid(input.call_sid) as CallRecord;
+    },
+    getCallBySid,
+    listCalls(query) {
+      const clauses: string[] = [];
+      const params: unknown[] = [];
+      if (query.businessId === null) {
+        clauses.push("business_id IS NULL");
+      } else if (query.businessId !== undefined) {
+        clauses.push("business_id = ?");
+        params.push(query.businessId);
+      }
+      if (query.from) {
+        clauses.push("started_at >= ?");
+        params.push(query.from);
+      }
+      if (query.to) {
+        clauses.push("started_at < ?");
+        params.push(query.to);
+      }
+      if (query.outcome) {
+        clauses.push("outcome = ?");
+        params.push(query.outcome);
+      }
+      const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+      return database
+        .prepare(`SELECT * FROM receptionist_calls ${where} ORDER BY started_at DESC`)
+        .all(...params) as CallRecord[];
+    },
+  };
+}
+
+function createMemoryStore(): CallStore {
+  const calls = new Map<string, CallRecord>();
+  let nextCallId = 1;
+
+  return {
+    recordCall(input) {
+      const now = new Date().toISOString();
+      const existing = calls.get(input.call_sid);
+      const record: CallRecord = {
+        ...toRecordFields(input),
+        id: existing?.id ?? nextCallId++,
+        created_at: existing?.created_at ?? now,
+        updated_at: now,
+      };
+      calls.set(input.call_sid, record);
+      return record;
+    },
+    getCallBySid(callSid) {
+      return calls.get(callSid);
+    },
+    listCalls(query) {
+      return Array.from(calls.values())
+        .filter(
+          (call) => query.businessId === undefined || call.business_id === query.businessId
+        )
+        .filter((call) => !query.from || call.started_at >= query.from)
+        .filter((call) => !query.to || call.started_at < query.to)
+        .filter((call) => !query.outcome || call.outcome === query.outcome)
+        .sort((a, b) => b.started_at.localeCompare(a.started_at));
+    },
+  };
+}
+
+/** Saves the call, replacing any earlier record with the same call SID. */
+export function recordCall(input: CallRecordInput): CallRecord {
+  return getStore().recordCall(input);
+}
+
+export function getCallBySid(callSid: string): CallRecord | undefined {
+  return getStore().getCallBySid(callSid);
+}
+
+/** Newest first. */
+export function listCalls(query: CallQuery = {}): CallRecord[] {
+  return getStore().listCalls(query);
+}
+
+function computeStats(calls: CallRecord[]): CallStats {
+  const answered = calls.filter((call) => call.outcome !== "missed").length;
+  const bookingRequests = calls.filter((call) => call.appointment_requested === 1).length;
+  const booked = calls.filter((call) => call.outcome === "booked").length;
+  return {
+    total: calls.length,
+    answered,
+    bookingRequests,
+    booked,
+    answerRate: calls.length ? answered / calls.length : null,
+    bookingConversion: bookingRequests ? booked / bookingRequests : null,
+  };
+}
+
+/**
+ * Answer rate and booking conversion for `calls`, overall and per day in `timezoneName`.
+ * Days with no calls are included so charts keep an even time axis.
+ */
+export function summarizeCalls(
+  calls: CallRecord[],
+  range: { from: string; to: string },
+  timezoneName: string
+): { totals: CallStats; daily: DailyCallStats[] } {
+  const byDay = new Map<string, CallRecord[]>();
+  for (const call of calls) {
+    const date = dayjs(call.started_at).tz(timezoneName).format("YYYY-MM-DD");
+    byDay.set(date, [...(byDay.get(date) ?? []), call]);
+  }
+
+  const daily: DailyCallStats[] = [];
+  const end = dayjs(range.to).tz(timezoneName);
+  let day = dayjs(range.from).tz(timezoneName).startOf("day");
+  for (; day.isBefore(end); day = day.add(1, "day")) {
+    const date = day.format("YYYY-MM-DD");
+    daily.push({ date, ...computeStats(byDay.get(date) ?? []) });
+  }
+  return { totals: computeStats(calls), daily };
+}
@@ -0,0 +1,172 @@
+import { getDatabase, type DatabaseHandle } from "./database.js";
+import { logger } from "../utils/logger.js";
+
+export type TranscriptSpeaker = "caller" | "assistant" | "server";
+export type TranscriptEntryType = "utterance" | "tool_call" | "tool_output";
+
+export interface TranscriptEntry {
+  id: number;
+  call_sid: string;
+  // Call mode the stream ran in: receptionist, spanish_coach or another registered mode.
+  mode: string;
+  // Tool calls come from the assistant; their outputs (and fallback bookings) from the server.
+  speaker: TranscriptSpeaker;
+  entry_type: TranscriptEntryType;
+  text: string | null;
+  // Realtime response the assistant line or tool call belongs to.
+  response_id: string | null;
+  // Realtime conversation item, set for caller lines.
+  item_id: string | null;
+  tool_name: string | null;
+  tool_call_id: string | null;
+  // JSON tool arguments or output.
+  payload: string | null;
+  created_at: string;
+}
+
+export type TranscriptEntryInput = Omit<
+  TranscriptEntry,
+  "id" | "text" | "response_id" | "item_id" | "tool_name" | "tool_call_id" | "payload" | "created_at"
+> & {
+  text?: string | null;
+  response_id?: string | null;
+  item_id?: string | null;
+  tool_name?: string | null;
+  tool_call_id?: string | null;
+  payload?: unknown;
+};
+
+type TranscriptStore = {
+  recordEntry: (entry: Omit<TranscriptEntry, "id">) => TranscriptEntry;
+  listEntries: (callSid: string) => TranscriptEntry[];
+};
+
+let store: TranscriptStore | null = null;
+
+function getStore(): TranscriptStore {
+  if (!store) {
+    store = initializeStore();
+  }
+  return store;
+}
+
+let transcriptDbInitialized = false;
+
+function getDb(): DatabaseHandle {
+  const database = getDatabase();
+  if (!transcriptDbInitialized) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS call_transcripts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        call_sid TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        speaker TEXT NOT NULL,
+        entry_type TEXT NOT NULL,
+        text TEXT,
+        response_id TEXT,
+        item_id TEXT,
+        tool_name TEXT,
+        tool_call_id TEXT,
+        payload TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_call_transcripts_call_sid ON call_transcripts (call_sid, id);
+    `);
+    transcriptDbInitialized = true;
+  }
+  return database;
+}
+
+function initializeStore(): TranscriptStore {
+  try {
+    return createSqlStore(getDb());
+  } catch (error) {
+    logger.warn(
+      "SQLite driver not available; falling back to in-memory call transcripts. Data will not persist across restarts.",
+      error
+    );
+    return createMemoryStore();
+  }
+}
+
+function createSqlStore(database: DatabaseHandle): TranscriptStore {
+  return {
+    recordEntry(entry) {
+      database
+        .prepare(
+          `INSERT INTO call_transcripts
+           (call_sid, mode, speaker, entry_type, text, response_id, item_id, tool_name,
+            tool_call_id, payload, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          entry.call_sid,
+          entry.mode,
+          entry.speaker,
+          entry.entry_type,
+          entry.text,
+          entry.response_id,
+          entry.item_id,
+          entry.tool_name,
+          entry.tool_call_id,
+          entry.payload,
+          entry.created_at
+        );
+      const result = database.prepare("SELECT last_insert_rowid() as id").get() as { id: number };
+      return { id: result.id, ...entry };
+    },
+    listEntries(callSid) {
+      return database
+        .prepare("SELECT * FROM call_transcripts WHERE call_sid = ? ORDER BY id ASC")
+        .all(callSid) as TranscriptEntry[];
+    },
+  };
+}
+
+function createMemoryStore(): TranscriptStore {
+  const entries: TranscriptEntry[] = [];
+  let nextEntryId = 1;
+
+  return {
+    recordEntry(entry) {
+      const record = { id: nextEntryId++, ...entry };
+      entries.push(record);
+      return record;
+    },
+    listEntries(callSid) {
+      return entries.filter((entry) => entry.call_sid === callSid);
+    },
+  };
+}
+
+function serializePayload(payload: unknown) {
+  if (payload === undefined || payload === null) return null;
+  return typeof payload === "string" ? payload : JSON.stringify(payload);
+}
+
+/** Appends one line, tool call or tool output to the call's transcript. */
+export function recordTranscriptEntry(input: TranscriptEntryInput): TranscriptEntry {
+  return getStore().recordEntry({
+    call_sid: input.call_sid,
+    mode: input.mode,
+    speaker: input.speaker,
+    entry_type: input.entry_type,
+    text: input.text?.trim() || null,
+    response_id: input.response_id ?? null,
+    item_id: input.item_id ?? null,
+    tool_name: input.tool_name ?? null,
+    tool_call_id: input.tool_call_id ?? null,
+    payload: serializePayload(input.payload),
+    created_at: new Date().toISOString(),
+  });
+}
+
+/** Everything recorded for the call, in the order it happened. */
+export function listTranscriptEntries(callSid: string): TranscriptEntry[] {
+  return getStore().listEntries(callSid);
+}
+
+/** Just the spoken lines, for reading the conversation. */
+export function listUtterances(callSid: string): TranscriptEntry[] {
+  return listTranscriptEntries(callSid).filter((entry) => entry.entry_type === "utterance");
+}
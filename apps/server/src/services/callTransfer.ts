@@ -0,0 +1,148 @@
+import twilio from "twilio";
+import { z } from "zod";
+import { env } from "../config/env.js";
+import { getActiveBusiness } from "./businessContext.js";
+import type { BusinessProfile } from "./businesses.js";
+import { buildPublicUrl } from "./coachTwilio.js";
+import { defineTool } from "./tools/toolDefinition.js";
+import { logger } from "../utils/logger.js";
+
+// The owner line is always available under this name, on top of the routing table.
+export const OWNER_ROUTE = "owner";
+
+export const transferRoutesSchema = z.array(
+  z.object({
+    name: z
+      .string()
+      .min(1)
+      .transform((name) => name.trim().toLowerCase()),
+    number: z.string().min(1),
+    // Read to the receptionist so it can match what the caller asks for.
+    description: z.string().optional(),
+  })
+);
+
+export type TransferRoute = z.infer<typeof transferRoutesSchema>[number];
+
+export interface TransferCallInput {
+  department?: string;
+  reason?: string;
+}
+
+export type TransferCallOutput =
+  | { transferred: true; department: string; description?: string }
+  | { transferred: false; error: { code: string; message: string } };
+
+// Parsed tables keyed by their raw JSON, one per business.
+const cachedRoutes = new Map<string, TransferRoute[]>();
+
+function parseRoutes(raw: string | null): TransferRoute[] {
+  if (!raw) return [];
+  const cached = cachedRoutes.get(raw);
+  if (cached) return cached;
+  let routes: TransferRoute[] = [];
+  try {
+    routes = transferRoutesSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    logger.warn("⚠️ Transfer routes JSON is invalid; only the owner line is available", error);
+  }
+  cachedRoutes.set(raw, routes);
+  return routes;
+}
+
+/** The business's departments plus its owner line (forward number, else first owner phone). */
+export function listTransferRoutes(business: BusinessProfile = getActiveBusiness()) {
+  const routes = parseRoutes(business.transferRoutesJson).filter(
+    (route) => route.name !== OWNER_ROUTE
+  );
+  const ownerNumber = business.forwardNumber ?? business.ownerPhones[0];
+  return ownerNumber
+    ? [{ name: OWNER_ROUTE, number: ownerNumber, description: "The owner" }, ...routes]
+    : routes;
+}
+
+/** Route for `department` (the owner when omitted), or null if the business has no such line. */
+export function resolveTransferRoute(
+  department?: string | null,
+  business: BusinessProfile = getActiveBusiness()
+): TransferRoute | null {
+  const name = department?.trim().toLowerCase() || OWNER_ROUTE;
+  return listTransferRoutes(business).find((route) => route.name === name) ?? null;
+}
+
+/** Prompt section telling the receptionist who it can hand callers to; null when nobody. */
+export function describeTransferRoutes(business: BusinessProfile = getActiveBusiness()) {
+  const routes = listTransferRoutes(business);
+  if (!routes.length) return null;
+  return [
+    "Live transfers:",
+    "- If the caller asks to speak to a person now, or the request needs a human, tell them you'll connect them and call transfer_call. Don't transfer for things you can handle, like booking.",
+    ...routes.map(
+      (route) => `- ${route.name}${route.description ? `: ${route.description}` : ""}`
+    ),
+  ].join("\n");
+}
+
+function transferError(code: string, message: string): TransferCallOutput {
+  return { transferred: false, error: { code, message } };
+}
+
+/**
+ * Moves the live call off the media stream and onto `/twilio/transfer`, which dials the
+ * route and falls back to voicemail. The stream ends as soon as Twilio picks up the redirect.
+ */
+export async function transferCall(
+  callSid: string | null | undefined,
+  input: TransferCallInput
+): Promise<TransferCallOutput> {
+  if (!callSid) {
+    return transferError("missing_call", "There is no live call to transfer.");
+  }
+  if (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN) {
+    return transferError("transfer_unavailable", "Call transfer is not configured.");
+  }
+  const route = resolveTransferRoute(input.department);
+  if (!route) {
+    return transferError(
+      "unknown_department",
+      `No transfer line for "${input.department ?? OWNER_ROUTE}". Offer to take a message instead.`
+    );
+  }
+
+  try {
+    const client = twilio(env.TWILIO_ACCOUNT_SID, env.TWILIO_AUTH_TOKEN);
+    await client.calls(callSid).update({
+      url: buildPublicUrl("/twilio/transfer", { route: route.name }),
+      method: "POST",
+    });
+  } catch (error) {
+    logger.error("Call transfer failed", error);
+    return transferError("transfer_failed", "The transfer didn't go through.");
+  }
+
+  logger.info("☎️ call transferred", { department: route.name, reason: input.reason });
+  return { transferred: true, department: route.name, description: route.description };
+}
+
+/** Offered only when the active business has someone to transfer to. */
+export const transferCallTool = defineTool({
+  name: "transfer_call",
+  description:
+    "Transfer the live call to a person. The caller hears a short hold message, then the line rings; if nobody answers they can leave a voicemail.",
+  modes: ["receptionist"],
+  schema: () => {
+    const routes = listTransferRoutes();
+    if (!routes.length) return null;
+    return z.object({
+      department: z
+        .enum(routes.map((route) => route.name))
+        .optional()
+        .describe(`Who to transfer to. Defaults to ${routes[0].name}.`),
+      reason: z
+        .string()
+        .optional()
+        .describe("Short note on why the caller wants a person, for the call summary."),
+    });
+  },
+  handler: (args, context) => transferCall(context.callSid, args),
+});
@@ -0,0 +1,93 @@
+import type { BusinessProfile } from "../businesses.js";
+import type { TranscriptEntryInput } from "../callTranscripts.js";
+import { ReceptionistMode } from "./receptionistMode.js";
+import { SpanishCoachMode } from "./spanishCoachMode.js";
+
+export interface ToolCall {
+  name: string;
+  callId: string;
+  arguments: unknown;
+}
+
+/** What a mode handler can see and do on its live call. */
+export interface CallSessionControls {
+  readonly callSid: string | null;
+  readonly streamSid: string | null;
+  readonly callerPhone: string | null;
+  readonly businessPhone: string | null;
+  readonly business: BusinessProfile;
+  readonly startedAtMs: number | null;
+  readonly endedAtMs: number | null;
+  /** Key for calendar idempotency: the call, else the stream or Realtime conversation. */
+  readonly idempotencySource: string;
+  readonly responseInFlight: boolean;
+  /** Asks the model to speak; false when a response is already in flight or the socket is down. */
+  requestResponse(options: { instructions: string; reason: string }): boolean;
+  /** Stops the response in flight, if any. */
+  cancelResponse(): void;
+  updateSession(session: Record<string, unknown>): void;
+  recordTranscript(entry: Omit<TranscriptEntryInput, "call_sid" | "mode">): void;
+}
+
+/**
+ * Per-call behavior for one call mode. CallSession owns the sockets, response tracking and
+ * tool-call plumbing; the handler decides what the model is told and what happens with
+ * transcripts, tool results and the end of the call. Tools come from the tool registry,
+ * which offers each mode the tools registered for its name.
+ */
+export interface CallModeHandler {
+  buildInstructions(): string;
+  greetingInstructions(): string;
+  /** The stream started and the Realtime session is connecting. */
+  onStart?(): void;
+  /** Any transcript the Realtime API reports, caller or assistant. */
+  onTranscript?(text: string): void;
+  /** A finished caller turn. */
+  onCallerTranscript?(text: string): void;
+  /** The assistant's text for a finished response. */
+  onAssistantText?(text: string): void;
+  /** The response in flight finished; a good time to say anything that was held back. */
+  onResponseDone?(): void;
+  /**
+   * A valid tool call is about to run. Returning an output answers the call with it instead
+   * of running the tool (e.g. a repeated booking).
+   */
+  beforeToolCall?(toolCall: ToolCall, args: Record<string, any>): unknown;
+  /** A tool ran and its output (possibly an `{ error }`) was sent back. */
+  onToolResult?(toolCall: ToolCall, args: Record<string, any>, output: unknown): void;
+  /**
+   * A tool call whose arguments weren't valid JSON or didn't match the tool's schema (an
+   * error was already sent back).
+   */
+  onMalformedToolCall?(toolCall: ToolCall): void;
+  /** Twilio sent "stop": the caller hung up or the call was redirected. */
+  onStop?(): void;
+  /** The media stream closed, with or without a "stop" first. */
+  onClose?(): void;
+}
+
+/** Builds a handler for one call; `params` are the stream's <Parameter> values. */
+export type CallModeFactory = (
+  session: CallSessionControls,
+  params: Record<string, unknown>
+) => CallModeHandler;
+
+export const DEFAULT_CALL_MODE = "receptionist";
+
+const callModes = new Map<string, CallModeFactory>([
+  [DEFAULT_CALL_MODE, (session) => new ReceptionistMode(session)],
+  ["spanish_coach", (session, params) => new SpanishCoachMode(session, params)],
+]);
+
+/** Adds (or replaces) the handler used for streams started with `<Parameter name="mode">`. */
+export function registerCallMode(name: string, factory: CallModeFactory) {
+  callModes.set(name, factory);
+}
+
+/** The registered mode named `name`, falling back to the receptionist. */
+export function resolveCallMode(name: unknown): { name: string; factory: CallModeFactory } {
+  if (typeof name === "string" && callModes.has(name)) {
+    return { name, factory: callModes.get(name)! };
+  }
+  return { name: DEFAULT_CALL_MODE, factory: callModes.get(DEFAULT_CALL_MODE)! };
+}
@@ -0,0 +1,657 @@
+import WebSocket from "ws";
+import { connectOpenAIRealtime } from "../realtimeBridge.js";
+import { getDefaultBusinessProfile, resolveBusinessProfile } from "../businesses.js";
+import { runWithBusiness } from "../businessContext.js";
+import { recordTranscriptEntry, type TranscriptEntryInput } from "../callTranscripts.js";
+import { noteStreamStarted } from "../missedCalls.js";
+import { buildToolSchemas, parseToolCall, runTool } from "../tools/toolRegistry.js";
+import { logger, runWithLogContext, type LogContext } from "../../utils/logger.js";
+import {
+  DEFAULT_CALL_MODE,
+  resolveCallMode,
+  type CallModeHandler,
+  type CallSessionControls,
+  type ToolCall,
+} from "./callModes.js";
+
+/**
+ * connecting: waiting for Twilio's "start" and the Realtime socket.
+ * greeting: the opening line is being spoken.
+ * listening: nothing in flight; the caller has the floor.
+ * responding: the model is speaking.
+ * tool_pending: a tool call is running; its output hasn't gone back yet.
+ * ending: Twilio sent "stop"; the mode is wrapping up.
+ * ended: the media stream closed.
+ */
+export type CallSessionState =
+  | "connecting"
+  | "greeting"
+  | "listening"
+  | "responding"
+  | "tool_pending"
+  | "ending"
+  | "ended";
+
+// Twilio plays μ-law at 8kHz: one byte per sample, 8 bytes per millisecond.
+const ULAW_BYTES_PER_MS = 8;
+
+function safeJsonParse(raw: WebSocket.RawData): any | null {
+  try {
+    return JSON.parse(raw.toString());
+  } catch {
+    return null;
+  }
+}
+
+function extractTranscript(message: any): string | null {
+  if (typeof message?.transcript === "string") return message.transcript;
+  if (typeof message?.text === "string" && message?.type?.includes("transcription")) {
+    return message.text;
+  }
+  if (typeof message?.type === "string" && message.type.includes("transcription")) {
+    return message.transcript ?? null;
+  }
+  return null;
+}
+
+function extractToolCall(message: any): ToolCall | null {
+  if (message?.type === "response.function_call_arguments.done") {
+    return {
+      name: message.name as string,
+      callId: message.call_id as string,
+      arguments: message.arguments as string,
+    };
+  }
+
+  if (
+    message?.type === "response.output_item.done" &&
+    (message?.item?.type === "function_call" || message?.item?.type === "tool_call")
+  ) {
+    return {
+      name: message.item.name as string,
+      callId: (message.item.call_id ?? message.item.tool_call_id) as string,
+      arguments: message.item.arguments as string,
+    };
+  }
+
+  return null;
+}
+
+function getResponseIdFromMessage(message: any) {
+  if (!message) return null;
+  if (typeof message.response?.id === "string") return message.response.id;
+  if (typeof message.response_id === "string") return message.response_id;
+  if (typeof message.responseId === "string") return message.responseId;
+  if (typeof message.id === "string" && typeof message.type === "string") return message.id;
+  return null;
+}
+
+/**
+ * One Twilio media stream bridged to its own Realtime session. The session relays audio,
+ * tracks the response in flight, dedupes and dispatches tool calls and records the
+ * transcript; everything mode-specific is left to the CallModeHandler picked on "start".
+ */
+export class CallSession implements CallSessionControls {
+  callSid: string | null = null;
+  streamSid: string | null = null;
+  callerPhone: string | null = null;
+  businessPhone: string | null = null;
+  // The business whose number was dialed; tools and SMS for this call run as it.
+  business = getDefaultBusinessProfile();
+  startedAtMs: number | null = null;
+  endedAtMs: number | null = null;
+
+  private currentState: CallSessionState = "connecting";
+  private modeName = DEFAULT_CALL_MODE;
+  private mode: CallModeHandler | null = null;
+  private openaiWs: WebSocket | null = null;
+  private conversationId: string | null = null;
+  private pendingGreeting = false;
+  private assistantBuffer = "";
+  private activeResponseId: string | null = null;
+  private activeResponseInFlight = false;
+  private pendingToolCalls = 0;
+  // Assistant audio on its way to the caller. Each chunk sent to Twilio is followed by a
+  // mark carrying its end offset in the item; Twilio echoes the mark once it has played.
+  private streamingItemId: string | null = null;
+  private streamedAudioMs = 0;
+  private markCount = 0;
+  private readonly pendingMarks = new Map<string, { itemId: string | null; endMs: number }>();
+  private playedAudio: { itemId: string | null; ms: number } | null = null;
+  // A response the caller talked over; audio it still sends is dropped.
+  private interruptedResponseId: string | null = null;
+  private readonly processedToolCalls = new Map<string, unknown>();
+  private readonly handledToolCallIds = new Set<string>();
+  private readonly toolNamesByCallId = new Map<string, string>();
+  // Filled in on "start"; every log line from this connection's handlers carries it.
+  private readonly logContext: LogContext = { callSid: null, streamSid: null, businessId: null };
+
+  constructor(private readonly twilioWs: WebSocket) {
+    logger.info("Twilio Media Stream connected");
+    twilioWs.on(
+      "message",
+      this.withCallContext((data: WebSocket.RawData) => this.handleTwilioMessage(data))
+    );
+    twilioWs.on(
+      "close",
+      this.withCallContext(() => this.handleTwilioClose())
+    );
+    twilioWs.on(
+      "error",
+      this.withCallContext((err: Error) => {
+        logger.error("Twilio WS error", err);
+        this.closeRealtime();
+      })
+    );
+  }
+
+  get state() {
+    return this.currentState;
+  }
+
+  get responseInFlight() {
+    return this.activeResponseInFlight;
+  }
+
+  get idempotencySource() {
+    return this.callSid ?? this.streamSid ?? this.conversationId ?? "unknown-session";
+  }
+
+  requestResponse(options: { instructions: string; reason: string }) {
+    if (!this.isRealtimeOpen()) return false;
+    if (this.activeResponseInFlight) {
+      logger.info("⏭️ response.create skipped (active response in flight)", {
+        reason: options.reason,
+        activeResponseId: this.activeResponseId,
+      });
+      return false;
+    }
+    this.activeResponseInFlight = true;
+    this.activeResponseId = this.activeResponseId ?? "pending";
+    logger.info("➡️ response.create sent", {
+      reason: options.reason,
+      activeResponseId: this.activeResponseId,
+    });
+    this.sendRealtime({
+      type: "response.create",
+      response: {
+        modalities: ["audio", "text"],
+        instructions: options.instructions,
+      },
+    });
+    return true;
+  }
+
+  cancelResponse() {
+    if (this.activeResponseInFlight) {
+      this.sendRealtime({ type: "response.cancel" });
+    }
+  }
+
+  updateSession(session: Record<string, unknown>) {
+    this.sendRealtime({ type: "session.update", session });
+  }
+
+  // Transcript writes must never break the call, so failures are only logged.
+  recordTranscript(entry: Omit<TranscriptEntryInput, "call_sid" | "mode">) {
+    if (!this.callSid) return;
+    if (entry.entry_type === "utterance" && !entry.text?.trim()) return;
+    try {
+      recordTranscriptEntry({ ...entry, call_sid: this.callSid, mode: this.modeName });
+    } catch (error) {
+      logger.error("Failed to record transcript entry", error);
+    }
+  }
+
+  private withCallContext<Args extends unknown[]>(handler: (...args: Args) => void) {
+    return (...args: Args) => runWithLogContext(this.logContext, () => handler(...args));
+  }
+
+  private setState(next: CallSessionState) {
+    const previous = this.currentState;
+    if (previous === next || previous === "ended") return;
+    if (previous === "ending" && next !== "ended") return;
+    this.currentState = next;
+    logger.debug("📶 call state", { from: previous, to: next });
+  }
+
+  // Where the call rests once nothing is being spoken.
+  private settle() {
+    if (this.activeResponseInFlight) return;
+    this.setState(this.pendingToolCalls > 0 ? "tool_pending" : "listening");
+  }
+
+  private isRealtimeOpen() {
+    return this.openaiWs?.readyState === WebSocket.OPEN;
+  }
+
+  private sendRealtime(event: Record<string, unknown>) {
+    if (!this.isRealtimeOpen()) return;
+    this.openaiWs!.send(JSON.stringify(event));
+  }
+
+  private closeRealtime() {
+    try {
+      if (this.isRealtimeOpen()) this.openaiWs!.close();
+    } catch {}
+  }
+
+  private sendGreeting() {
+    if (!this.isRealtimeOpen()) {
+      this.pendingGreeting = true;
+      return;
+    }
+
+    this.pendingGreeting = false;
+    const sent = this.requestResponse({
+      instructions: this.mode!.greetingInstructions(),
+      reason: "greeting",
+    });
+    if (sent) {
+      this.setState("greeting");
+    }
+  }
+
+  private handleTwilioMessage(data: WebSocket.RawData) {
+    const msg = safeJsonParse(data);
+    if (!msg) return;
+
+    if (msg.event === "start") {
+      this.handleStart(msg.start ?? {});
+      return;
+    }
+
+    if (msg.event === "media") {
+      const payloadBase64: string | undefined = msg.media?.payload;
+      if (!payloadBase64) return;
+      this.sendRealtime({ type: "input_audio_buffer.append", audio: payloadBase64 });
+      return;
+    }
+
+    if (msg.event === "mark") {
+      this.handlePlaybackMark(msg.mark?.name);
+      return;
+    }
+
+    if (msg.event === "stop") {
+      logger.info("Stream stop", msg.stop);
+      if (!this.callSid && typeof msg.stop?.callSid === "string") {
+        this.callSid = msg.stop.callSid;
+      }
+      this.endedAtMs = Date.now();
+      this.setState("ending");
+      this.sendRealtime({ type: "input_audio_buffer.commit" });
+      try {
+        this.openaiWs?.close();
+      } catch {}
+      this.mode?.onStop?.();
+    }
+  }
+
+  private handleStart(start: any) {
+    this.streamSid = start.streamSid ?? null;
+    this.callSid = start.callSid ?? null;
+    const params = start.customParameters ?? {};
+    const { name: modeName, factory } = resolveCallMode(params.mode);
+    this.modeName = modeName;
+    this.callerPhone = typeof params.from === "string" ? params.from : null;
+    this.businessPhone = typeof params.to === "string" ? params.to : null;
+    // businessId is the dialed number, the key the businesses table is looked up by.
+    const business = resolveBusinessProfile(
+      typeof params.businessId === "string" ? params.businessId : this.businessPhone
+    );
+    if (!business) {
+      // The voice webhook already turns these calls away; a stale stream URL could still land here.
+      logger.warn("Stream for a deactivated business number; closing", { to: this.businessPhone });
+      this.twilioWs.close();
+      return;
+    }
+    this.business = business;
+    this.logContext.callSid = this.callSid;
+    this.logContext.streamSid = this.streamSid;
+    this.logContext.businessId = this.business.id;
+
+    if (this.callSid) {
+      noteStreamStarted(this.callSid);
+    }
+    this.startedAtMs = Date.now();
+    this.endedAtMs = null;
+    this.mode = factory(this, params);
+
+    logger.info("Stream start", { ...start, mode: modeName });
+
+    if (!this.openaiWs) {
+      const { instructions, tools } = runWithBusiness(this.business, () => ({
+        instructions: this.mode!.buildInstructions(),
+        tools: buildToolSchemas(modeName),
+      }));
+      this.openaiWs = connectOpenAIRealtime({ instructions, tools });
+      this.attachRealtimeListeners(this.openaiWs);
+    }
+
+    // ✅ Force assistant to greet immediately (so caller doesn't have to speak first)
+    this.sendGreeting();
+    this.mode.onStart?.();
+  }
+
+  private handleTwilioClose() {
+    logger.info("Twilio WS closed");
+    if (!this.endedAtMs) {
+      this.endedAtMs = Date.now();
+    }
+    this.mode?.onClose?.();
+    this.closeRealtime();
+    this.setState("ended");
+  }
+
+  private attachRealtimeListeners(openaiWs: WebSocket) {
+    openaiWs.on(
+      "open",
+      this.withCallContext(() => {
+        if (this.pendingGreeting) {
+          this.sendGreeting();
+        }
+      })
+    );
+
+    // --- OpenAI -> Twilio ---
+    openaiWs.on(
+      "message",
+      this.withCallContext((openaiData: WebSocket.RawData) => this.handleRealtimeMessage(openaiData))
+    );
+
+    openaiWs.on(
+      "close",
+      this.withCallContext(() => {
+        this.activeResponseId = null;
+        this.activeResponseInFlight = false;
+        logger.info("OpenAI Realtime disconnected");
+      })
+    );
+    openaiWs.on("error", (err) => logger.error("OpenAI WS error", err));
+  }
+
+  private handleRealtimeMessage(openaiData: WebSocket.RawData) {
+    const openaiMsg = safeJsonParse(openaiData);
+    if (!openaiMsg) return;
+
+    if (
+      openaiMsg.type === "session.created" ||
+      openaiMsg.type === "session.updated" ||
+      openaiMsg.type === "response.created" ||
+      openaiMsg.type === "response.done" ||
+      openaiMsg.type === "error"
+    ) {
+      logger.info("OpenAI event", { type: openaiMsg.type });
+      if (openaiMsg.type === "error") logger.error("OpenAI error", openaiMsg.error);
+    }
+
+    if (openaiMsg.type === "response.created") {
+      const responseId = getResponseIdFromMessage(openaiMsg);
+      this.activeResponseId = responseId ?? this.activeResponseId ?? "pending";
+      this.activeResponseInFlight = true;
+      if (this.currentState !== "greeting") {
+        this.setState("responding");
+      }
+      logger.info("🧭 response created", { activeResponseId: this.activeResponseId });
+    }
+
+    if (openaiMsg.type === "response.done") {
+      const responseId = getResponseIdFromMessage(openaiMsg);
+      const shouldClear =
+        !this.activeResponseId ||
+        this.activeResponseId === "pending" ||
+        !responseId ||
+        responseId === this.activeResponseId;
+      if (shouldClear) {
+        this.activeResponseId = null;
+        this.activeResponseInFlight = false;
+        this.settle();
+      }
+      logger.info("🧭 response done", { responseId, cleared: shouldClear });
+      if (shouldClear) {
+        this.mode?.onResponseDone?.();
+      }
+    }
+
+    if (!this.conversationId) {
+      this.conversationId =
+        typeof openaiMsg.conversation_id === "string"
+          ? openaiMsg.conversation_id
+          : typeof openaiMsg.conversationId === "string"
+            ? openaiMsg.conversationId
+            : null;
+    }
+
+    const toolCall = extractToolCall(openaiMsg);
+    if (toolCall) {
+      const alreadyHandled = this.handledToolCallIds.has(toolCall.callId);
+      logger.info("🧰 tool call detected", {
+        toolCallId: toolCall.callId,
+        toolName: toolCall.name,
+        deduped: alreadyHandled,
+      });
+      if (alreadyHandled) return;
+      this.handledToolCallIds.add(toolCall.callId);
+      this.toolNamesByCallId.set(toolCall.callId, toolCall.name);
+      this.recordTranscript({
+        speaker: "assistant",
+        entry_type: "tool_call",
+        response_id: openaiMsg.response_id ?? null,
+        tool_name: toolCall.name,
+        tool_call_id: toolCall.callId,
+        payload: toolCall.arguments,
+      });
+      this.pendingToolCalls += 1;
+      this.setState("tool_pending");
+      runWithBusiness(this.business, () => this.handleToolCall(toolCall))
+        .catch((error) => logger.error("Tool handler error", error))
+        .finally(() => {
+          this.pendingToolCalls -= 1;
+          if (this.currentState === "tool_pending") this.settle();
+        });
+    }
+
+    if (openaiMsg.type === "input_audio_buffer.speech_started") {
+      this.handleCallerSpeechStarted();
+    }
+
+    if (
+      (openaiMsg.type === "response.audio.delta" ||
+        openaiMsg.type === "output_audio_buffer.delta") &&
+      this.streamSid
+    ) {
+      this.relayAssistantAudio(openaiMsg);
+    }
+
+    if (openaiMsg.type === "response.text.delta") {
+      this.assistantBuffer += openaiMsg.delta;
+    }
+
+    if (openaiMsg.type === "response.text.done") {
+      this.recordTranscript({
+        speaker: "assistant",
+        entry_type: "utterance",
+        text: this.assistantBuffer,
+        response_id: openaiMsg.response_id ?? null,
+      });
+      const assistantText = this.assistantBuffer;
+      this.assistantBuffer = "";
+      this.mode?.onAssistantText?.(assistantText);
+    }
+
+    const transcript = extractTranscript(openaiMsg);
+    if (transcript) {
+      this.mode?.onTranscript?.(transcript);
+      if (openaiMsg.type === "conversation.item.input_audio_transcription.completed") {
+        this.recordTranscript({
+          speaker: "caller",
+          entry_type: "utterance",
+          text: transcript,
+          item_id: openaiMsg.item_id ?? null,
+        });
+        this.mode?.onCallerTranscript?.(transcript);
+      }
+      // Spoken replies arrive as audio transcripts rather than response.text events.
+      if (openaiMsg.type === "response.audio_transcript.done") {
+        this.recordTranscript({
+          speaker: "assistant",
+          entry_type: "utterance",
+          text: transcript,
+          response_id: openaiMsg.response_id ?? null,
+        });
+      }
+    }
+  }
+
+  private sendTwilio(event: Record<string, unknown>) {
+    if (this.twilioWs.readyState !== WebSocket.OPEN) return;
+    this.twilioWs.send(JSON.stringify({ ...event, streamSid: this.streamSid }));
+  }
+
+  private relayAssistantAudio(message: any) {
+    const responseId = getResponseIdFromMessage(message);
+    if (responseId && responseId === this.interruptedResponseId) return;
+    const itemId = typeof message.item_id === "string" ? message.item_id : null;
+    if (itemId !== this.streamingItemId) {
+      this.streamingItemId = itemId;
+      this.streamedAudioMs = 0;
+    }
+    this.sendTwilio({ event: "media", media: { payload: message.delta } });
+    this.streamedAudioMs += Buffer.from(message.delta ?? "", "base64").length / ULAW_BYTES_PER_MS;
+    const name = `audio-${++this.markCount}`;
+    this.pendingMarks.set(name, { itemId, endMs: this.streamedAudioMs });
+    this.sendTwilio({ event: "mark", mark: { name } });
+  }
+
+  // Marks come back in the order they were sent, so everything before this one has played.
+  private handlePlaybackMark(name: unknown) {
+    if (typeof name !== "string") return;
+    const mark = this.pendingMarks.get(name);
+    if (!mark) return;
+    for (const pendingName of this.pendingMarks.keys()) {
+      this.pendingMarks.delete(pendingName);
+      if (pendingName === name) break;
+    }
+    this.playedAudio = { itemId: mark.itemId, ms: mark.endMs };
+  }
+
+  /**
+   * Barge-in: the caller started talking while the assistant was speaking or about to.
+   * Twilio drops the audio it hasn't played, the response is cancelled and the assistant's
+   * item is cut to what the caller actually heard, so the model knows where it was stopped.
+   */
+  private handleCallerSpeechStarted() {
+    const [playing] = this.pendingMarks.values();
+    if (!playing && !this.activeResponseInFlight) return;
+
+    this.sendTwilio({ event: "clear" });
+    if (this.activeResponseInFlight) {
+      this.interruptedResponseId = this.activeResponseId;
+      this.cancelResponse();
+    }
+    const audioEndMs =
+      playing && this.playedAudio?.itemId === playing.itemId ? this.playedAudio.ms : 0;
+    if (playing?.itemId) {
+      this.sendRealtime({
+        type: "conversation.item.truncate",
+        item_id: playing.itemId,
+        content_index: 0,
+        audio_end_ms: Math.floor(audioEndMs),
+      });
+    }
+    this.pendingMarks.clear();
+    logger.info("✋ caller interrupted the assistant", {
+      itemId: playing?.itemId ?? null,
+      audioEndMs: Math.floor(audioEndMs),
+      responseId: this.interruptedResponseId,
+    });
+  }
+
+  private sendToolOutput(toolCallId: string, output: unknown) {
+    this.sendRealtime({
+      type: "conversation.item.create",
+      item: {
+        type: "function_call_output",
+        call_id: toolCallId,
+        output: JSON.stringify(output),
+      },
+    });
+  }
+
+  private sendToolOutputCached(toolCallId: string, output: unknown) {
+    this.processedToolCalls.set(toolCallId, output);
+    this.recordTranscript({
+      speaker: "server",
+      entry_type: "tool_output",
+      tool_name: this.toolNamesByCallId.get(toolCallId) ?? null,
+      tool_call_id: toolCallId,
+      payload: output,
+    });
+    this.sendToolOutput(toolCallId, output);
+  }
+
+  private async handleToolCall(toolCall: ToolCall) {
+    const cachedOutput = this.processedToolCalls.get(toolCall.callId);
+    if (cachedOutput) {
+      logger.info("🔁 tool_call_id dedupe hit", {
+        toolCallId: toolCall.callId,
+        toolName: toolCall.name,
+        cachedOutput,
+      });
+      this.sendToolOutput(toolCall.callId, cachedOutput);
+      return;
+    }
+
+    logger.info("🧰 tool call received", {
+      toolName: toolCall.name,
+      toolCallId: toolCall.callId,
+      rawArguments: toolCall.arguments,
+    });
+    let parsedArgs: unknown = {};
+    if (typeof toolCall.arguments === "string" && toolCall.arguments.trim().length > 0) {
+      try {
+        parsedArgs = JSON.parse(toolCall.arguments);
+      } catch (error) {
+        this.sendToolOutputCached(toolCall.callId, {
+          error: { code: "invalid_arguments", message: "Could not parse tool arguments." },
+        });
+        logger.error("Tool arguments parse error", error);
+        this.mode?.onMalformedToolCall?.(toolCall);
+        return;
+      }
+    } else if (typeof toolCall.arguments === "object" && toolCall.arguments !== null) {
+      parsedArgs = toolCall.arguments;
+    }
+    logger.info("🧰 tool call parsed", {
+      toolName: toolCall.name,
+      toolCallId: toolCall.callId,
+      parsedArgs,
+    });
+
+    const call = parseToolCall(toolCall.name, this.modeName, parsedArgs);
+    if ("error" in call) {
+      this.sendToolOutputCached(toolCall.callId, call);
+      logger.warn("⚠️ tool call rejected", { toolName: toolCall.name, error: call.error });
+      if (call.error.code === "invalid_arguments") {
+        this.mode?.onMalformedToolCall?.(toolCall);
+      }
+      return;
+    }
+
+    const shortCircuit = this.mode?.beforeToolCall?.(toolCall, call.args);
+    if (shortCircuit !== undefined) {
+      this.sendToolOutputCached(toolCall.callId, shortCircuit);
+      return;
+    }
+    const output = await runTool(call.tool, call.args, {
+      mode: this.modeName,
+      callSid: this.callSid,
+      callerPhone: this.callerPhone,
+      idempotencySource: this.idempotencySource,
+      toolCallId: toolCall.callId,
+    });
+    this.sendToolOutputCached(toolCall.callId, output);
+    this.mode?.onToolResult?.(toolCall, call.args, output);
+  }
+}
@@ -0,0 +1,611 @@
+import { env } from "../../config/env.js";
+import { receptionistPrompt } from "../../prompts/receptionist.js";
+import type {
+  BookingCancelAppointmentOutput,
+  BookingCreateAppointmentInput,
+  BookingCreateAppointmentOutput,
+  BookingFindAppointmentOutput,
+  BookingUpdateAppointmentOutput,
+} from "../booking/bookingTools.js";
+import { BookingFallback, type BookingFallbackStep } from "../booking/bookingFallback.js";
+import { describeBusinessHours } from "../booking/businessHours.js";
+import { runWithBusiness } from "../businessContext.js";
+import { recordCall, type CallOutcome } from "../callHistory.js";
+import {
+  describeTransferRoutes,
+  type TransferCallInput,
+  type TransferCallOutput,
+} from "../callTransfer.js";
+import type { TakeMessageInput, TakeMessageOutput } from "../takeMessage.js";
+import { sendSms } from "../twilioSms.js";
+import { logger } from "../../utils/logger.js";
+import type { CallModeHandler, CallSessionControls, ToolCall } from "./callModes.js";
+
+const BOOKING_TOOLS = new Set([
+  "booking_check_availability",
+  "booking_create_appointment",
+  "find_event",
+  "update_event",
+  "cancel_event",
+]);
+const BOOKING_CLAIM_PATTERN = /\b(appointment\s+)?(booked|scheduled|confirmed|set up|locked in)\b/i;
+const APPOINTMENT_DEDUPE_WINDOW_MS = 2 * 60 * 1000;
+
+const sentPostCallSummaries = new Set<string>();
+
+function formatDurationMs(durationMs: number) {
+  const totalSeconds = Math.max(0, Math.round(durationMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${seconds}s`;
+}
+
+function formatCallDateTime(iso: string | null) {
+  if (!iso) return "Unknown time";
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return iso;
+  return date.toLocaleString("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+function normalizeReason(reason: string | null) {
+  const trimmed = reason?.trim();
+  if (!trimmed) return "General inquiry.";
+  return trimmed.endsWith(".") ? trimmed : `${trimmed}.`;
+}
+
+function isDialableNumber(phone: string | null) {
+  if (!phone) return false;
+  const normalized = phone.trim();
+  if (!normalized || normalized.toLowerCase() === "anonymous") return false;
+  return /^\+?[1-9]\d{6,}$/.test(normalized);
+}
+
+/**
+ * The AI receptionist: books through the calendar tools (with the deterministic fallback
+ * when the model stalls), takes messages and transfers calls, corrects booking claims the
+ * calendar didn't confirm, and records and texts a summary once the call ends.
+ */
+export class ReceptionistMode implements CallModeHandler {
+  private readonly summary = {
+    callerName: null as string | null,
+    primaryReason: null as string | null,
+    appointmentStartISO: null as string | null,
+    appointmentEventId: null as string | null,
+    appointmentLink: null as string | null,
+    appointmentBooked: null as boolean | null,
+    appointmentRequested: false,
+    // Route name once transfer_call has handed the caller to a person.
+    transferredTo: null as string | null,
+    messageId: null as number | null,
+    followUpNote: null as string | null,
+  };
+  private readonly recentAppointments = new Map<
+    string,
+    { timestamp: number; result: BookingCreateAppointmentOutput }
+  >();
+  private readonly bookingFallback: BookingFallback;
+  private lastBookingCreateResult: BookingCreateAppointmentOutput | null = null;
+  private lastBookingCreateCallId: string | null = null;
+  private bookingCorrectionSent = false;
+  private pendingFallbackSpeech: string | null = null;
+  private pendingBookingNotice: string | null = null;
+  private promptHasCalendarFillerInstruction = false;
+  private callRecorded = false;
+
+  constructor(private readonly session: CallSessionControls) {
+    this.bookingFallback = new BookingFallback({
+      get timezone() {
+        return session.business.timezone;
+      },
+      maxTurnsWithoutTool: env.BOOKING_FALLBACK_TURNS,
+      getCallerPhone: () => session.callerPhone,
+      getIdempotencySource: () => session.idempotencySource,
+      getCallSid: () => session.callSid,
+    });
+  }
+
+  buildInstructions() {
+    const business = this.session.business;
+    const instructions = [
+      receptionistPrompt,
+      business.name ? `Business name: ${business.name}.` : null,
+      business.prompt,
+      describeBusinessHours(business.timezone),
+      describeTransferRoutes(business),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+    this.promptHasCalendarFillerInstruction = instructions.includes(
+      "Before calling booking_check_availability"
+    );
+    return instructions;
+  }
+
+  greetingInstructions() {
+    return "Answer the phone in English with a warm greeting in one short sentence and ask how you can help.";
+  }
+
+  onCallerTranscript(text: string) {
+    runWithBusiness(this.session.business, () => this.bookingFallback.noteCallerTurn(text))
+      .then((step) => this.applyFallbackStep(step))
+      .catch((error) => logger.error("Booking fallback error", error));
+  }
+
+  onAssistantText(text: string) {
+    const assistantText = text.trim();
+    if (!assistantText.length) return;
+    logger.info("🗣️ assistant response", { text: assistantText });
+    const bookingClaimed = BOOKING_CLAIM_PATTERN.test(assistantText);
+    const bookingConfirmed = this.lastBookingCreateResult?.created === true;
+    if (bookingClaimed && !bookingConfirmed) {
+      logger.warn("⚠️ booking claim without confirmed appointment", {
+        assistantText,
+        lastBookingCreateCallId: this.lastBookingCreateCallId,
+        lastBookingCreateResult: this.lastBookingCreateResult,
+      });
+      const reason = this.lastBookingCreateResult?.dryRun
+        ? "Just to clarify, I'm in test mode and couldn't finalize that booking. Would you like to leave a message or have someone follow up?"
+        : "Just to clarify, that appointment is not booked yet. Would you like to leave a message or have someone follow up?";
+      this.sendBookingCorrection(reason);
+    }
+  }
+
+  onResponseDone() {
+    if (this.pendingFallbackSpeech) {
+      this.speakFallback(this.pendingFallbackSpeech);
+    }
+    if (this.pendingBookingNotice) {
+      this.sendBookingFailureResponse({ reason: this.pendingBookingNotice });
+    }
+  }
+
+  onMalformedToolCall(toolCall: ToolCall) {
+    if (!BOOKING_TOOLS.has(toolCall.name)) return;
+    this.bookingFallback
+      .noteMalformedToolCall()
+      .then((step) => this.applyFallbackStep(step))
+      .catch((fallbackError) => logger.error("Booking fallback error", fallbackError));
+  }
+
+  onStop() {
+    this.recordReceptionistCall();
+    runWithBusiness(this.session.business, () => this.sendPostCallSmsSummaries()).catch(
+      (error) => logger.error("Post-call SMS summary error", error)
+    );
+  }
+
+  // Saved once per call for the owner dashboard, on stop or (if stop never came) on close.
+  onClose() {
+    this.recordReceptionistCall();
+  }
+
+  beforeToolCall(toolCall: ToolCall, args: Record<string, any>) {
+    if (BOOKING_TOOLS.has(toolCall.name)) {
+      this.bookingFallback.noteToolCall();
+      this.sendCalendarFiller(toolCall.name, toolCall.callId);
+    }
+    if (toolCall.name !== "booking_create_appointment") return undefined;
+
+    const createArgs = args as BookingCreateAppointmentInput;
+    this.summary.appointmentRequested = true;
+    this.captureCallerName(createArgs.name);
+    this.captureReason(createArgs.reason);
+    const dedupeKey = this.buildAppointmentDedupeKey(createArgs.startISO, createArgs.endISO);
+    const existing = this.recentAppointments.get(dedupeKey);
+    if (!existing || Date.now() - existing.timestamp >= APPOINTMENT_DEDUPE_WINDOW_MS) {
+      return undefined;
+    }
+    logger.info("📅 appointment dedupe hit; skipping calendar insert", {
+      dedupeKey,
+      toolCallId: toolCall.callId,
+    });
+    this.lastBookingCreateResult = existing.result;
+    this.lastBookingCreateCallId = toolCall.callId;
+    this.bookingCorrectionSent = false;
+    this.logBookingCreateResult(existing.result, { toolCallId: toolCall.callId, dedupeKey });
+    return existing.result;
+  }
+
+  // Tool outputs only feed the call summary and what the caller hears next; dispatch and
+  // validation live in the tool registry.
+  onToolResult(toolCall: ToolCall, args: Record<string, any>, output: unknown) {
+    const failed = typeof output === "object" && output !== null && "error" in output;
+    switch (toolCall.name) {
+      case "booking_create_appointment":
+        if (failed) {
+          this.sendBookingFailureResponse({
+            reason:
+              "I couldn't book that appointment right now. Would you like to leave a message or have someone follow up?",
+          });
+          return;
+        }
+        this.noteCreatedAppointment(
+          toolCall,
+          args as BookingCreateAppointmentInput,
+          output as BookingCreateAppointmentOutput
+        );
+        return;
+      case "find_event":
+        this.summary.appointmentRequested = true;
+        this.captureReason("Locate an existing appointment.");
+        if (!failed && !(output as BookingFindAppointmentOutput).matches.length) {
+          this.markFollowUp("No matching appointment found.");
+        }
+        return;
+      case "update_event": {
+        this.summary.appointmentRequested = true;
+        this.captureReason("Reschedule an existing appointment.");
+        if (failed) return;
+        const result = output as BookingUpdateAppointmentOutput;
+        this.summary.appointmentBooked = result.updated;
+        this.summary.appointmentStartISO = result.startISO;
+        return;
+      }
+      case "cancel_event":
+        this.summary.appointmentRequested = true;
+        this.captureReason("Cancel an existing appointment.");
+        if (failed) return;
+        if (!(output as BookingCancelAppointmentOutput).cancelled) {
+          this.markFollowUp("Cancellation not confirmed.");
+        } else {
+          this.summary.appointmentBooked = false;
+        }
+        return;
+      case "take_message": {
+        if (failed) return;
+        const { name, topic } = args as TakeMessageInput;
+        const result = output as TakeMessageOutput;
+        this.captureCallerName(name ?? null);
+        this.captureReason(topic ?? null);
+        this.summary.messageId = result.messageId;
+        this.markFollowUp(`Return message #${result.messageId}${topic ? ` about ${topic}` : ""}.`);
+        return;
+      }
+      case "transfer_call": {
+        this.captureReason((args as TransferCallInput).reason ?? null);
+        const result = output as TransferCallOutput;
+        if (failed) {
+          this.markFollowUp(
+            `Caller asked for a person; transfer failed (${
+              "error" in result ? result.error.message : "unknown error"
+            })`
+          );
+        } else if (result.transferred) {
+          this.summary.transferredTo = result.department;
+        }
+        return;
+      }
+    }
+  }
+
+  private noteCreatedAppointment(
+    toolCall: ToolCall,
+    args: BookingCreateAppointmentInput,
+    result: BookingCreateAppointmentOutput
+  ) {
+    const dedupeKey = this.buildAppointmentDedupeKey(args.startISO, args.endISO);
+    this.recentAppointments.set(dedupeKey, { timestamp: Date.now(), result });
+    logger.info("📅 appointment recorded for dedupe window", {
+      dedupeKey,
+      toolCallId: toolCall.callId,
+    });
+    this.lastBookingCreateResult = result;
+    this.lastBookingCreateCallId = toolCall.callId;
+    this.bookingCorrectionSent = false;
+    this.logBookingCreateResult(result, { toolCallId: toolCall.callId, dedupeKey });
+    this.noteBookingResult(result);
+    if (result.created) {
+      this.bookingFallback.noteBooked();
+    }
+    this.sendBookingFailureNotice(result);
+  }
+
+  private noteBookingResult(result: BookingCreateAppointmentOutput) {
+    this.summary.appointmentBooked = result.created;
+    this.summary.appointmentStartISO = result.startISO;
+    this.summary.appointmentEventId = result.created ? result.eventId ?? null : null;
+    this.summary.appointmentLink = result.created ? result.htmlLink ?? null : null;
+  }
+
+  private captureReason(reason: string | null) {
+    if (reason) {
+      this.summary.primaryReason = reason;
+    }
+  }
+
+  private captureCallerName(name: string | null) {
+    if (name && !this.summary.callerName) {
+      this.summary.callerName = name;
+    }
+  }
+
+  private markFollowUp(note: string) {
+    if (!this.summary.followUpNote) {
+      this.summary.followUpNote = note;
+    }
+  }
+
+  private buildAppointmentDedupeKey(startISO: string, endISO: string) {
+    const sessionId = this.session.callSid ?? this.session.streamSid ?? "unknown-session";
+    return `${sessionId}:${startISO}:${endISO}`;
+  }
+
+  private logBookingCreateResult(
+    result: BookingCreateAppointmentOutput,
+    context: { toolCallId: string; dedupeKey?: string | null }
+  ) {
+    logger.info("📅 booking_create_appointment result", {
+      toolCallId: context.toolCallId,
+      dedupeKey: context.dedupeKey ?? null,
+      created: result.created,
+      dryRun: result.dryRun,
+      startISO: result.startISO,
+      endISO: result.endISO,
+      eventId: result.eventId ?? null,
+    });
+    if (!result.created) {
+      logger.warn("⚠️ booking_create_appointment not created", {
+        toolCallId: context.toolCallId,
+        dryRun: result.dryRun,
+        hint: result.dryRun
+          ? "BOOKING_DRY_RUN is true; calendar events are not created."
+          : "Calendar adapter did not confirm event creation. Check calendar credentials/logs.",
+      });
+    }
+  }
+
+  private sendCalendarFiller(toolName: string, toolCallId: string) {
+    if (this.promptHasCalendarFillerInstruction) {
+      logger.info("🛑 server calendar filler suppressed (prompt already instructs filler)", {
+        toolName,
+        toolCallId,
+      });
+      return;
+    }
+    if (this.session.responseInFlight) {
+      logger.info("⏭️ calendar filler skipped (active response in flight)", {
+        toolName,
+        toolCallId,
+      });
+      return;
+    }
+    const fillerSentence = "One moment while I check the calendar.";
+    const sent = this.session.requestResponse({
+      instructions: `Say exactly this one short sentence to the caller: "${fillerSentence}"`,
+      reason: "calendar-filler",
+    });
+    if (sent) {
+      logger.info("🗣️ calendar filler emitted before tool call", { toolName, toolCallId });
+    }
+  }
+
+  private sendBookingFailureResponse(options: { reason: string }) {
+    const instructions = `Tell the caller: "${options.reason}" Keep it short and offer to take a message or have someone follow up.`;
+    const sent = this.session.requestResponse({ instructions, reason: "booking-failure" });
+    // A false booking claim is caught while its response is still streaming; say it after.
+    this.pendingBookingNotice = sent ? null : options.reason;
+  }
+
+  private sendBookingFailureNotice(result: BookingCreateAppointmentOutput) {
+    if (result.created) return;
+    const message = result.dryRun
+      ? "I'm in test mode, so I can't finalize that booking. Would you like to leave a message or have someone follow up?"
+      : "I wasn't able to book that appointment right now. Would you like to leave a message or have someone follow up?";
+    this.sendBookingFailureResponse({ reason: message });
+  }
+
+  private sendBookingCorrection(reason: string) {
+    if (this.bookingCorrectionSent) return;
+    this.bookingCorrectionSent = true;
+    logger.warn("⚠️ booking clarification sent", { reason });
+    this.sendBookingFailureResponse({ reason });
+  }
+
+  // While the fallback drives the booking, the model only speaks what the server tells it to.
+  private setModelAutoResponse(enabled: boolean) {
+    this.session.updateSession({
+      turn_detection: { type: "server_vad", create_response: enabled },
+    });
+  }
+
+  private speakFallback(text: string) {
+    const sent = this.session.requestResponse({
+      instructions: `Say exactly this to the caller and nothing else: "${text}"`,
+      reason: "booking-fallback",
+    });
+    this.pendingFallbackSpeech = sent ? null : text;
+  }
+
+  private applyFallbackStep(step: BookingFallbackStep) {
+    if (step.takeover) {
+      logger.info("🧯 booking fallback active", { stage: this.bookingFallback.currentStage });
+      this.setModelAutoResponse(false);
+      this.session.cancelResponse();
+    }
+    if (step.booking) {
+      this.summary.appointmentRequested = true;
+      this.captureCallerName(this.bookingFallback.collected.name);
+      this.captureReason(this.bookingFallback.collected.reason);
+      this.lastBookingCreateResult = step.booking;
+      this.lastBookingCreateCallId = "booking-fallback";
+      this.session.recordTranscript({
+        speaker: "server",
+        entry_type: "tool_output",
+        tool_name: "booking_fallback",
+        payload: step.booking,
+      });
+      this.bookingCorrectionSent = false;
+      this.noteBookingResult(step.booking);
+    }
+    if (step.release && !step.booking?.created) {
+      this.summary.appointmentRequested = true;
+      this.markFollowUp("Booking could not be completed on the call.");
+    }
+    if (step.say) {
+      this.speakFallback(step.say);
+    }
+    if (step.release) {
+      logger.info("🧯 booking fallback released", { booked: step.booking?.created ?? false });
+      this.setModelAutoResponse(true);
+    }
+  }
+
+  private buildOutcomeLine() {
+    if (this.summary.appointmentBooked) {
+      return `Outcome: Appointment booked: ${formatCallDateTime(this.summary.appointmentStartISO)}`;
+    }
+    if (this.summary.transferredTo) {
+      return `Outcome: Transferred to ${this.summary.transferredTo}`;
+    }
+    return "Outcome: No appointment booked";
+  }
+
+  private formatDuration() {
+    const { startedAtMs, endedAtMs } = this.session;
+    return startedAtMs && endedAtMs ? formatDurationMs(endedAtMs - startedAtMs) : "Unknown duration";
+  }
+
+  private buildOwnerSummaryBody() {
+    const business = this.session.business;
+    const callerName = this.summary.callerName?.trim() || "Unknown caller";
+    const callerNumber = this.session.callerPhone ?? "Unknown number";
+    const reason = normalizeReason(this.summary.primaryReason);
+    const followUp =
+      this.summary.followUpNote ||
+      (this.summary.appointmentRequested && !this.summary.appointmentBooked
+        ? "Confirm next steps with the caller."
+        : null);
+
+    const lines = [
+      business.name ? `Call summary: ${business.name}` : "Call summary",
+      `Caller: ${callerName} (${callerNumber})`,
+      `Reason: ${reason}`,
+      this.buildOutcomeLine(),
+      followUp ? `Follow-up: ${followUp}` : null,
+      `Duration: ${this.formatDuration()}`,
+    ].filter(Boolean);
+
+    return lines.join("\n");
+  }
+
+  private buildCallerSummaryBody() {
+    const businessName = this.session.business.name ?? "our office";
+    const reason = normalizeReason(this.summary.primaryReason);
+    const followUp =
+      this.summary.followUpNote ||
+      (this.summary.messageId
+        ? "We passed your message on and will get back to you."
+        : this.summary.appointmentRequested && !this.summary.appointmentBooked
+          ? "Please contact us if you'd like to schedule."
+          : null);
+
+    const lines = [
+      `Thanks for calling ${businessName}.`,
+      `We noted: ${reason}`,
+      this.buildOutcomeLine(),
+      followUp ? `Next steps: ${followUp}` : null,
+      `Call duration: ${this.formatDuration()}`,
+    ].filter(Boolean);
+
+    return lines.join("\n");
+  }
+
+  private resolveCallOutcome(): CallOutcome {
+    if (this.summary.appointmentBooked) return "booked";
+    if (this.summary.transferredTo) return "transferred";
+    if (this.summary.appointmentRequested) return "booking_failed";
+    if (this.summary.followUpNote) return "follow_up";
+    return "handled";
+  }
+
+  private recordReceptionistCall() {
+    const callSid = this.session.callSid;
+    if (this.callRecorded || !callSid) return;
+    this.callRecorded = true;
+    const startedAtMs = this.session.startedAtMs ?? Date.now();
+    try {
+      recordCall({
+        call_sid: callSid,
+        business_id: this.session.business.id,
+        caller_phone: this.session.callerPhone,
+        business_phone: this.session.businessPhone,
+        caller_name: this.summary.callerName,
+        reason: this.summary.primaryReason,
+        outcome: this.resolveCallOutcome(),
+        follow_up: this.summary.followUpNote,
+        appointment_requested: this.summary.appointmentRequested,
+        appointment_event_id: this.summary.appointmentEventId,
+        appointment_start_iso: this.summary.appointmentBooked
+          ? this.summary.appointmentStartISO
+          : null,
+        appointment_link: this.summary.appointmentLink,
+        started_at: new Date(startedAtMs).toISOString(),
+        ended_at: new Date(this.session.endedAtMs ?? Date.now()).toISOString(),
+      });
+      logger.info("📒 call recorded", { callSid, outcome: this.resolveCallOutcome() });
+    } catch (error) {
+      logger.error("Failed to record call", error);
+    }
+  }
+
+  private async sendPostCallSmsSummaries() {
+    const business = this.session.business;
+    const callSid = this.session.callSid;
+    const callerPhone = this.session.callerPhone;
+    if (!business.postCallSms) {
+      logger.info("Post-call SMS skipped: post-call SMS is disabled for this business");
+      return;
+    }
+    if (!callSid) {
+      logger.info("Post-call SMS skipped: missing callSid");
+      return;
+    }
+    if (sentPostCallSummaries.has(callSid)) {
+      logger.info("Post-call SMS skipped: already sent for callSid", { callSid });
+      return;
+    }
+
+    const ownerPhones = business.ownerPhones;
+    const ownerBody = this.buildOwnerSummaryBody();
+    const callerBody = this.buildCallerSummaryBody();
+    logger.info("Post-call SMS body (owner)", { body: ownerBody });
+    logger.info("Post-call SMS body (caller)", { body: callerBody });
+
+    let attemptedSend = false;
+
+    if (!ownerPhones.length) {
+      logger.info("Post-call SMS skipped: no owner phone for this business");
+    }
+    for (const ownerPhone of ownerPhones) {
+      attemptedSend = true;
+      try {
+        const ownerMessage = await sendSms(ownerPhone, ownerBody);
+        logger.info("SMS summary sent (owner)", { sid: ownerMessage.sid });
+      } catch (error) {
+        logger.error("SMS summary failed (owner)", error);
+      }
+    }
+
+    const sendSummaryToCaller = business.sendSummaryToCaller;
+    if (sendSummaryToCaller && isDialableNumber(callerPhone)) {
+      attemptedSend = true;
+      try {
+        const callerMessage = await sendSms(callerPhone!, callerBody);
+        logger.info("SMS summary sent (caller)", { sid: callerMessage.sid });
+      } catch (error) {
+        logger.error("SMS summary failed (caller)", error);
+      }
+    } else if (sendSummaryToCaller) {
+      logger.info("Post-call SMS skipped: invalid caller phone", { callerPhone });
+    } else {
+      logger.info("Post-call SMS skipped: SEND_SUMMARY_TO_CALLER is disabled");
+    }
+
+    if (attemptedSend) {
+      sentPostCallSummaries.add(callSid);
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { spanishCoachPrompt } from "../../prompts/spanishCoach.js";
+import {
+  getUserById,
+  setUserInactiveById,
+  updateCallLogBySid,
+  updateUserLevel,
+} from "../coachDb.js";
+import type { CallModeHandler, CallSessionControls } from "./callModes.js";
+
+const SIMPLIFIED_PHRASE = "Vamos a hacerlo más fácil.";
+const REPEAT_PHRASE = "Repito la pregunta.";
+const OPT_OUT_PHRASE = "No recibirás más llamadas";
+
+function mapScoreToLevel(score: number) {
+  if (score <= 25) return "A0";
+  if (score <= 50) return "A1";
+  if (score <= 75) return "A2";
+  return "B1";
+}
+
+function computeScore(metrics: {
+  spanishAnswers: number;
+  spanishWithoutEnglish: number;
+  simplifications: number;
+}) {
+  let score = 0;
+  if (metrics.spanishWithoutEnglish >= 1) score += 20;
+  if (metrics.spanishAnswers >= 2) score += 20;
+  score -= metrics.simplifications * 10;
+  return Math.max(0, Math.min(100, score));
+}
+
+function isSpanishAnswer(text: string) {
+  const spanishWords = [
+    "hola",
+    "gracias",
+    "quiero",
+    "soy",
+    "tengo",
+    "me",
+    "mi",
+    "tu",
+    "estoy",
+    "bien",
+    "sí",
+    "si",
+    "no",
+    "por",
+    "favor",
+  ];
+  return spanishWords.some((word) => new RegExp(`\\b${word}\\b`, "i").test(text));
+}
+
+function isEnglishAnswer(text: string) {
+  const englishWords = ["the", "and", "please", "hello", "i", "you", "my", "is", "not"];
+  return englishWords.some((word) => new RegExp(`\\b${word}\\b`, "i").test(text));
+}
+
+/**
+ * Scheduled Spanish practice call: scores the learner's answers, updates their level and
+ * the call log when the call ends, and deactivates them if they opt out on the call.
+ */
+export class SpanishCoachMode implements CallModeHandler {
+  private readonly userId: number | null;
+  private readonly metrics = {
+    simplifications: 0,
+    repeats: 0,
+    spanishAnswers: 0,
+    spanishWithoutEnglish: 0,
+  };
+  private optedOut = false;
+
+  constructor(
+    private readonly session: CallSessionControls,
+    params: Record<string, unknown>
+  ) {
+    this.userId = params.userId ? Number(params.userId) : null;
+  }
+
+  buildInstructions() {
+    const user = this.userId ? getUserById(this.userId) : undefined;
+    return user?.call_instructions
+      ? `${spanishCoachPrompt}\n\nUser call focus:\n${user.call_instructions}`
+      : spanishCoachPrompt;
+  }
+
+  greetingInstructions() {
+    return "Start the Spanish coaching call now by saying: \"Hola {nombre}, ¿cómo estás?\" Use the learner's name if known; if you don't know it, ask and then use it. Wait for their response before asking the first simple question.";
+  }
+
+  onStart() {
+    if (this.session.callSid) {
+      updateCallLogBySid(this.session.callSid, { started_at: new Date().toISOString() });
+    }
+  }
+
+  onTranscript(text: string) {
+    const normalized = text.trim();
+    if (normalized.length < 2) return;
+    if (isSpanishAnswer(normalized)) {
+      this.metrics.spanishAnswers += 1;
+      if (!isEnglishAnswer(normalized)) {
+        this.metrics.spanishWithoutEnglish += 1;
+      }
+    }
+  }
+
+  onAssistantText(text: string) {
+    if (text.includes(SIMPLIFIED_PHRASE)) {
+      this.metrics.simplifications += 1;
+    }
+    if (text.includes(REPEAT_PHRASE)) {
+      this.metrics.repeats += 1;
+    }
+    if (text.includes(OPT_OUT_PHRASE)) {
+      this.optedOut = true;
+    }
+  }
+
+  onStop() {
+    const callSid = this.session.callSid;
+    if (!callSid) return;
+    const score = computeScore(this.metrics);
+    const level = mapScoreToLevel(score);
+    const summary = `Spanish coach call complete. Score ${score}. Simplified ${
+      this.metrics.simplifications
+    } times.`;
+    const metricsJson = JSON.stringify({
+      score,
+      level,
+      ...this.metrics,
+    });
+
+    updateCallLogBySid(callSid, {
+      ended_at: new Date().toISOString(),
+      outcome: this.optedOut ? "opted_out" : "answered",
+      summary,
+      metrics_json: metricsJson,
+    });
+
+    if (this.userId) {
+      updateUserLevel(this.userId, level);
+      if (this.optedOut) {
+        setUserInactiveById(this.userId);
+      }
+    }
+  }
+}
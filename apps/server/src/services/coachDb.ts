@@ -1,8 +1,5 @@
-import fs from "fs";
-import os from "os";
-import path from "path";
-import { createRequire } from "module";
-import { env } from "../config/env.js";
+import { getDatabase, type DatabaseHandle } from "./database.js";
+import { logger } from "../utils/logger.js";
 
 export type LevelEstimate = "A0" | "A1" | "A2" | "B1";
 
@@ -25,29 +22,8 @@ export interface CoachUser {
   updated_at: string;
 }
 
-const nodeRequire = createRequire(import.meta.url);
-
-type Statement = {
-  get: (...params: unknown[]) => unknown;
-  all: (...params: unknown[]) => unknown[];
-  run: (...params: unknown[]) => unknown;
-};
-
-type DatabaseHandle = {
-  exec: (sql: string) => void;
-  prepare: (sql: string) => Statement;
-};
-
-let db: DatabaseHandle | null = null;
 let store: CoachStore | null = null;
 
-function ensureDbPath(dbPath: string) {
-  const dir = path.dirname(dbPath);
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
-  }
-}
-
 type CoachStore = {
   upsertUser: (input: {
     phone_e164: string;
@@ -112,39 +88,15 @@ function getStore(): CoachStore {
   return store;
 }
 
-function getDb(): DatabaseHandle {
-  if (!db) {
-    const dbPath =
-      env.DB_PATH ?? path.join(os.homedir() || process.cwd(), ".coach", "data", "coach.sqlite");
-    ensureDbPath(dbPath);
-    const driver = loadDatabaseDriver();
-    db = driver.create(dbPath);
-    db.exec("PRAGMA journal_mode = WAL;");
-    initializeCoachDb(db);
-  }
-  return db;
-}
+let coachDbInitialized = false;
 
-function loadDatabaseDriver(): { create: (dbPath: string) => DatabaseHandle } {
-  try {
-    const sqliteModule = nodeRequire("node:sqlite") as {
-      DatabaseSync: new (dbPath: string) => DatabaseHandle;
-    };
-    return { create: (dbPath) => new sqliteModule.DatabaseSync(dbPath) };
-  } catch (error) {
-    try {
-      const BetterSqlite3 = nodeRequire("better-sqlite3") as new (dbPath: string) => DatabaseHandle;
-      return { create: (dbPath) => new BetterSqlite3(dbPath) };
-    } catch (fallbackError) {
-      const reasons = [
-        error instanceof Error ? error.message : String(error),
-        fallbackError instanceof Error ? fallbackError.message : String(fallbackError),
-      ].join(" | ");
-      throw new Error(
-        `SQLite driver not available. Install "better-sqlite3" or upgrade to Node 22+ to use node:sqlite. (${reasons})`
-      );
-    }
+function getDb(): DatabaseHandle {
+  const database = getDatabase();
+  if (!coachDbInitialized) {
+    initializeCoachDb(database);
+    coachDbInitialized = true;
   }
+  return database;
 }
 
 function initializeStore(): CoachStore {
@@ -152,10 +104,10 @@ function initializeStore(): CoachStore {
     const database = getDb();
     return createSqlStore(database);
   } catch (error) {
-    console.warn(
-      "SQLite driver not available; falling back to an in-memory store. Data will not persist across restarts."
+    logger.warn(
+      "SQLite driver not available; falling back to an in-memory store. Data will not persist across restarts.",
+      error
     );
-    console.warn(error);
     return createMemoryStore();
   }
 }
@@ -5,6 +5,7 @@ import { env } from "../config/env.js";
 import type { CoachUser } from "./coachDb.js";
 import { createCallLog, listActiveUsers, updateLastCalled } from "./coachDb.js";
 import { placeCoachCall } from "./coachTwilio.js";
+import { logger } from "../utils/logger.js";
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
@@ -45,9 +46,9 @@ async function processDueUsers(): Promise<void> {
       const call = await placeCoachCall(user);
       createCallLog({ user_id: user.id, call_sid: call.sid, outcome: "initiated" });
       updateLastCalled(user.id);
-      console.log(`📞 Placed coach call for ${user.phone_e164}`);
+      logger.info("📞 Placed coach call", { to: user.phone_e164 });
     } catch (error) {
-      console.error("Failed to place coach call", error);
+      logger.error("Failed to place coach call", error);
     }
   }
 }
@@ -57,17 +58,17 @@ let schedulerTimer: ReturnType<typeof setInterval> | null = null;
 
 export function startCoachScheduler(): void {
   if (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN || !env.PUBLIC_BASE_URL) {
-    console.log("Coach scheduler disabled: missing Twilio or PUBLIC_BASE_URL env vars.");
+    logger.info("Coach scheduler disabled: missing Twilio or PUBLIC_BASE_URL env vars.");
     return;
   }
 
   try {
     listActiveUsers();
   } catch (error) {
-    console.log(
-      "Coach scheduler disabled: SQLite driver unavailable. Install better-sqlite3 or upgrade to Node 22+."
+    logger.warn(
+      "Coach scheduler disabled: SQLite driver unavailable. Install better-sqlite3 or upgrade to Node 22+.",
+      error
     );
-    console.error(error);
     return;
   }
 
@@ -86,7 +87,7 @@ export function startCoachScheduler(): void {
   run();
   schedulerTimer = setInterval(run, 60 * 1000);
 
-  console.log("⏰ Coach scheduler running (every minute)");
+  logger.info("⏰ Coach scheduler running (every minute)");
 }
 
 export async function runCoachCallsNow(limit = 10): Promise<number> {
@@ -99,7 +100,7 @@ export async function runCoachCallsNow(limit = 10): Promise<number> {
       updateLastCalled(user.id);
       placed += 1;
     } catch (error) {
-      console.error("Manual coach call failed", error);
+      logger.error("Manual coach call failed", error);
     }
   }
   return placed;
@@ -9,7 +9,7 @@ function requireEnv(value: string | undefined, name: string): string {
   return value;
 }
 
-function buildPublicUrl(pathname: string, params?: Record<string, string>): string {
+export function buildPublicUrl(pathname: string, params?: Record<string, string>): string {
   const base = requireEnv(env.PUBLIC_BASE_URL, "PUBLIC_BASE_URL");
   const url = new URL(base.replace(/\/$/, ""));
   url.pathname = pathname;
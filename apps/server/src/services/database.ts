@@ -0,0 +1,65 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createRequire } from "module";
+import { env } from "../config/env.js";
+
+const nodeRequire = createRequire(import.meta.url);
+
+export type Statement = {
+  get: (...params: unknown[]) => unknown;
+  all: (...params: unknown[]) => unknown[];
+  run: (...params: unknown[]) => unknown;
+};
+
+export type DatabaseHandle = {
+  exec: (sql: string) => void;
+  prepare: (sql: string) => Statement;
+};
+
+let db: DatabaseHandle | null = null;
+
+function ensureDbPath(dbPath: string) {
+  const dir = path.dirname(dbPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+function loadDatabaseDriver(): { create: (dbPath: string) => DatabaseHandle } {
+  try {
+    const sqliteModule = nodeRequire("node:sqlite") as {
+      DatabaseSync: new (dbPath: string) => DatabaseHandle;
+    };
+    return { create: (dbPath) => new sqliteModule.DatabaseSync(dbPath) };
+  } catch (error) {
+    try {
+      const BetterSqlite3 = nodeRequire("better-sqlite3") as new (dbPath: string) => DatabaseHandle;
+      return { create: (dbPath) => new BetterSqlite3(dbPath) };
+    } catch (fallbackError) {
+      const reasons = [
+        error instanceof Error ? error.message : String(error),
+        fallbackError instanceof Error ? fallbackError.message : String(fallbackError),
+      ].join(" | ");
+      throw new Error(
+        `SQLite driver not available. Install "better-sqlite3" or upgrade to Node 22+ to use node:sqlite. (${reasons})`
+      );
+    }
+  }
+}
+
+/**
+ * Opens the shared SQLite database at DB_PATH. Each store creates its own tables
+ * on first use, so callers should run their schema setup before querying.
+ */
+export function getDatabase(): DatabaseHandle {
+  if (!db) {
+    const dbPath =
+      env.DB_PATH ?? path.join(os.homedir() || process.cwd(), ".coach", "data", "coach.sqlite");
+    ensureDbPath(dbPath);
+    const driver = loadDatabaseDriver();
+    db = driver.create(dbPath);
+    db.exec("PRAGMA journal_mode = WAL;");
+  }
+  return db;
+}
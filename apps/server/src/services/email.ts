@@ -0,0 +1,33 @@
+import axios from "axios";
+import { env } from "../config/env.js";
+
+export function isEmailConfigured() {
+  return Boolean(env.EMAIL_API_KEY && env.EMAIL_FROM);
+}
+
+/**
+ * Sends a plain-text email through an HTTP email API (Resend's `POST /emails` by default;
+ * anything accepting the same JSON body and bearer key works via EMAIL_API_URL).
+ */
+export async function sendEmail({
+  to,
+  subject,
+  text,
+}: {
+  to: string;
+  subject: string;
+  text: string;
+}) {
+  if (!env.EMAIL_API_KEY || !env.EMAIL_FROM) {
+    throw new Error("EMAIL_API_KEY and EMAIL_FROM are required to send email");
+  }
+  const response = await axios.post(
+    env.EMAIL_API_URL,
+    { from: env.EMAIL_FROM, to: [to], subject, text },
+    {
+      headers: { Authorization: `Bearer ${env.EMAIL_API_KEY}` },
+      timeout: 10_000,
+    }
+  );
+  return { id: response.data?.id as string | undefined };
+}
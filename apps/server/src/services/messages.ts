@@ -0,0 +1,267 @@
+import { getDatabase, type DatabaseHandle } from "./database.js";
+import { logger } from "../utils/logger.js";
+
+export type MessageUrgency = "low" | "normal" | "urgent";
+export type MessageStatus = "new" | "read" | "handled";
+
+export const MESSAGE_URGENCIES: MessageUrgency[] = ["low", "normal", "urgent"];
+export const MESSAGE_STATUSES: MessageStatus[] = ["new", "read", "handled"];
+
+export interface MessageRecord {
+  id: number;
+  business_id: number | null;
+  // The call the message was taken on; null when it came from elsewhere.
+  call_sid: string | null;
+  caller_name: string | null;
+  callback_phone: string | null;
+  urgency: MessageUrgency;
+  topic: string | null;
+  body: string;
+  status: MessageStatus;
+  // Comma-separated channels the owner was told on ("sms", "email"); null if none worked.
+  notified_via: string | null;
+  read_at: string | null;
+  handled_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MessageInput {
+  business_id?: number | null;
+  call_sid?: string | null;
+  caller_name?: string | null;
+  callback_phone?: string | null;
+  urgency: MessageUrgency;
+  topic?: string | null;
+  body: string;
+}
+
+export interface MessageQuery {
+  // Omit for every business; null means the env-configured business.
+  businessId?: number | null;
+  status?: MessageStatus;
+}
+
+type MessageStore = {
+  recordMessage: (input: MessageInput) => MessageRecord;
+  getMessageById: (messageId: number) => MessageRecord | undefined;
+  listMessages: (query: MessageQuery) => MessageRecord[];
+  updateMessage: (
+    messageId: number,
+    updates: Partial<Pick<MessageRecord, "status" | "notified_via" | "read_at" | "handled_at">>
+  ) => MessageRecord | undefined;
+};
+
+let store: MessageStore | null = null;
+
+function getStore(): MessageStore {
+  if (!store) {
+    store = initializeStore();
+  }
+  return store;
+}
+
+let messageDbInitialized = false;
+
+function getDb(): DatabaseHandle {
+  const database = getDatabase();
+  if (!messageDbInitialized) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        business_id INTEGER,
+        call_sid TEXT,
+        caller_name TEXT,
+        callback_phone TEXT,
+        urgency TEXT NOT NULL,
+        topic TEXT,
+        body TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'new',
+        notified_via TEXT,
+        read_at TEXT,
+        handled_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_messages_status ON messages (status, created_at);
+    `);
+    messageDbInitialized = true;
+  }
+  return database;
+}
+
+function initializeStore(): MessageStore {
+  try {
+    return createSqlStore(getDb());
+  } catch (error) {
+    logger.warn(
+      "SQLite driver not available; falling back to in-memory messages. Data will not persist across restarts.",
+      error
+    );
+    return createMemoryStore();
+  }
+}
+
+function createSqlStore(database: DatabaseHandle): MessageStore {
+  const getById = (messageId: number) =>
+    database.prepare("SELECT * FROM messages WHERE id = ?").get(messageId) as
+      | MessageRecord
+      | undefined;
+
+  return {
+    recordMessage(input) {
+      const now = new Date().toISOString();
+      database
+        .prepare(
+          `INSERT INTO messages
+           (business_id, call_sid, caller_name, callback_phone, urgency, topic, body, status,
+            created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, 'new', ?, ?)`
+        )
+        .run(
+          input.business_id ?? null,
+          input.call_sid ?? null,
+          input.caller_name ?? null,
+          input.callback_phone ?? null,
+          input.urgency,
+          input.topic ?? null,
+          input.body,
+          now,
+          now
+        );
+      const result = database.prepare("SELECT last_insert_rowid() as id").get() as { id: number };
+      return getById(result.id) as MessageRecord;
+    },
+    getMessageById(messageId) {
+      return getById(messageId);
+    },
+    listMessages(query) {
+      const clauses: string[] = [];
+      const params: unknown[] = [];
+      if (query.businessId === null) {
+        clauses.push("business_id IS NULL");
+      } else if (query.businessId !== undefined) {
+        clauses.push("business_id = ?");
+        params.push(query.businessId);
+      }
+      if (query.status) {
+        clauses.push("status = ?");
+        params.push(query.status);
+      }
+      const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+      return database
+        .prepare(`SELECT * FROM messages ${where} ORDER BY created_at DESC, id DESC`)
+        .all(...params) as MessageRecord[];
+    },
+    updateMessage(messageId, updates) {
+      const existing = getById(messageId);
+      if (!existing) return;
+      const merged = { ...existing, ...updates };
+      database
+        .prepare(
+          `UPDATE messages
+           SET status = ?, notified_via = ?, read_at = ?, handled_at = ?, updated_at = ?
+           WHERE id = ?`
+        )
+        .run(
+          merged.status,
+          merged.notified_via,
+          merged.read_at,
+          merged.handled_at,
+          new Date().toISOString(),
+          messageId
+        );
+      return getById(messageId);
+    },
+  };
+}
+
+function createMemoryStore(): MessageStore {
+  const messages = new Map<number, MessageRecord>();
+  let nextMessageId = 1;
+
+  return {
+    recordMessage(input) {
+      const now = new Date().toISOString();
+      const record: MessageRecord = {
+        id: nextMessageId++,
+        business_id: input.business_id ?? null,
+        call_sid: input.call_sid ?? null,
+        caller_name: input.caller_name ?? null,
+        callback_phone: input.callback_phone ?? null,
+        urgency: input.urgency,
+        topic: input.topic ?? null,
+        body: input.body,
+        status: "new",
+        notified_via: null,
+        read_at: null,
+        handled_at: null,
+        created_at: now,
+        updated_at: now,
+      };
+      messages.set(record.id, record);
+      return record;
+    },
+    getMessageById(messageId) {
+      return messages.get(messageId);
+    },
+    listMessages(query) {
+      return Array.from(messages.values())
+        .filter(
+          (message) => query.businessId === undefined || message.business_id === query.businessId
+        )
+        .filter((message) => !query.status || message.status === query.status)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id);
+    },
+    updateMessage(messageId, updates) {
+      const existing = messages.get(messageId);
+      if (!existing) return;
+      const updated = { ...existing, ...updates, updated_at: new Date().toISOString() };
+      messages.set(messageId, updated);
+      return updated;
+    },
+  };
+}
+
+export function recordMessage(input: MessageInput): MessageRecord {
+  return getStore().recordMessage(input);
+}
+
+export function getMessageById(messageId: number): MessageRecord | undefined {
+  return getStore().getMessageById(messageId);
+}
+
+/** Newest first. */
+export function listMessages(query: MessageQuery = {}): MessageRecord[] {
+  return getStore().listMessages(query);
+}
+
+export function markMessageNotified(
+  messageId: number,
+  channels: string[]
+): MessageRecord | undefined {
+  return getStore().updateMessage(messageId, {
+    notified_via: channels.length ? channels.join(",") : null,
+  });
+}
+
+/**
+ * Moves the message to `status`. The first time it is read or handled is kept; going back to
+ * "new" clears both so the message shows up as unread again.
+ */
+export function setMessageStatus(
+  messageId: number,
+  status: MessageStatus
+): MessageRecord | undefined {
+  const existing = getStore().getMessageById(messageId);
+  if (!existing) return;
+  const now = new Date().toISOString();
+  if (status === "new") {
+    return getStore().updateMessage(messageId, { status, read_at: null, handled_at: null });
+  }
+  return getStore().updateMessage(messageId, {
+    status,
+    read_at: existing.read_at ?? now,
+    handled_at: status === "handled" ? existing.handled_at ?? now : null,
+  });
+}
@@ -0,0 +1,166 @@
+import { env } from "../config/env.js";
+import { sendSms } from "./twilioSms.js";
+import { getBusinessProfile, type BusinessProfile } from "./businesses.js";
+import { runWithBusiness } from "./businessContext.js";
+import { recordCall, type CallOutcome } from "./callHistory.js";
+import { logger } from "../utils/logger.js";
+
+interface InboundCall {
+  callSid: string;
+  from: string | null;
+  to: string | null;
+  businessId: number | null;
+  startedAtMs: number;
+  streamStarted: boolean;
+  ownerAnswered: boolean;
+}
+
+// Far longer than any real call; pruning just keeps abandoned entries from piling up.
+const CALL_RETENTION_MS = 6 * 60 * 60 * 1000;
+const FINAL_CALL_STATUSES = new Set(["completed", "busy", "no-answer", "canceled", "failed"]);
+
+const inboundCalls = new Map<string, InboundCall>();
+
+function pruneInboundCalls(nowMs: number) {
+  for (const [callSid, call] of inboundCalls) {
+    if (nowMs - call.startedAtMs > CALL_RETENTION_MS) {
+      inboundCalls.delete(callSid);
+    }
+  }
+}
+
+function isTextableNumber(phone: string | null) {
+  if (!phone) return false;
+  const normalized = phone.trim();
+  if (!normalized || normalized.toLowerCase() === "anonymous") return false;
+  return /^\+?[1-9]\d{6,}$/.test(normalized);
+}
+
+/** Called from /twilio/voice so the status callback knows the call was ours to answer. */
+export function trackInboundCall(input: {
+  callSid: string;
+  from?: string;
+  to?: string;
+  businessId?: number | null;
+}) {
+  const nowMs = Date.now();
+  pruneInboundCalls(nowMs);
+  if (inboundCalls.has(input.callSid)) return;
+  inboundCalls.set(input.callSid, {
+    callSid: input.callSid,
+    from: input.from ?? null,
+    to: input.to ?? null,
+    businessId: input.businessId ?? null,
+    startedAtMs: nowMs,
+    streamStarted: false,
+    ownerAnswered: false,
+  });
+}
+
+export function noteStreamStarted(callSid: string) {
+  const call = inboundCalls.get(callSid);
+  if (call) call.streamStarted = true;
+}
+
+export function noteOwnerAnswered(callSid: string) {
+  const call = inboundCalls.get(callSid);
+  if (call) call.ownerAnswered = true;
+}
+
+// Calls the receptionist answered are recorded by the media stream; these are the rest.
+function recordCallWithoutReceptionist(call: InboundCall, outcome: CallOutcome) {
+  try {
+    recordCall({
+      call_sid: call.callSid,
+      business_id: call.businessId,
+      caller_phone: call.from,
+      business_phone: call.to,
+      outcome,
+      started_at: new Date(call.startedAtMs).toISOString(),
+      ended_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error("Failed to record call", error);
+  }
+}
+
+function buildCallerMessage(business: BusinessProfile) {
+  const at = business.name ? ` at ${business.name}` : "";
+  return `Sorry we missed you${at} — reply here to book or tell us what you need.`;
+}
+
+function buildOwnerMessage(call: InboundCall, textedCaller: boolean) {
+  const seconds = Math.round((Date.now() - call.startedAtMs) / 1000);
+  return [
+    "Missed call",
+    `From: ${call.from ?? "Unknown number"}`,
+    `Hung up after ${seconds}s, before the receptionist picked up.`,
+    textedCaller ? "We texted them back." : "We couldn't text them back.",
+  ].join("\n");
+}
+
+/**
+ * Handles the inbound call status callback. A tracked call that ends before the owner
+ * answers and before the media stream starts is a missed call: the caller gets a text
+ * back and the owner is told. Returns true when a missed call was handled.
+ */
+export async function handleInboundCallStatus(input: {
+  callSid: string;
+  callStatus: string;
+}): Promise<boolean> {
+  if (!FINAL_CALL_STATUSES.has(input.callStatus)) return false;
+
+  const call = inboundCalls.get(input.callSid);
+  if (!call) {
+    logger.info("Call status skipped: untracked callSid", { callSid: input.callSid });
+    return false;
+  }
+  inboundCalls.delete(input.callSid);
+  if (call.streamStarted) return false;
+  if (call.ownerAnswered) {
+    recordCallWithoutReceptionist(call, "owner_answered");
+    return false;
+  }
+  recordCallWithoutReceptionist(call, "missed");
+
+  logger.info("📵 missed call detected", {
+    callSid: call.callSid,
+    callStatus: input.callStatus,
+  });
+
+  if (!env.ENABLE_MISSED_CALL_TEXT_BACK) {
+    logger.info("Missed-call text-back skipped: ENABLE_MISSED_CALL_TEXT_BACK is disabled");
+    return true;
+  }
+
+  const business = getBusinessProfile(call.businessId);
+  await runWithBusiness(business, () => textBackMissedCall(call, business));
+  return true;
+}
+
+async function textBackMissedCall(call: InboundCall, business: BusinessProfile) {
+  let textedCaller = false;
+  if (isTextableNumber(call.from)) {
+    try {
+      const message = await sendSms(call.from!, buildCallerMessage(business));
+      textedCaller = true;
+      logger.info("Missed-call text sent (caller)", { sid: message.sid });
+    } catch (error) {
+      logger.error("Missed-call text failed (caller)", error);
+    }
+  } else {
+    logger.info("Missed-call text skipped: invalid caller phone", { from: call.from });
+  }
+
+  if (!business.ownerPhones.length) {
+    logger.info("Missed-call owner alert skipped: no owner phone for this business");
+  }
+  for (const ownerPhone of business.ownerPhones) {
+    try {
+      const message = await sendSms(ownerPhone, buildOwnerMessage(call, textedCaller));
+      logger.info("Missed-call alert sent (owner)", { sid: message.sid });
+    } catch (error) {
+      logger.error("Missed-call alert failed (owner)", error);
+    }
+  }
+}
@@ -0,0 +1,238 @@
+import axios from "axios";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import { env } from "../config/env.js";
+import { smsReceptionistPrompt } from "../prompts/smsReceptionist.js";
+import { describeBusinessHours } from "./booking/businessHours.js";
+import { toPhoneKey } from "./booking/appointmentLedger.js";
+import { getActiveBusiness } from "./businessContext.js";
+import { buildToolSchemas, executeTool } from "./tools/toolRegistry.js";
+import { logger } from "../utils/logger.js";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+// A text thread that goes quiet this long starts over, like a new phone call.
+const CONVERSATION_IDLE_MS = 30 * 60 * 1000;
+const MAX_HISTORY_MESSAGES = 30;
+const MAX_TOOL_ROUNDS = 5;
+// Tools registered for this mode are offered to text threads.
+const SMS_TOOL_MODE = "sms";
+const FALLBACK_REPLY =
+  "Sorry, we couldn't process that text right now. Please call us and we'll help you out.";
+
+interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+type ChatMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface SmsConversation {
+  phone: string;
+  businessId: number | null;
+  startedAtMs: number;
+  lastActivityMs: number;
+  messages: ChatMessage[];
+  // Texts from one number are answered in order, never in parallel.
+  queue: Promise<unknown>;
+}
+
+const conversations = new Map<string, SmsConversation>();
+
+// One thread per customer per business: the same customer texting two numbers gets two.
+function conversationKey(phone: string, businessId: number | null) {
+  return `${businessId ?? "default"}:${toPhoneKey(phone) ?? phone}`;
+}
+
+// Idle threads would start over on the next text anyway; dropping them keeps numbers
+// that texted once from piling up.
+function pruneConversations(nowMs: number) {
+  for (const [key, conversation] of conversations) {
+    if (nowMs - conversation.lastActivityMs >= CONVERSATION_IDLE_MS) {
+      conversations.delete(key);
+    }
+  }
+}
+
+function getConversation(phone: string, businessId: number | null, nowMs: number) {
+  const key = conversationKey(phone, businessId);
+  const existing = conversations.get(key);
+  pruneConversations(nowMs);
+  if (existing && nowMs - existing.lastActivityMs < CONVERSATION_IDLE_MS) {
+    return existing;
+  }
+  const conversation: SmsConversation = {
+    phone,
+    businessId,
+    startedAtMs: nowMs,
+    lastActivityMs: nowMs,
+    messages: [],
+    queue: existing?.queue ?? Promise.resolve(),
+  };
+  conversations.set(key, conversation);
+  return conversation;
+}
+
+/** True while this number has a text conversation with the receptionist in progress. */
+export function hasActiveSmsConversation(
+  phone: string,
+  businessId: number | null = getActiveBusiness().id,
+  nowMs = Date.now()
+) {
+  const existing = conversations.get(conversationKey(phone, businessId));
+  return Boolean(existing && nowMs - existing.lastActivityMs < CONVERSATION_IDLE_MS);
+}
+
+// Drops the oldest turns, always cutting at a customer message so a tool result is
+// never left without the assistant message that asked for it.
+function trimHistory(messages: ChatMessage[]) {
+  if (messages.length <= MAX_HISTORY_MESSAGES) return messages;
+  const trimmed = messages.slice(-MAX_HISTORY_MESSAGES);
+  const firstUser = trimmed.findIndex((message) => message.role === "user");
+  return firstUser > 0 ? trimmed.slice(firstUser) : trimmed;
+}
+
+function buildSystemPrompt(conversation: SmsConversation, nowMs: number) {
+  const business = getActiveBusiness();
+  const timezoneName = business.timezone;
+  const now = dayjs(nowMs).tz(timezoneName);
+  return [
+    smsReceptionistPrompt,
+    business.name ? `Business name: ${business.name}.` : null,
+    business.prompt,
+    `Current date and time: ${now.format("dddd, MMMM D, YYYY h:mm A")} (${timezoneName}).`,
+    `Customer phone number: ${conversation.phone}.`,
+    describeBusinessHours(timezoneName),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function buildChatTools() {
+  return buildToolSchemas(SMS_TOOL_MODE).map((tool) => ({
+    type: "function" as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+async function requestCompletion(systemPrompt: string, messages: ChatMessage[]) {
+  const response = await axios.post(
+    "https://api.openai.com/v1/chat/completions",
+    {
+      model: env.OPENAI_SMS_MODEL ?? env.OPENAI_INSTRUCTION_MODEL ?? DEFAULT_MODEL,
+      temperature: 0.3,
+      max_tokens: 300,
+      messages: [{ role: "system", content: systemPrompt }, ...messages],
+      tools: buildChatTools(),
+    },
+    {
+      headers: {
+        Authorization: `Bearer ${env.OPENAI_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+    }
+  );
+
+  const message = response.data?.choices?.[0]?.message;
+  if (!message) {
+    throw new Error("No message returned from OpenAI");
+  }
+  return {
+    content: typeof message.content === "string" ? message.content.trim() : null,
+    toolCalls: (message.tool_calls ?? []) as ChatToolCall[],
+  };
+}
+
+function parseToolArguments(raw: string): Record<string, unknown> | null {
+  if (!raw?.trim()) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function runTurn(conversation: SmsConversation, body: string): Promise<string> {
+  const nowMs = Date.now();
+  conversation.messages.push({ role: "user", content: body });
+  const systemPrompt = buildSystemPrompt(conversation, nowMs);
+  const idempotencySource = `sms:${conversationKey(
+    conversation.phone,
+    conversation.businessId
+  )}:${conversation.startedAtMs}`;
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round += 1) {
+    const completion = await requestCompletion(systemPrompt, conversation.messages);
+    // On the last round the model has to answer; any further tool calls are dropped.
+    if (!completion.toolCalls.length || round === MAX_TOOL_ROUNDS) {
+      const reply = completion.content || FALLBACK_REPLY;
+      conversation.messages.push({ role: "assistant", content: reply });
+      return reply;
+    }
+
+    conversation.messages.push({
+      role: "assistant",
+      content: completion.content,
+      tool_calls: completion.toolCalls,
+    });
+    for (const toolCall of completion.toolCalls) {
+      const args = parseToolArguments(toolCall.function.arguments);
+      logger.info("💬 sms tool call", { toolName: toolCall.function.name, args });
+      const output = args
+        ? await executeTool(toolCall.function.name, SMS_TOOL_MODE, args, {
+            callSid: null,
+            callerPhone: conversation.phone,
+            idempotencySource,
+            toolCallId: toolCall.id,
+          })
+        : { error: { code: "invalid_arguments", message: "Could not parse tool arguments." } };
+      conversation.messages.push({
+        role: "tool",
+        tool_call_id: toolCall.id,
+        content: JSON.stringify(output),
+      });
+    }
+  }
+  return FALLBACK_REPLY;
+}
+
+/**
+ * Answers one inbound text with the receptionist, using the same booking tools as voice
+ * calls. History is kept in memory per phone number and active business until the thread
+ * goes idle.
+ */
+export async function handleSmsMessage(from: string, body: string): Promise<string> {
+  if (!env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY is missing");
+  }
+
+  const conversation = getConversation(from, getActiveBusiness().id, Date.now());
+  const turn = conversation.queue.then(async () => {
+    const historyLength = conversation.messages.length;
+    try {
+      return await runTurn(conversation, body);
+    } catch (error) {
+      logger.error("SMS receptionist turn failed", error);
+      // Drop the half-finished turn so an unanswered tool call can't break the next request.
+      conversation.messages = conversation.messages.slice(0, historyLength);
+      return FALLBACK_REPLY;
+    } finally {
+      conversation.lastActivityMs = Date.now();
+      conversation.messages = trimHistory(conversation.messages);
+    }
+  });
+  conversation.queue = turn;
+  return turn;
+}
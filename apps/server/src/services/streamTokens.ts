@@ -0,0 +1,54 @@
+import crypto from "crypto";
+import type { IncomingMessage } from "http";
+import { env } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+
+// Long enough for the owner's phone to ring out and the greeting to play before
+// Twilio opens the stream.
+const STREAM_TOKEN_TTL_SECONDS = 15 * 60;
+
+function sign(callSid: string, expiresAt: number, secret: string) {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${callSid}.${expiresAt}`)
+    .digest("base64url");
+}
+
+/**
+ * Token for the <Stream> URL, bound to the call it was issued for. Returns null when
+ * TWILIO_AUTH_TOKEN (the signing secret) isn't configured.
+ */
+export function createStreamToken(callSid: string | undefined, nowMs = Date.now()) {
+  if (!env.TWILIO_AUTH_TOKEN) return null;
+  const expiresAt = Math.floor(nowMs / 1000) + STREAM_TOKEN_TTL_SECONDS;
+  return `${expiresAt}.${sign(callSid ?? "", expiresAt, env.TWILIO_AUTH_TOKEN)}`;
+}
+
+export function verifyStreamToken(
+  token: string | null,
+  callSid: string | null,
+  nowMs = Date.now()
+): boolean {
+  if (!token || !env.TWILIO_AUTH_TOKEN) return false;
+  const [expiresRaw, signature] = token.split(".");
+  const expiresAt = Number(expiresRaw);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt * 1000 < nowMs) return false;
+
+  const expected = Buffer.from(sign(callSid ?? "", expiresAt, env.TWILIO_AUTH_TOKEN));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/** verifyClient check for the media stream WebSocket upgrade. */
+export function isAuthorizedStreamRequest(req: IncomingMessage): boolean {
+  if (env.TWILIO_SKIP_SIGNATURE_VALIDATION) return true;
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const authorized = verifyStreamToken(
+    url.searchParams.get("token"),
+    url.searchParams.get("callSid")
+  );
+  if (!authorized) {
+    logger.warn("⚠️ Media stream rejected: missing or invalid token", { path: url.pathname });
+  }
+  return authorized;
+}
@@ -0,0 +1,132 @@
+import { z } from "zod";
+import { getActiveBusiness } from "./businessContext.js";
+import type { BusinessProfile } from "./businesses.js";
+import { isEmailConfigured, sendEmail } from "./email.js";
+import {
+  MESSAGE_URGENCIES,
+  markMessageNotified,
+  recordMessage,
+  type MessageRecord,
+  type MessageUrgency,
+} from "./messages.js";
+import { sendSms } from "./twilioSms.js";
+import { defineTool } from "./tools/toolDefinition.js";
+import { logger } from "../utils/logger.js";
+
+export interface TakeMessageInput {
+  name?: string;
+  callbackNumber?: string;
+  urgency?: MessageUrgency;
+  topic?: string;
+  message: string;
+}
+
+export interface TakeMessageContext {
+  callSid?: string | null;
+  callerPhone?: string | null;
+}
+
+export interface TakeMessageOutput {
+  saved: true;
+  messageId: number;
+  callbackNumber: string | null;
+}
+
+export const takeMessageTool = defineTool({
+  name: "take_message",
+  description:
+    "Save a message for the owner and notify them right away. Use it whenever you offer to take a message, once you have read the message back to the caller.",
+  modes: ["receptionist"],
+  schema: () =>
+    z.object({
+      name: z.string().optional().describe("Caller's name."),
+      callbackNumber: z
+        .string()
+        .optional()
+        .describe("Number to call back on. Defaults to the number they are calling from."),
+      urgency: z
+        .enum(MESSAGE_URGENCIES)
+        .optional()
+        .describe("urgent only if the caller says it can't wait; normal otherwise."),
+      topic: z.string().optional().describe("A few words on what it is about."),
+      message: z.string().trim().min(1).describe("The message, in the caller's words."),
+    }),
+  invalidArgumentsMessage: "Missing required field: message.",
+  handler: (args, context) => takeMessage(args, context),
+});
+
+function buildNotificationText(message: MessageRecord, business: BusinessProfile) {
+  const heading = message.urgency === "urgent" ? "URGENT message" : "New message";
+  const caller = message.caller_name?.trim() || "Unknown caller";
+  return [
+    business.name ? `${heading}: ${business.name}` : heading,
+    `From: ${caller} (${message.callback_phone ?? "no callback number"})`,
+    message.topic ? `Topic: ${message.topic}` : null,
+    `Message: ${message.body}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** Texts and emails every owner contact; records which channels got through. */
+export async function notifyOwnerOfMessage(
+  message: MessageRecord,
+  business: BusinessProfile = getActiveBusiness()
+) {
+  const text = buildNotificationText(message, business);
+  const channels = new Set<string>();
+
+  for (const ownerPhone of business.ownerPhones) {
+    try {
+      await sendSms(ownerPhone, text);
+      channels.add("sms");
+    } catch (error) {
+      logger.error("Message alert failed (owner SMS)", error);
+    }
+  }
+
+  if (business.ownerEmails.length && isEmailConfigured()) {
+    const subject = `${message.urgency === "urgent" ? "URGENT: " : ""}Message from ${
+      message.caller_name?.trim() || "a caller"
+    }${message.topic ? ` about ${message.topic}` : ""}`;
+    for (const ownerEmail of business.ownerEmails) {
+      try {
+        await sendEmail({ to: ownerEmail, subject, text });
+        channels.add("email");
+      } catch (error) {
+        logger.error("Message alert failed (owner email)", error);
+      }
+    }
+  }
+
+  if (!channels.size) {
+    logger.warn("⚠️ message saved but no owner was notified", { messageId: message.id });
+  }
+  return markMessageNotified(message.id, Array.from(channels));
+}
+
+/**
+ * Stores the caller's message for the active business and notifies the owner in the
+ * background, so the caller isn't kept waiting on the SMS and email providers.
+ */
+export function takeMessage(
+  input: TakeMessageInput,
+  context: TakeMessageContext
+): TakeMessageOutput {
+  const business = getActiveBusiness();
+  const message = recordMessage({
+    business_id: business.id,
+    call_sid: context.callSid ?? null,
+    caller_name: input.name?.trim() || null,
+    callback_phone: input.callbackNumber?.trim() || context.callerPhone || null,
+    urgency: input.urgency ?? "normal",
+    topic: input.topic?.trim() || null,
+    body: input.message.trim(),
+  });
+  logger.info("📝 message taken", { messageId: message.id, urgency: message.urgency });
+
+  notifyOwnerOfMessage(message, business).catch((error) =>
+    logger.error("Message notification error", error)
+  );
+  return { saved: true, messageId: message.id, callbackNumber: message.callback_phone };
+}
@@ -0,0 +1,42 @@
+import type { z } from "zod";
+
+/** A tool as the Realtime session sees it; the SMS receptionist rewraps it for Chat Completions. */
+export interface ToolSchema {
+  type: "function";
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/** Who a tool call runs for. */
+export interface ToolContext {
+  /** Call mode the tool runs in; "sms" is the text receptionist. */
+  mode: string;
+  callSid: string | null;
+  callerPhone: string | null;
+  /** Key for calendar idempotency: the call, stream or SMS thread. */
+  idempotencySource: string;
+  toolCallId: string;
+}
+
+export type ToolErrorOutput = { error: { code: string; message: string } };
+
+export interface ToolDefinition<Args = any> {
+  name: string;
+  description: string;
+  /** Call modes the tool is offered in; "sms" is the text receptionist. */
+  modes: readonly string[];
+  /**
+   * Argument schema. It is built per session so options read from the catalog or the
+   * business (services, staff, transfer lines) stay current; null leaves the tool out.
+   */
+  schema: () => z.ZodType<Args> | null;
+  /** Sent back when arguments don't match the schema; defaults to zod's own messages. */
+  invalidArgumentsMessage?: string;
+  handler: (args: Args, context: ToolContext) => unknown;
+}
+
+/** Types the handler's arguments from the schema. */
+export function defineTool<Args>(tool: ToolDefinition<Args>): ToolDefinition<Args> {
+  return tool;
+}
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { BookingToolError } from "../booking/bookingTools.js";
+import { bookingTools } from "../booking/bookingToolDefinitions.js";
+import { transferCallTool } from "../callTransfer.js";
+import { takeMessageTool } from "../takeMessage.js";
+import { logger } from "../../utils/logger.js";
+import type {
+  ToolContext,
+  ToolDefinition,
+  ToolErrorOutput,
+  ToolSchema,
+} from "./toolDefinition.js";
+
+const tools = new Map<string, ToolDefinition>(
+  [...bookingTools, takeMessageTool, transferCallTool].map((tool) => [tool.name, tool])
+);
+
+function toolError(code: string, message: string): ToolErrorOutput {
+  return { error: { code, message } };
+}
+
+/** Adds (or replaces) a tool; it is offered to the modes it lists from the next session on. */
+export function registerTool(tool: ToolDefinition) {
+  tools.set(tool.name, tool);
+}
+
+/**
+ * JSON schemas for the tools offered in `mode`, generated from their zod schemas. Options
+ * come from the active business and catalog, so build them per session rather than caching.
+ */
+export function buildToolSchemas(mode: string): ToolSchema[] {
+  const schemas: ToolSchema[] = [];
+  for (const tool of tools.values()) {
+    if (!tool.modes.includes(mode)) continue;
+    const schema = tool.schema();
+    if (!schema) continue;
+    const { $schema, ...parameters } = z.toJSONSchema(schema, { io: "input" });
+    schemas.push({ type: "function", name: tool.name, description: tool.description, parameters });
+  }
+  return schemas;
+}
+
+/**
+ * Validates a call to `name` in `mode`. Unknown tools, tools the mode doesn't offer and
+ * arguments that don't match the schema come back as `{ error }` for the model.
+ */
+export function parseToolCall(
+  name: string,
+  mode: string,
+  rawArgs: unknown
+): { tool: ToolDefinition; args: Record<string, unknown> } | ToolErrorOutput {
+  const tool = tools.get(name);
+  const schema = tool?.modes.includes(mode) ? tool.schema() : null;
+  if (!schema) {
+    return toolError("unknown_tool", `Unknown tool: ${name}`);
+  }
+  const parsed = schema.safeParse(rawArgs ?? {});
+  if (!parsed.success) {
+    return toolError(
+      "invalid_arguments",
+      tool.invalidArgumentsMessage ?? z.prettifyError(parsed.error)
+    );
+  }
+  return { tool, args: parsed.data as Record<string, unknown> };
+}
+
+/** Runs a validated call. BookingToolErrors and crashes come back as `{ error }`. */
+export async function runTool(
+  tool: ToolDefinition,
+  args: Record<string, unknown>,
+  context: ToolContext
+): Promise<unknown> {
+  try {
+    return await tool.handler(args, context);
+  } catch (error) {
+    if (error instanceof BookingToolError) {
+      return toolError(error.code, error.message);
+    }
+    logger.error("Tool execution error", error);
+    return toolError("tool_error", `${tool.name} failed.`);
+  }
+}
+
+/** Validates and runs one tool call outside a voice session (e.g. the SMS receptionist). */
+export async function executeTool(
+  name: string,
+  mode: string,
+  rawArgs: unknown,
+  context: Omit<ToolContext, "mode">
+): Promise<unknown> {
+  const call = parseToolCall(name, mode, rawArgs);
+  if ("error" in call) return call;
+  return runTool(call.tool, call.args, { ...context, mode });
+}
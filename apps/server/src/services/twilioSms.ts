@@ -1,5 +1,10 @@
 import twilio from "twilio";
 import { env } from "../config/env.js";
+import { getActiveBusiness } from "./businessContext.js";
+
+export type SmsSender = (message: { to: string; from: string; body: string }) => Promise<{
+  sid: string;
+}>;
 
 function requireEnv(value: string | undefined, name: string): string {
   if (!value) {
@@ -8,16 +13,28 @@ function requireEnv(value: string | undefined, name: string): string {
   return value;
 }
 
-export async function sendSms(to: string, body: string) {
+const twilioSender: SmsSender = (message) => {
   const accountSid = requireEnv(env.TWILIO_ACCOUNT_SID, "TWILIO_ACCOUNT_SID");
   const authToken = requireEnv(env.TWILIO_AUTH_TOKEN, "TWILIO_AUTH_TOKEN");
+  const client = twilio(accountSid, authToken);
+  return client.messages.create(message);
+};
+
+let smsSender: SmsSender = twilioSender;
+
+/** Replaces how texts go out (the offline harness captures them); null restores Twilio. */
+export function setSmsSender(sender: SmsSender | null) {
+  smsSender = sender ?? twilioSender;
+}
+
+/** Sends from `from`, or the active business's SMS number when omitted. */
+export async function sendSms(to: string, body: string, from?: string) {
   const fromNumber = requireEnv(
-    env.TWILIO_FROM_NUMBER ?? env.TWILIO_PHONE_NUMBER,
+    from ?? getActiveBusiness().smsFromNumber ?? env.TWILIO_FROM_NUMBER ?? env.TWILIO_PHONE_NUMBER,
     "TWILIO_FROM_NUMBER"
   );
 
-  const client = twilio(accountSid, authToken);
-  return client.messages.create({
+  return smsSender({
     to,
     from: fromNumber,
     body,
@@ -0,0 +1,153 @@
+import { AsyncLocalStorage } from "async_hooks";
+import fs from "fs";
+import path from "path";
+import { env } from "../config/env.js";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Fields attached to every line logged while the context is active. */
+export interface LogContext {
+  callSid?: string | null;
+  streamSid?: string | null;
+  businessId?: number | null;
+  [key: string]: unknown;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const MAX_DEPTH = 6;
+
+// Frames rather than one merged object, so a call can fill in its callSid after the
+// context was entered and everything already running under it picks that up.
+const contextStorage = new AsyncLocalStorage<LogContext[]>();
+
+/**
+ * Runs `fn` with `context` added to every log line inside it, including anything it
+ * awaits. The object is read at log time, so later mutations show up in later lines.
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  const frames = contextStorage.getStore() ?? [];
+  return contextStorage.run([...frames, context], fn);
+}
+
+function currentContext(): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  for (const frame of contextStorage.getStore() ?? []) {
+    for (const [key, value] of Object.entries(frame)) {
+      if (value !== null && value !== undefined) merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+// E.164 numbers and 10-digit North American numbers, not digits inside SIDs or timestamps.
+const PHONE_PATTERN =
+  /(?<![\w+])(?:\+\d{8,15}|(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4})(?!\w)/g;
+const EMAIL_PATTERN = /[\w.+-]+@([\w-]+\.[\w.-]+)/g;
+// Secrets are always redacted; LOG_REDACT_PII only controls phone and email masking.
+const SECRET_KEY_PATTERN = /token|secret|password|authorization|api_?key/i;
+
+function maskPhone(match: string) {
+  const digits = match.replace(/\D/g, "");
+  return `***${digits.slice(-4)}`;
+}
+
+export function redactText(value: string): string {
+  if (!env.LOG_REDACT_PII) return value;
+  return value.replace(PHONE_PATTERN, maskPhone).replace(EMAIL_PATTERN, "***@$1");
+}
+
+function serializeError(error: Error & { code?: unknown; response?: any }) {
+  return {
+    name: error.name,
+    message: error.message,
+    code: error.code,
+    // axios errors carry the provider's response; the rest of the object is noise.
+    status: error.response?.status,
+    data: error.response?.data,
+    stack: error.stack,
+  };
+}
+
+function sanitize(value: unknown, key: string, depth: number, seen: WeakSet<object>): unknown {
+  if (value === null || value === undefined) return value;
+  if (SECRET_KEY_PATTERN.test(key)) return "[redacted]";
+  if (typeof value === "string") return redactText(value);
+  if (typeof value !== "object") return typeof value === "bigint" ? value.toString() : value;
+  if (value instanceof Date) return value.toISOString();
+  if (seen.has(value)) return "[circular]";
+  if (depth >= MAX_DEPTH) return "[truncated]";
+  seen.add(value);
+  if (value instanceof Error) {
+    return sanitize(serializeError(value), key, depth + 1, seen);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitize(item, key, depth + 1, seen));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([entryKey, entryValue]) => [
+      entryKey,
+      sanitize(entryValue, entryKey, depth + 1, seen),
+    ])
+  );
+}
+
+function toFields(fields: unknown): Record<string, unknown> {
+  if (fields === undefined) return {};
+  if (fields instanceof Error) return { error: fields };
+  if (fields && typeof fields === "object" && !Array.isArray(fields)) {
+    return fields as Record<string, unknown>;
+  }
+  return { detail: fields };
+}
+
+let fileStream: fs.WriteStream | null | undefined;
+
+function getFileStream() {
+  if (fileStream !== undefined) return fileStream;
+  fileStream = null;
+  if (!env.LOG_FILE || /^(off|none|false)$/i.test(env.LOG_FILE)) return fileStream;
+  try {
+    const filePath = path.resolve(env.LOG_FILE);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fileStream = fs.createWriteStream(filePath, { flags: "a" });
+    fileStream.on("error", (error) => {
+      process.stderr.write(`Log file write failed; logging to stdout only: ${error.message}\n`);
+      fileStream = null;
+    });
+  } catch (error) {
+    process.stderr.write(`Log file unavailable; logging to stdout only: ${String(error)}\n`);
+  }
+  return fileStream;
+}
+
+function formatPretty(entry: Record<string, unknown>) {
+  const { time, level, msg, ...rest } = entry;
+  const extra = Object.keys(rest).length ? ` ${JSON.stringify(rest)}` : "";
+  return `${time} ${String(level).toUpperCase().padEnd(5)} ${msg}${extra}`;
+}
+
+function write(level: LogLevel, message: string, fields?: unknown) {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[env.LOG_LEVEL]) return;
+  const seen = new WeakSet<object>();
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: redactText(message),
+    ...(sanitize({ ...currentContext(), ...toFields(fields) }, "", 0, seen) as object),
+  };
+  const json = JSON.stringify(entry);
+  process.stdout.write(`${env.LOG_FORMAT === "pretty" ? formatPretty(entry) : json}\n`);
+  getFileStream()?.write(`${json}\n`);
+}
+
+/**
+ * Structured logger: one JSON line per call (or `LOG_FORMAT=pretty` for local reading),
+ * with the active call/business context attached and phone numbers, emails and secrets
+ * redacted. `fields` is usually an object; an Error or any other value is wrapped.
+ */
+export const logger = {
+  debug: (message: string, fields?: unknown) => write("debug", message, fields),
+  info: (message: string, fields?: unknown) => write("info", message, fields),
+  warn: (message: string, fields?: unknown) => write("warn", message, fields),
+  error: (message: string, fields?: unknown) => write("error", message, fields),
+};
@@ -0,0 +1,21 @@
+import * as crypto from "node:crypto";
+
+const HASH_ITERATIONS = 120_000;
+
+export function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = crypto
+    .pbkdf2Sync(password, salt, HASH_ITERATIONS, 32, "sha256")
+    .toString("hex");
+  return `pbkdf2_sha256$${HASH_ITERATIONS}$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, storedHash: string) {
+  const [algorithm, iterationsRaw, salt, expectedHash] = storedHash.split("$");
+  if (!algorithm || !iterationsRaw || !salt || !expectedHash) return false;
+  if (algorithm !== "pbkdf2_sha256") return false;
+  const iterations = Number(iterationsRaw);
+  if (!Number.isFinite(iterations)) return false;
+  const hash = crypto.pbkdf2Sync(password, salt, iterations, 32, "sha256").toString("hex");
+  return crypto.timingSafeEqual(Buffer.from(hash, "hex"), Buffer.from(expectedHash, "hex"));
+}